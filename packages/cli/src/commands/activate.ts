@@ -0,0 +1,71 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { runMigrations } from '@flowsfarm/core';
+import { ActivationError, SyncEngine } from '@flowsfarm/n8n-sync';
+import { findWorkflow } from '../utils/workflow-lookup';
+
+export function activateCommand(): Command {
+  return new Command('activate')
+    .description('Activate workflows on n8n')
+    .argument('<workflows...>', 'Workflow names or IDs')
+    .option('-f, --force', 'Skip the checks for trigger nodes and credentials')
+    .action((workflowArgs: string[], options: { force?: boolean }) =>
+      setActive(workflowArgs, true, options.force ?? false)
+    );
+}
+
+export function deactivateCommand(): Command {
+  return new Command('deactivate')
+    .description('Deactivate workflows on n8n')
+    .argument('<workflows...>', 'Workflow names or IDs')
+    .action((workflowArgs: string[]) => setActive(workflowArgs, false, false));
+}
+
+async function setActive(workflowArgs: string[], active: boolean, force: boolean): Promise<void> {
+  try {
+    runMigrations();
+
+    const workflows = workflowArgs.map(findWorkflow);
+    const engines = new Map<string, SyncEngine>();
+    let failed = 0;
+
+    // One workflow failing does not stop the others
+    for (const workflow of workflows) {
+      const spinner = ora(`${active ? 'Activating' : 'Deactivating'} "${workflow.name}"...`).start();
+
+      try {
+        let engine = engines.get(workflow.connectionId);
+        if (!engine) {
+          engine = new SyncEngine(workflow.connectionId);
+          engines.set(workflow.connectionId, engine);
+        }
+
+        await engine.setActive(workflow.id, active, { force });
+        spinner.succeed(chalk.green(`${workflow.name} ${active ? 'activated' : 'deactivated'}`));
+      } catch (error) {
+        failed++;
+        if (error instanceof ActivationError) {
+          spinner.fail(chalk.red(`Cannot ${active ? 'activate' : 'deactivate'} ${workflow.name}`));
+          for (const issue of error.issues) {
+            console.log(chalk.red(`    - ${issue}`));
+          }
+        } else {
+          spinner.fail(chalk.red(`${workflow.name}: ${error instanceof Error ? error.message : error}`));
+        }
+      }
+    }
+
+    if (failed > 0) {
+      if (active && !force) {
+        console.log(chalk.dim('\n  Use --force to skip the checks and let n8n decide'));
+      }
+      process.exit(1);
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+    }
+    process.exit(1);
+  }
+}
@@ -0,0 +1,45 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { runMigrations } from '@flowsfarm/core';
+import { getConnection, commitWorkflowFiles } from '@flowsfarm/n8n-sync';
+
+interface CommitOptions {
+  message: string;
+  connection?: string;
+}
+
+export function commitCommand(): Command {
+  return new Command('commit')
+    .description('Commit local workflow files to git, leaving other changes unstaged')
+    .requiredOption('-m, --message <message>', 'Commit message')
+    .option('-c, --connection <name>', 'Only commit workflows of this connection')
+    .action((options: CommitOptions) => {
+      try {
+        runMigrations();
+
+        let connectionId: string | undefined;
+        if (options.connection) {
+          const connection = getConnection(options.connection);
+          if (!connection) {
+            console.error(chalk.red(`Connection not found: ${options.connection}`));
+            process.exit(1);
+          }
+          connectionId = connection.id;
+        }
+
+        const commit = commitWorkflowFiles(options.message, connectionId);
+
+        if (!commit) {
+          console.log(chalk.dim('No workflow changes to commit'));
+          return;
+        }
+
+        console.log(chalk.green(`✓ Committed workflow files (${commit})`));
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
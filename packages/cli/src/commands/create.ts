@@ -1,8 +1,17 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
+import { join, relative } from 'path';
 import { runMigrations, loadTemplate, listTemplates } from '@flowsfarm/core';
-import { createWorkflow, listConnections, getConnection } from '@flowsfarm/n8n-sync';
+import {
+  createWorkflow,
+  createDraftWorkflow,
+  getWorkflowDir,
+  ActivationError,
+  listConnections,
+  getConnection,
+  type CreateWorkflowInput,
+} from '@flowsfarm/n8n-sync';
 
 export function createCommand(): Command {
   return new Command('create')
@@ -11,6 +20,7 @@ export function createCommand(): Command {
     .option('-c, --connection <name>', 'Connection name or ID')
     .option('-t, --template <template>', 'Template name')
     .option('--active', 'Activate the workflow after creation')
+    .option('--draft', 'Create the workflow locally only (created on n8n by the next push)')
     .action(async (name, options) => {
       try {
         runMigrations();
@@ -33,8 +43,8 @@ export function createCommand(): Command {
         }
 
         // Get template if specified
-        let nodes: unknown[] = [];
-        let workflowConnections: Record<string, unknown> = {};
+        let nodes: CreateWorkflowInput['nodes'] = [];
+        let workflowConnections: CreateWorkflowInput['connections'] = {};
 
         if (options.template) {
           const template = loadTemplate(options.template);
@@ -50,18 +60,53 @@ export function createCommand(): Command {
             process.exit(1);
           }
 
-          nodes = template.nodes;
-          workflowConnections = template.connections;
+          nodes = template.nodes as CreateWorkflowInput['nodes'];
+          workflowConnections = template.connections as CreateWorkflowInput['connections'];
+        }
+
+        if (options.draft) {
+          const draft = createDraftWorkflow(connection.id, {
+            name,
+            nodes,
+            connections: workflowConnections,
+            active: options.active ?? false,
+          });
+
+          console.log(chalk.green(`Draft workflow "${name}" created`));
+          const draftPath = join(getWorkflowDir(draft), 'workflow.json');
+          console.log(chalk.dim(`  Path: ${relative(process.cwd(), draftPath)}`));
+          if (options.template) {
+            console.log(chalk.dim(`  Template: ${options.template}`));
+          }
+
+          console.log(chalk.dim('\nRun `flowsfarm push` to create it on n8n'));
+          return;
         }
 
         const spinner = ora(`Creating workflow "${name}"...`).start();
 
-        const workflow = await createWorkflow(connection.id, {
-          name,
-          nodes,
-          connections: workflowConnections,
-          active: options.active ?? false,
-        });
+        let workflow;
+        try {
+          workflow = await createWorkflow(connection.id, {
+            name,
+            nodes,
+            connections: workflowConnections,
+            active: options.active ?? false,
+          });
+        } catch (error) {
+          if (!(error instanceof ActivationError)) {
+            throw error;
+          }
+
+          // Created, but left inactive
+          spinner.warn(chalk.yellow(`Workflow "${name}" created, but not activated`));
+          console.log(chalk.dim(`  ID: ${error.workflowId}`));
+          for (const issue of error.issues) {
+            console.log(chalk.red(`    - ${issue}`));
+          }
+          console.log(chalk.dim('\nRun `flowsfarm pull` to sync locally, then `flowsfarm activate` once it is ready'));
+          process.exit(1);
+        }
 
         spinner.succeed(chalk.green(`Workflow "${name}" created`));
         console.log(chalk.dim(`  ID: ${workflow.id}`));
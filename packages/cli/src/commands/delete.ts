@@ -0,0 +1,37 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { runMigrations } from '@flowsfarm/core';
+import { SyncEngine } from '@flowsfarm/n8n-sync';
+import { findWorkflow } from '../utils/workflow-lookup';
+
+export function deleteCommand(): Command {
+  return new Command('delete')
+    .description('Delete a workflow locally (deleted on n8n by the next push)')
+    .argument('<workflow>', 'Workflow name or ID')
+    .action((workflowArg: string) => {
+      try {
+        runMigrations();
+
+        const workflow = findWorkflow(workflowArg);
+
+        if (workflow.syncStatus === 'pending_delete') {
+          console.log(chalk.yellow(`Workflow "${workflow.name}" is already marked for deletion.`));
+          return;
+        }
+
+        const engine = new SyncEngine(workflow.connectionId);
+        const pendingPush = engine.deleteWorkflow(workflow.id);
+
+        console.log(chalk.green(`Deleted workflow "${workflow.name}" locally`));
+        if (pendingPush) {
+          console.log(chalk.dim('  Use "flowsfarm push" to delete it on n8n'));
+          console.log(chalk.dim(`  Use "flowsfarm pull --force -w ${workflow.remoteId}" to restore it`));
+        }
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
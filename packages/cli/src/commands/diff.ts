@@ -3,23 +3,62 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { runMigrations } from '@flowsfarm/core';
 import {
-  diffWorkflow,
-  diffAllWorkflows,
+  SyncEngine,
   listConnections,
   getConnection,
+  diffConnections,
   type WorkflowDiff,
+  type DriftReport,
 } from '@flowsfarm/n8n-sync';
-import { showDiff } from '../utils/diff-display';
+import {
+  showDiff,
+  showChanges,
+  showDiffStat,
+  DIFF_FORMATS,
+  type DiffFormat,
+} from '../utils/diff-display';
+
+interface DiffCommandOptions {
+  connection?: string;
+  workflow?: string;
+  layout?: boolean;
+  format: DiffFormat;
+  stat?: boolean;
+  exitCode?: boolean;
+  from?: string;
+  to?: string;
+}
 
 export function diffCommand(): Command {
   return new Command('diff')
     .description('Show differences between local and remote workflows')
     .option('-c, --connection <name>', 'Connection name or ID')
     .option('-w, --workflow <id>', 'Specific workflow ID')
-    .action(async (options) => {
+    .option('--layout', 'Also show node position changes')
+    .option('-f, --format <format>', `Output format (${DIFF_FORMATS.join(', ')})`, 'unified')
+    .option('--stat', 'Show a summary per workflow (same as --format stat)')
+    .option('--exit-code', 'Exit with status 1 when there are differences (or a connection fails)')
+    .option('--from <connection>', 'Compare two connections: the one to compare from')
+    .option('--to <connection>', 'Compare two connections: the one to compare to')
+    .argument('[workflow]', 'Workflow name or ID, with --from and --to')
+    .action(async (workflowArg: string | undefined, options: DiffCommandOptions) => {
       try {
         runMigrations();
 
+        const format: DiffFormat = options.stat ? 'stat' : options.format;
+        if (!DIFF_FORMATS.includes(format)) {
+          console.error(chalk.red(`Unknown format: ${format}. Use one of: ${DIFF_FORMATS.join(', ')}`));
+          process.exit(1);
+        }
+
+        if (options.from || options.to) {
+          const hasDrift = await showConnectionDrift(workflowArg, options, format);
+          if (options.exitCode && hasDrift) {
+            process.exit(1);
+          }
+          return;
+        }
+
         // Get connection(s)
         const connections = options.connection
           ? [getConnection(options.connection)].filter(Boolean)
@@ -31,63 +70,37 @@ export function diffCommand(): Command {
           process.exit(1);
         }
 
-        for (const connection of connections) {
-          if (!connection) continue;
-
-          console.log(chalk.bold(`\n${connection.name}`));
-
-          const spinner = ora('Fetching remote workflows...').start();
+        let hasDifferences = false;
 
-          try {
-            let diffs: WorkflowDiff[];
-
-            if (options.workflow) {
-              const diff = await diffWorkflow(connection.id, options.workflow);
-              diffs = diff ? [diff] : [];
-            } else {
-              diffs = await diffAllWorkflows(connection.id);
-            }
-
-            spinner.stop();
-
-            if (diffs.length === 0) {
-              console.log(chalk.dim('  No workflows found'));
-              continue;
-            }
-
-            // Group by change status
+        if (format === 'json') {
+          const results = [];
+          for (const connection of connections) {
+            if (!connection) continue;
+            const engine = new SyncEngine(connection.id);
+            const diffs = await engine.diff(options.workflow, { layout: options.layout });
             const changed = diffs.filter((d) => d.hasChanges);
-            const unchanged = diffs.filter((d) => !d.hasChanges);
-
-            if (changed.length === 0) {
-              console.log(chalk.green('\n  Everything up-to-date'));
-              console.log(chalk.dim(`  ${unchanged.length} workflows synced`));
-              continue;
-            }
-
-            // Show diffs
-            for (const diff of changed) {
-              showDiff(diff);
-            }
-
-            // Summary
-            console.log();
-            console.log(chalk.yellow(`${changed.length} workflow(s) with differences`));
-            if (unchanged.length > 0) {
-              console.log(chalk.dim(`${unchanged.length} workflow(s) unchanged`));
-            }
-            console.log();
-            console.log(chalk.dim('Use "flowsfarm pull" to get remote changes'));
-            console.log(chalk.dim('Use "flowsfarm push" to upload local changes'));
-          } catch (error) {
-            spinner.fail(chalk.red('Failed to compare'));
-            if (error instanceof Error) {
-              console.error(chalk.red(error.message));
-            }
+            results.push({
+              connection: { id: connection.id, name: connection.name, baseUrl: connection.baseUrl },
+              clean: changed.length === 0,
+              workflows: changed,
+            });
+          }
+
+          hasDifferences = results.some((r) => !r.clean);
+          console.log(JSON.stringify({ clean: !hasDifferences, connections: results }, null, 2));
+        } else {
+          for (const connection of connections) {
+            if (!connection) continue;
+            // A connection that could not be compared counts as drift
+            const changed = await showConnectionDiff(connection, options, format);
+            hasDifferences ||= changed === null || changed.length > 0;
           }
+          console.log();
         }
 
-        console.log();
+        if (options.exitCode && hasDifferences) {
+          process.exit(1);
+        }
       } catch (error) {
         if (error instanceof Error) {
           console.error(chalk.red(error.message));
@@ -96,3 +109,146 @@ export function diffCommand(): Command {
       }
     });
 }
+
+async function showConnectionDiff(
+  connection: { id: string; name: string },
+  options: DiffCommandOptions,
+  format: Exclude<DiffFormat, 'json'>
+): Promise<WorkflowDiff[] | null> {
+  console.log(chalk.bold(`\n${connection.name}`));
+
+  const spinner = ora('Fetching remote workflows...').start();
+
+  try {
+    const engine = new SyncEngine(connection.id);
+    const diffs = await engine.diff(options.workflow, { layout: options.layout });
+
+    spinner.stop();
+
+    if (diffs.length === 0) {
+      console.log(chalk.dim('  No workflows found'));
+      return [];
+    }
+
+    // Group by change status
+    const changed = diffs.filter((d) => d.hasChanges);
+    const unchanged = diffs.filter((d) => !d.hasChanges);
+
+    if (changed.length === 0) {
+      console.log(chalk.green('\n  Everything up-to-date'));
+      console.log(chalk.dim(`  ${unchanged.length} workflows synced`));
+      return [];
+    }
+
+    if (format === 'stat') {
+      showDiffStat(changed);
+      return changed;
+    }
+
+    // Show diffs
+    for (const diff of changed) {
+      showDiff(diff, format);
+    }
+
+    // Summary
+    console.log();
+    console.log(chalk.yellow(`${changed.length} workflow(s) with differences`));
+    if (unchanged.length > 0) {
+      console.log(chalk.dim(`${unchanged.length} workflow(s) unchanged`));
+    }
+    console.log();
+    console.log(chalk.dim('Use "flowsfarm pull" to get remote changes'));
+    console.log(chalk.dim('Use "flowsfarm push" to upload local changes'));
+
+    return changed;
+  } catch (error) {
+    spinner.fail(chalk.red('Failed to compare'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+    }
+    return null;
+  }
+}
+
+/**
+ * Compare the workflows of two connections. Returns whether they differ.
+ */
+async function showConnectionDrift(
+  workflowArg: string | undefined,
+  options: DiffCommandOptions,
+  format: DiffFormat
+): Promise<boolean> {
+  if (!options.from || !options.to) {
+    console.error(chalk.red('Use --from and --to together to compare two connections.'));
+    process.exit(1);
+  }
+
+  const from = getConnection(options.from);
+  const to = getConnection(options.to);
+  if (!from || !to) {
+    console.error(chalk.red(`Connection not found: ${from ? options.to : options.from}`));
+    process.exit(1);
+  }
+
+  const spinner = format === 'json' ? null : ora(`Comparing ${from.name} with ${to.name}...`).start();
+  let report: DriftReport;
+  try {
+    report = await diffConnections(from.id, to.id, {
+      workflow: workflowArg ?? options.workflow,
+      layout: options.layout,
+    });
+    spinner?.stop();
+  } catch (error) {
+    spinner?.fail(chalk.red(`Failed to compare ${from.name} with ${to.name}`));
+    throw error;
+  }
+
+  const onlyFrom = report.workflows.filter((w) => w.status === 'only_from');
+  const onlyTo = report.workflows.filter((w) => w.status === 'only_to');
+  const different = report.workflows.filter((w) => w.status === 'different');
+  const identical = report.workflows.filter((w) => w.status === 'identical');
+  const hasDrift = onlyFrom.length + onlyTo.length + different.length > 0;
+
+  if (format === 'json') {
+    console.log(JSON.stringify({ clean: !hasDrift, ...report }, null, 2));
+    return hasDrift;
+  }
+
+  console.log(chalk.bold(`\n${from.name} → ${to.name}`));
+
+  if (report.workflows.length === 0) {
+    console.log(chalk.dim('  No workflows found'));
+    return false;
+  }
+
+  if (format === 'stat') {
+    if (different.length > 0) {
+      showDiffStat(different.map((w) => ({ workflowName: w.name, changes: w.changes })));
+    }
+  } else {
+    for (const workflow of different) {
+      showChanges(`diff ${workflow.name} (${from.name} → ${to.name})`, workflow.changes, format);
+    }
+  }
+
+  // Summary
+  console.log();
+  for (const workflow of onlyFrom) {
+    console.log(chalk.red(`  only in ${from.name}: ${workflow.name}`));
+  }
+  for (const workflow of onlyTo) {
+    console.log(chalk.green(`  only in ${to.name}: ${workflow.name}`));
+  }
+  if (different.length > 0) {
+    console.log(chalk.yellow(`  ${different.length} workflow(s) differ`));
+  }
+  if (identical.length > 0) {
+    console.log(chalk.dim(`  ${identical.length} workflow(s) identical`));
+  }
+  if (!hasDrift) {
+    console.log(chalk.green(`  ${from.name} and ${to.name} are in sync`));
+  }
+  console.log();
+
+  return hasDrift;
+}
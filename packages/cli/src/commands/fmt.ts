@@ -0,0 +1,69 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { runMigrations } from '@flowsfarm/core';
+import { listConnections, getConnection, formatLocalWorkflows } from '@flowsfarm/n8n-sync';
+
+interface FmtOptions {
+  connection?: string;
+  check?: boolean;
+}
+
+export function fmtCommand(): Command {
+  return new Command('fmt')
+    .description('Rewrite local workflow files in canonical form')
+    .argument('[workflow]', 'Workflow name or ID')
+    .option('-c, --connection <name>', 'Connection name or ID')
+    .option('--check', 'Only list files that are not formatted, and fail if there are any')
+    .action((workflowArg: string | undefined, options: FmtOptions) => {
+      try {
+        runMigrations();
+
+        const connections = options.connection
+          ? [getConnection(options.connection)].filter(Boolean)
+          : listConnections();
+
+        if (connections.length === 0) {
+          console.error(chalk.red('No connections found.'));
+          console.log(`Run ${chalk.cyan('flowsfarm connect add')} to add one.`);
+          process.exit(1);
+        }
+
+        const results = connections.flatMap((connection) =>
+          connection ? formatLocalWorkflows(connection.id, workflowArg, { check: options.check }) : []
+        );
+
+        if (workflowArg && results.length === 0) {
+          console.error(chalk.red(`Workflow not found: ${workflowArg}`));
+          process.exit(1);
+        }
+
+        const files = results.flatMap((r) => r.files);
+        const failed = results.filter((r) => r.error);
+
+        for (const file of files) {
+          console.log(options.check ? chalk.yellow(`  ${file}`) : `  ${chalk.green('✓')} ${file}`);
+        }
+        for (const result of failed) {
+          console.log(chalk.red(`  ✗ ${result.workflowName}: ${result.error}`));
+        }
+
+        console.log();
+        if (options.check && files.length > 0) {
+          console.log(chalk.red(`${files.length} file(s) not formatted. Run \`flowsfarm fmt\` to fix them.`));
+        } else if (files.length > 0) {
+          console.log(chalk.green(`✓ Formatted ${files.length} file(s)`));
+        } else {
+          console.log(chalk.green(`✓ ${results.length - failed.length} workflow(s) already formatted`));
+        }
+
+        if ((options.check && files.length > 0) || failed.length > 0) {
+          process.exit(1);
+        }
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,38 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { runMigrations } from '@flowsfarm/core';
+import { gcHistory } from '@flowsfarm/n8n-sync';
+
+interface GcOptions {
+  keep: string;
+  olderThan?: string;
+}
+
+export function gcCommand(): Command {
+  return new Command('gc')
+    .description('Remove old workflow versions from the history')
+    .option('-k, --keep <count>', 'Versions to keep per workflow', '20')
+    .option('--older-than <days>', 'Also remove versions older than this many days')
+    .action((options: GcOptions) => {
+      try {
+        runMigrations();
+
+        const keep = Number(options.keep);
+        const olderThanDays = options.olderThan !== undefined ? Number(options.olderThan) : undefined;
+        if (!(keep >= 1) || (olderThanDays !== undefined && !(olderThanDays >= 0))) {
+          console.error(chalk.red('--keep must be at least 1 and --older-than a number of days.'));
+          process.exit(1);
+        }
+
+        const result = gcHistory({ keep, olderThanDays });
+
+        console.log(chalk.green(`Pruned ${result.prunedVersions} version(s)`));
+        console.log(chalk.dim(`  Removed ${result.removedObjects} snapshot file(s)`));
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
@@ -3,9 +3,24 @@ import { initCommand } from './init';
 import { connectCommand } from './connect';
 import { pullCommand } from './pull';
 import { pushCommand } from './push';
+import { syncCommand } from './sync';
+import { watchCommand } from './watch';
 import { statusCommand } from './status';
 import { diffCommand } from './diff';
+import { resolveCommand } from './resolve';
+import { lintCommand } from './lint';
+import { validateCommand } from './validate';
+import { fmtCommand } from './fmt';
+import { logCommand } from './log';
+import { restoreCommand } from './restore';
+import { gcCommand } from './gc';
+import { migrateCommand } from './migrate';
+import { commitCommand } from './commit';
+import { mergeDriverCommand } from './merge-driver';
 import { createCommand } from './create';
+import { deleteCommand } from './delete';
+import { activateCommand, deactivateCommand } from './activate';
+import { promoteCommand } from './promote';
 import { listCommand } from './list';
 import { showCommand } from './show';
 import { templatesCommand } from './templates';
@@ -14,11 +29,27 @@ export function registerCommands(program: Command): void {
   program.addCommand(initCommand());
   program.addCommand(connectCommand());
   program.addCommand(createCommand());
+  program.addCommand(deleteCommand());
+  program.addCommand(activateCommand());
+  program.addCommand(deactivateCommand());
   program.addCommand(listCommand());
   program.addCommand(showCommand());
   program.addCommand(templatesCommand());
   program.addCommand(pullCommand());
   program.addCommand(pushCommand());
+  program.addCommand(syncCommand());
+  program.addCommand(watchCommand());
+  program.addCommand(commitCommand());
+  program.addCommand(mergeDriverCommand());
+  program.addCommand(promoteCommand());
   program.addCommand(statusCommand());
   program.addCommand(diffCommand());
+  program.addCommand(resolveCommand());
+  program.addCommand(lintCommand());
+  program.addCommand(validateCommand());
+  program.addCommand(fmtCommand());
+  program.addCommand(logCommand());
+  program.addCommand(restoreCommand());
+  program.addCommand(gcCommand());
+  program.addCommand(migrateCommand());
 }
@@ -1,7 +1,13 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { initConfig, isInitialized, runMigrations, ensureTemplatesDir } from '@flowsfarm/core';
+import {
+  initConfig,
+  isInitialized,
+  runMigrations,
+  ensureTemplatesDir,
+  ensureGitignore,
+} from '@flowsfarm/core';
 
 export function initCommand(): Command {
   return new Command('init')
@@ -31,12 +37,16 @@ export function initCommand(): Command {
         // Create templates directory
         ensureTemplatesDir();
 
+        // Keep the database and conflict files out of version control
+        ensureGitignore();
+
         spinner.succeed(chalk.green('FlowsFarm project initialized'));
 
         console.log('\n' + chalk.dim('Created:'));
         console.log(chalk.dim('  .flowsfarm.json       - Project configuration'));
         console.log(chalk.dim('  .flowsfarm/           - Data directory'));
         console.log(chalk.dim('  .flowsfarm/templates/ - Workflow templates'));
+        console.log(chalk.dim('  .flowsfarm/.gitignore - Keeps the database out of git'));
 
         console.log('\n' + chalk.bold('Next steps:'));
         console.log(
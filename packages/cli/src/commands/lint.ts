@@ -0,0 +1,171 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { runMigrations } from '@flowsfarm/core';
+import {
+  listConnections,
+  getConnection,
+  lintLocalWorkflows,
+  listLintRules,
+  getLintRules,
+  type LintResult,
+} from '@flowsfarm/n8n-sync';
+
+type LintFormat = 'human' | 'json' | 'sarif';
+
+const LINT_FORMATS: LintFormat[] = ['human', 'json', 'sarif'];
+
+interface LintOptions {
+  connection?: string;
+  format: LintFormat;
+  listRules?: boolean;
+}
+
+export function lintCommand(): Command {
+  return new Command('lint')
+    .description('Check local workflow files for common mistakes')
+    .argument('[workflow]', 'Workflow name or ID')
+    .option('-c, --connection <name>', 'Connection name or ID')
+    .option('-f, --format <format>', `Output format (${LINT_FORMATS.join(', ')})`, 'human')
+    .option('--list-rules', 'List the available rules and their severity')
+    .action((workflowArg: string | undefined, options: LintOptions) => {
+      try {
+        runMigrations();
+
+        if (options.listRules) {
+          showRules();
+          return;
+        }
+
+        if (!LINT_FORMATS.includes(options.format)) {
+          console.error(chalk.red(`Unknown format: ${options.format}. Use one of: ${LINT_FORMATS.join(', ')}`));
+          process.exit(1);
+        }
+
+        const connections = options.connection
+          ? [getConnection(options.connection)].filter(Boolean)
+          : listConnections();
+
+        if (connections.length === 0) {
+          console.error(chalk.red('No connections found.'));
+          console.log(`Run ${chalk.cyan('flowsfarm connect add')} to add one.`);
+          process.exit(1);
+        }
+
+        const results = connections.flatMap((connection) =>
+          connection ? lintLocalWorkflows(connection.id, workflowArg) : []
+        );
+
+        if (workflowArg && results.length === 0) {
+          console.error(chalk.red(`Workflow not found: ${workflowArg}`));
+          process.exit(1);
+        }
+
+        if (options.format === 'json') {
+          console.log(JSON.stringify(results, null, 2));
+        } else if (options.format === 'sarif') {
+          console.log(JSON.stringify(toSarif(results), null, 2));
+        } else {
+          showResults(results);
+        }
+
+        const hasErrors = results.some((r) => r.issues.some((i) => i.severity === 'error'));
+        if (hasErrors) {
+          process.exit(1);
+        }
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
+
+function showResults(results: LintResult[]): void {
+  let errors = 0;
+  let warnings = 0;
+
+  for (const result of results) {
+    if (result.issues.length === 0) continue;
+
+    console.log(chalk.bold(`\n${result.workflowName}`) + chalk.dim(` ${result.filePath}`));
+
+    for (const issue of result.issues) {
+      const label = issue.severity === 'error' ? chalk.red('error  ') : chalk.yellow('warning');
+      const path = issue.path ? chalk.dim(` ${issue.path}`) : '';
+      console.log(`  ${label} ${issue.message} ${chalk.dim(issue.rule)}${path}`);
+
+      if (issue.severity === 'error') errors++;
+      else warnings++;
+    }
+  }
+
+  console.log();
+  if (errors + warnings === 0) {
+    console.log(chalk.green(`✓ ${results.length} workflow(s) checked, no problems found`));
+    return;
+  }
+
+  const summary = `${errors} error(s), ${warnings} warning(s) in ${results.length} workflow(s)`;
+  console.log(errors > 0 ? chalk.red(summary) : chalk.yellow(summary));
+}
+
+function showRules(): void {
+  const enabled = new Map(getLintRules().map((rule) => [rule.id, rule.severity]));
+
+  console.log(chalk.bold('\nLint rules:\n'));
+  for (const rule of listLintRules()) {
+    const severity = enabled.get(rule.id);
+    const label =
+      severity === 'error' ? chalk.red('error  ') : severity ? chalk.yellow('warning') : chalk.dim('off    ');
+    console.log(`  ${label} ${chalk.cyan(rule.id.padEnd(34))} ${rule.description}`);
+  }
+  console.log(chalk.dim('\nChange severities in the "lint" section of .flowsfarm.json'));
+}
+
+/**
+ * Convert lint results to a SARIF 2.1.0 log, as read by code scanning tools.
+ */
+function toSarif(results: LintResult[]): unknown {
+  const rules = getLintRules();
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'flowsfarm',
+            informationUri: 'https://github.com/filipexyz/flowsfarm',
+            rules: rules.map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: rule.severity },
+            })),
+          },
+        },
+        results: results.flatMap((result) =>
+          result.issues.map((issue) => ({
+            ruleId: issue.rule,
+            level: issue.severity,
+            message: { text: issue.message },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: result.filePath },
+                  ...(issue.line !== undefined
+                    ? { region: { startLine: issue.line, startColumn: issue.column } }
+                    : {}),
+                },
+                ...(issue.path
+                  ? { logicalLocations: [{ fullyQualifiedName: issue.path, kind: 'member' }] }
+                  : {}),
+              },
+            ],
+          }))
+        ),
+      },
+    ],
+  };
+}
@@ -113,6 +113,8 @@ function getStatusIcon(status: string | null): string {
       return chalk.cyan('+');
     case 'deleted_remote':
       return chalk.red('×');
+    case 'pending_delete':
+      return chalk.red('-');
     default:
       return chalk.dim('?');
   }
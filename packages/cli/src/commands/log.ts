@@ -0,0 +1,71 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { runMigrations } from '@flowsfarm/core';
+import { SyncEngine, type WorkflowVersion } from '@flowsfarm/n8n-sync';
+import { findWorkflow } from '../utils/workflow-lookup';
+
+interface LogOptions {
+  limit?: string;
+  json?: boolean;
+}
+
+const ACTION_LABELS: Record<WorkflowVersion['action'], string> = {
+  pull: 'pulled',
+  push: 'pushed',
+  restore: 'restored',
+};
+
+export function logCommand(): Command {
+  return new Command('log')
+    .description('Show the version history of a workflow')
+    .argument('<workflow>', 'Workflow name or ID')
+    .option('-n, --limit <count>', 'Number of versions to show')
+    .option('--json', 'Output as JSON')
+    .action((workflowArg: string, options: LogOptions) => {
+      try {
+        runMigrations();
+
+        const workflow = findWorkflow(workflowArg);
+        const engine = new SyncEngine(workflow.connectionId);
+
+        // Newest first
+        let versions = engine.getHistory(workflow.id).reverse();
+        if (options.limit) {
+          versions = versions.slice(0, Number(options.limit));
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(versions, null, 2));
+          return;
+        }
+
+        if (versions.length === 0) {
+          console.log(chalk.yellow(`No history for "${workflow.name}" yet.`));
+          console.log(chalk.dim('Versions are recorded on every pull and push.'));
+          return;
+        }
+
+        console.log(chalk.bold(`\nHistory of ${workflow.name}:\n`));
+
+        for (const version of versions) {
+          const hash = version.hash ? chalk.yellow(version.hash.slice(0, 8)) : chalk.dim('(pruned)');
+          const by = version.user ? ` by ${version.user}` : '';
+
+          console.log(
+            `  ${chalk.bold(`v${version.version}`)}  ${hash}  ${version.createdAt.toLocaleString()}  ${ACTION_LABELS[version.action]}${by}`
+          );
+
+          for (const change of version.changes) {
+            console.log(chalk.dim(`      ${change}`));
+          }
+        }
+
+        console.log(chalk.dim(`\n  Use "flowsfarm restore ${workflowArg} <version>" to roll back`));
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,38 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import {
+  mergeWorkflowFiles,
+  formatMergeConflict,
+  WorkflowValidationError,
+} from '@flowsfarm/n8n-sync';
+
+export function mergeDriverCommand(): Command {
+  return new Command('merge-driver')
+    .description('Merge workflow.json files node by node, as a git merge driver (%O %A %B %P)')
+    .argument('<ancestor>', 'Common ancestor version (%O)')
+    .argument('<ours>', 'Current version, overwritten with the merge result (%A)')
+    .argument('<theirs>', 'Version being merged in (%B)')
+    .argument('[path]', 'Path of the file in the repository, for messages (%P)')
+    .action((ancestor: string, ours: string, theirs: string, path: string | undefined) => {
+      // Runs from git, outside of any FlowsFarm project: no config or database
+      try {
+        const { conflicts } = mergeWorkflowFiles(ancestor, ours, theirs, path);
+
+        if (conflicts.length > 0) {
+          console.error(chalk.red(`Workflow merge conflict in ${path ?? ours}:`));
+          for (const conflict of conflicts) {
+            console.error(chalk.red(`  ${formatMergeConflict(conflict)}`));
+          }
+          console.error(chalk.dim('  The file keeps our side of each conflict; edit it, then git add it.'));
+          process.exit(1);
+        }
+      } catch (error) {
+        if (error instanceof WorkflowValidationError) {
+          console.error(chalk.red(`Cannot merge ${path ?? ours} node by node. ${error.message}`));
+        } else if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(2);
+      }
+    });
+}
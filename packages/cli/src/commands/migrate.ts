@@ -0,0 +1,61 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { runMigrations } from '@flowsfarm/core';
+import { listConnections, getConnection, migrateLayout } from '@flowsfarm/n8n-sync';
+
+interface MigrateOptions {
+  connection?: string;
+  dryRun?: boolean;
+}
+
+export function migrateCommand(): Command {
+  return new Command('migrate')
+    .description('Move workflow folders to the layout configured in .flowsfarm.json')
+    .option('-c, --connection <name>', 'Connection name or ID')
+    .option('--dry-run', 'Show the moves without making them')
+    .action((options: MigrateOptions) => {
+      try {
+        runMigrations();
+
+        const connections = options.connection
+          ? [getConnection(options.connection)].filter(Boolean)
+          : listConnections();
+
+        if (connections.length === 0) {
+          console.error(chalk.red('No connections found.'));
+          console.log(`Run ${chalk.cyan('flowsfarm connect add')} to add one.`);
+          process.exit(1);
+        }
+
+        let total = 0;
+
+        for (const connection of connections) {
+          if (!connection) continue;
+
+          const moves = migrateLayout(connection.id, { dryRun: options.dryRun });
+          if (moves.length === 0) continue;
+
+          console.log(chalk.bold(`\n${connection.name}`));
+          for (const move of moves) {
+            console.log(`  ${move.workflowName}`);
+            console.log(chalk.dim(`    ${move.from} → ${move.to}`));
+          }
+          total += moves.length;
+        }
+
+        console.log();
+        if (total === 0) {
+          console.log(chalk.green('✓ All workflow folders match the layout'));
+        } else if (options.dryRun) {
+          console.log(chalk.yellow(`${total} workflow folder(s) would be moved`));
+        } else {
+          console.log(chalk.green(`✓ Moved ${total} workflow folder(s)`));
+        }
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,110 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { runMigrations } from '@flowsfarm/core';
+import {
+  getConnection,
+  getEnvironmentPath,
+  promoteWorkflow,
+  type PromoteResult,
+} from '@flowsfarm/n8n-sync';
+import { showChanges } from '../utils/diff-display';
+
+interface PromoteOptions {
+  from: string;
+  to: string;
+  dryRun?: boolean;
+}
+
+export function promoteCommand(): Command {
+  return new Command('promote')
+    .description('Copy a workflow from one connection to another (e.g. dev to prod)')
+    .argument('<workflow>', 'Workflow name or ID on the source connection')
+    .requiredOption('--from <connection>', 'Connection to copy from')
+    .requiredOption('--to <connection>', 'Connection to copy to')
+    .option('--dry-run', 'Show what would change on the target without writing it')
+    .action(async (workflowArg: string, options: PromoteOptions) => {
+      try {
+        runMigrations();
+
+        const from = getConnection(options.from);
+        const to = getConnection(options.to);
+        if (!from || !to) {
+          console.error(chalk.red(`Connection not found: ${from ? options.to : options.from}`));
+          process.exit(1);
+        }
+
+        const spinner = ora(
+          options.dryRun
+            ? `Comparing ${workflowArg} on ${from.name} and ${to.name}...`
+            : `Promoting ${workflowArg} to ${to.name}...`
+        ).start();
+
+        let result: PromoteResult;
+        try {
+          result = await promoteWorkflow(workflowArg, from.id, to.id, { dryRun: options.dryRun });
+        } catch (error) {
+          spinner.fail(chalk.red(`Failed to promote ${workflowArg}`));
+          throw error;
+        }
+
+        const name = result.source.name;
+        const target = result.targetId ? ` (${result.targetId}, matched by ${result.matchedBy})` : '';
+
+        if (options.dryRun) {
+          spinner.stop();
+          const verbs = { create: 'Would create', update: 'Would update', unchanged: 'Up to date:' };
+          console.log(chalk.bold(`\n${verbs[result.action]} "${name}" on ${to.name}`) + chalk.dim(target));
+        } else if (result.action === 'unchanged') {
+          spinner.succeed(chalk.green(`"${name}" is already up to date on ${to.name}`) + chalk.dim(target));
+        } else {
+          const verb = result.action === 'create' ? 'Created' : 'Updated';
+          spinner.succeed(chalk.green(`${verb} "${name}" on ${to.name} (${result.targetId})`));
+        }
+
+        showCredentials(result);
+
+        if (result.tags) {
+          console.log(chalk.dim(`  Tags: ${result.tags.join(', ') || '(none)'}`));
+        }
+
+        if (options.dryRun) {
+          if (result.changes.length > 0) {
+            showChanges(`diff ${name} on ${to.name}`, result.changes);
+          }
+          if (result.credentials.some((c) => c.to === null)) {
+            console.log(chalk.yellow(`\n  Map the missing credentials in ${getEnvironmentPath(to.name)}`));
+          }
+          if (result.missingVariables.length > 0) {
+            const names = result.missingVariables.map((v) => `ff.${v}`).join(', ');
+            console.log(chalk.yellow(`\n  Define ${names} in ${getEnvironmentPath(to.name)}`));
+          }
+          console.log();
+          return;
+        }
+
+        if (result.action !== 'unchanged') {
+          console.log(chalk.dim(`  Use "flowsfarm pull -c ${to.name}" to update your local copy`));
+        }
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
+
+function showCredentials(result: PromoteResult): void {
+  if (result.credentials.length === 0) {
+    return;
+  }
+
+  console.log(chalk.dim('  Credentials:'));
+  for (const credential of result.credentials) {
+    const target = credential.to
+      ? chalk.green(`${credential.to.name ?? credential.from} (${credential.to.id})`)
+      : chalk.red('no mapping');
+    console.log(`    ${credential.node}: ${credential.type} "${credential.from}" → ${target}`);
+  }
+}
@@ -1,13 +1,8 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { runMigrations } from '@flowsfarm/core';
-import {
-  SyncEngine,
-  listConnections,
-  getConnection,
-  diffAllWorkflows,
-} from '@flowsfarm/n8n-sync';
+import { runMigrations, type PlannedFileChange } from '@flowsfarm/core';
+import { SyncEngine, listConnections, getConnection } from '@flowsfarm/n8n-sync';
 import { showDiff } from '../utils/diff-display';
 
 export function pullCommand(): Command {
@@ -16,10 +11,19 @@ export function pullCommand(): Command {
     .option('-c, --connection <name>', 'Connection name or ID')
     .option('-w, --workflow <id>', 'Specific workflow ID to pull')
     .option('-f, --force', 'Overwrite local changes')
+    .option('--prune [mode]', 'Archive (default) or remove local copies of workflows deleted on n8n')
+    .option('--dry-run', 'Show which local files would be overwritten without writing them')
     .action(async (options) => {
       try {
         runMigrations();
 
+        const prune = options.prune === true ? 'archive' : options.prune;
+        if (prune !== undefined && prune !== 'archive' && prune !== 'remove') {
+          console.error(chalk.red(`Unknown prune mode: ${prune}`));
+          console.log('Use "archive" or "remove".');
+          process.exit(1);
+        }
+
         // Get connection(s) to pull from
         const connections = options.connection
           ? [getConnection(options.connection)].filter(Boolean)
@@ -39,8 +43,9 @@ export function pullCommand(): Command {
           const spinner = ora('Fetching remote workflows...').start();
 
           try {
-            // First show diff of what will change
-            const diffs = await diffAllWorkflows(connection.id);
+            // First show diff of what will change, the listing is reused by the pull
+            const engine = new SyncEngine(connection.id);
+            const diffs = await engine.diff();
             const changed = diffs.filter((d) => d.hasChanges);
 
             spinner.stop();
@@ -56,18 +61,41 @@ export function pullCommand(): Command {
 
             // Now pull
             const pullSpinner = ora('Pulling changes...').start();
-            const engine = new SyncEngine(connection.id);
             const result = await engine.pull({
               workflowIds: options.workflow ? [options.workflow] : undefined,
               force: options.force,
+              prune,
+              dryRun: options.dryRun,
             });
 
+            if (options.dryRun) {
+              pullSpinner.info(chalk.dim('Dry run, no files written'));
+              showPlannedChanges(result.planned);
+              continue;
+            }
+
             pullSpinner.succeed(chalk.green('Pull complete'));
 
             // Show results
             if (result.created > 0) console.log(chalk.green(`  Created:   ${result.created}`));
             if (result.updated > 0) console.log(chalk.blue(`  Updated:   ${result.updated}`));
             if (result.unchanged > 0) console.log(chalk.dim(`  Unchanged: ${result.unchanged}`));
+            if (result.merged > 0) console.log(chalk.cyan(`  Merged:    ${result.merged}`));
+            if (result.pruned > 0) console.log(chalk.dim(`  Pruned:    ${result.pruned}`));
+            if (result.commit) console.log(chalk.dim(`  Committed: ${result.commit}`));
+
+            if (result.deletedRemote > 0 && !prune) {
+              console.log(chalk.red(`  Deleted remotely: ${result.deletedRemote}`));
+              console.log(chalk.dim('  Use --prune to clean up local copies, or "flowsfarm push --recreate" to restore them'));
+            }
+
+            if (result.conflicts.length > 0) {
+              console.log(chalk.yellow(`  Conflicts: ${result.conflicts.length}`));
+              for (const conflict of result.conflicts) {
+                console.log(chalk.yellow(`    - ${conflict.workflowName}`));
+              }
+              console.log(chalk.dim('\n  Use "flowsfarm status" to see conflicting nodes'));
+            }
 
             if (result.errors.length > 0) {
               console.log(chalk.red(`  Errors:    ${result.errors.length}`));
@@ -90,3 +118,25 @@ export function pullCommand(): Command {
       }
     });
 }
+
+const PLANNED_LABELS: Record<PlannedFileChange['action'], string> = {
+  create: chalk.green('create:    '),
+  overwrite: chalk.blue('overwrite: '),
+  merge: chalk.cyan('merge:     '),
+  conflict: chalk.red('conflict:  '),
+  prune: chalk.dim('prune:     '),
+};
+
+function showPlannedChanges(planned: PlannedFileChange[]): void {
+  if (planned.length === 0) {
+    console.log(chalk.dim('  Local files are up to date'));
+    return;
+  }
+
+  for (const change of planned) {
+    console.log(`  ${PLANNED_LABELS[change.action]}${change.path}`);
+    if (change.localChanges) {
+      console.log(chalk.yellow(`             local edits to "${change.workflowName}" would be lost`));
+    }
+  }
+}
@@ -3,6 +3,7 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { runMigrations } from '@flowsfarm/core';
 import { SyncEngine, listConnections, getConnection } from '@flowsfarm/n8n-sync';
+import { confirm, closePrompt, isInteractive } from '../utils/prompt';
 
 export function pushCommand(): Command {
   return new Command('push')
@@ -10,6 +11,9 @@ export function pushCommand(): Command {
     .option('-c, --connection <name>', 'Connection name or ID')
     .option('-w, --workflow <id>', 'Specific workflow ID to push')
     .option('-f, --force', 'Overwrite remote changes (resolve conflicts)')
+    .option('--recreate', 'Recreate workflows that were deleted on n8n')
+    .option('-y, --yes', 'Delete workflows on n8n without asking for confirmation')
+    .option('--lint', 'Refuse to push workflows with lint errors')
     .action(async (options) => {
       try {
         runMigrations();
@@ -30,13 +34,18 @@ export function pushCommand(): Command {
 
           console.log(chalk.bold(`\nPushing to ${connection.name}...`));
 
+          const engine = new SyncEngine(connection.id);
+          const deleteConfirmed = await confirmDeletions(engine, options);
+
           const spinner = ora('Uploading workflows...').start();
 
           try {
-            const engine = new SyncEngine(connection.id);
             const result = await engine.push({
               workflowIds: options.workflow ? [options.workflow] : undefined,
               force: options.force,
+              recreate: options.recreate,
+              delete: deleteConfirmed,
+              lint: options.lint,
             });
 
             if (result.total === 0) {
@@ -50,6 +59,15 @@ export function pushCommand(): Command {
             console.log(chalk.dim(`  Total:     ${result.total}`));
             console.log(chalk.green(`  Created:   ${result.created}`));
             console.log(chalk.blue(`  Updated:   ${result.updated}`));
+            if (result.deleted > 0) {
+              console.log(chalk.red(`  Deleted:   ${result.deleted}`));
+            }
+            if (result.activated > 0) {
+              console.log(chalk.green(`  Activated: ${result.activated}`));
+            }
+            if (result.deactivated > 0) {
+              console.log(chalk.yellow(`  Deactivated: ${result.deactivated}`));
+            }
 
             if (result.conflicts.length > 0) {
               console.log(
@@ -59,7 +77,7 @@ export function pushCommand(): Command {
                 console.log(chalk.yellow(`    - ${conflict.workflowName}`));
               }
               console.log(
-                chalk.dim('\n  Use --force to overwrite remote changes')
+                chalk.dim('\n  Use "flowsfarm pull" to merge remote changes, or --force to overwrite them')
               );
             }
 
@@ -81,6 +99,44 @@ export function pushCommand(): Command {
           console.error(chalk.red(error.message));
         }
         process.exit(1);
+      } finally {
+        closePrompt();
       }
     });
 }
+
+/**
+ * Ask before deleting workflows on n8n that were deleted locally.
+ */
+async function confirmDeletions(
+  engine: SyncEngine,
+  options: { workflow?: string; yes?: boolean }
+): Promise<boolean> {
+  const pending = engine
+    .getPendingDeletions()
+    .filter((w) => !options.workflow || w.id === options.workflow || w.remoteId === options.workflow);
+
+  if (pending.length === 0) {
+    return false;
+  }
+
+  console.log(chalk.red(`  Deleted locally (${pending.length}):`));
+  for (const workflow of pending) {
+    console.log(chalk.red(`    - ${workflow.name}`) + chalk.dim(` (${workflow.remoteId})`));
+  }
+
+  if (options.yes) {
+    return true;
+  }
+
+  if (!isInteractive()) {
+    console.log(chalk.yellow('  Skipping deletions, use --yes to delete them on n8n'));
+    return false;
+  }
+
+  const confirmed = await confirm('  Delete these workflows on n8n?');
+  if (!confirmed) {
+    console.log(chalk.dim('  Skipping deletions'));
+  }
+  return confirmed;
+}
@@ -0,0 +1,200 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { runMigrations, type ConflictInfo } from '@flowsfarm/core';
+import {
+  SyncEngine,
+  listConnections,
+  getConnection,
+  compareWorkflows,
+  getChangeValue,
+  applyChangeValue,
+} from '@flowsfarm/n8n-sync';
+import { formatJson } from '../utils/diff-display';
+import { ask, closePrompt, isInteractive } from '../utils/prompt';
+import { editInEditor } from '../utils/editor';
+import { findWorkflow } from '../utils/workflow-lookup';
+
+interface ResolveOptions {
+  connection?: string;
+  strategy?: string;
+}
+
+export function resolveCommand(): Command {
+  return new Command('resolve')
+    .description('Resolve workflows in conflict state')
+    .argument('[workflow]', 'Workflow name or ID (defaults to all conflicts)')
+    .option('-c, --connection <name>', 'Connection name or ID')
+    .option(
+      '-s, --strategy <strategy>',
+      'Resolve without prompting: "ours" pushes local, "theirs" pulls remote'
+    )
+    .action(async (workflowArg: string | undefined, options: ResolveOptions) => {
+      try {
+        runMigrations();
+
+        if (options.strategy && !['ours', 'theirs'].includes(options.strategy)) {
+          console.error(chalk.red(`Unknown strategy: ${options.strategy}`));
+          console.log('Use "ours" or "theirs".');
+          process.exitCode = 1;
+          return;
+        }
+
+        if (!options.strategy && !isInteractive()) {
+          console.error(chalk.red('Not running in a terminal.'));
+          console.log('Use --strategy ours|theirs to resolve non-interactively.');
+          process.exitCode = 1;
+          return;
+        }
+
+        // Get connection(s)
+        const connections = options.connection
+          ? [getConnection(options.connection)].filter(Boolean)
+          : listConnections();
+
+        if (connections.length === 0) {
+          console.error(chalk.red('No connections found.'));
+          console.log(`Run ${chalk.cyan('flowsfarm connect add')} to add one.`);
+          process.exitCode = 1;
+          return;
+        }
+
+        const target = workflowArg ? findWorkflow(workflowArg) : null;
+        let resolvedCount = 0;
+
+        for (const connection of connections) {
+          if (!connection) continue;
+          if (target && target.connectionId !== connection.id) continue;
+
+          const engine = new SyncEngine(connection.id);
+          const conflicts = engine
+            .getConflicts()
+            .filter((c) => !target || c.workflowId === target.id);
+
+          if (conflicts.length === 0) continue;
+
+          console.log(chalk.bold(`\n${connection.name}`));
+
+          for (const conflict of conflicts) {
+            if (options.strategy) {
+              await resolveWithStrategy(engine, conflict, options.strategy);
+            } else {
+              await resolveInteractively(engine, conflict);
+            }
+            resolvedCount++;
+          }
+        }
+
+        if (resolvedCount === 0) {
+          if (target) {
+            console.log(chalk.yellow(`Workflow "${target.name}" is not in conflict state.`));
+          } else {
+            console.log(chalk.green('No conflicts to resolve.'));
+          }
+        }
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exitCode = 1;
+      } finally {
+        // Exit codes are set rather than exiting, so the prompt is always closed
+        closePrompt();
+      }
+    });
+}
+
+async function resolveWithStrategy(
+  engine: SyncEngine,
+  conflict: ConflictInfo,
+  strategy: string
+): Promise<void> {
+  const spinner = ora(`Resolving ${conflict.workflowName}...`).start();
+
+  try {
+    await engine.resolveConflict(
+      conflict.workflowId,
+      strategy === 'ours' ? 'keep-local' : 'keep-remote'
+    );
+    spinner.succeed(
+      chalk.green(
+        `${conflict.workflowName}: kept ${strategy === 'ours' ? 'local' : 'remote'} version`
+      )
+    );
+  } catch (error) {
+    spinner.fail(chalk.red(`Failed to resolve ${conflict.workflowName}`));
+    throw error;
+  }
+}
+
+async function resolveInteractively(
+  engine: SyncEngine,
+  conflict: ConflictInfo
+): Promise<void> {
+  const spinner = ora(`Fetching ${conflict.workflowName}...`).start();
+  const { local, remote } = await engine.getConflictVersions(conflict.workflowId);
+  spinner.stop();
+
+  const changes = compareWorkflows(local, remote);
+  console.log(chalk.bold(`\n${conflict.workflowName}`) + chalk.dim(` (${changes.length} changes)`));
+
+  let resolved = local;
+
+  for (const [index, change] of changes.entries()) {
+    console.log(
+      chalk.cyan(`\n@@ ${change.path} @@ `) +
+        chalk.dim(`(${index + 1}/${changes.length}, ${change.type})`)
+    );
+    showValue('local', getChangeValue(local, change), chalk.red);
+    showValue('remote', getChangeValue(remote, change), chalk.green);
+
+    let text: string | undefined;
+
+    for (;;) {
+      const choice = await askChoice();
+
+      if (choice === 'remote') {
+        resolved = applyChangeValue(resolved, change, getChangeValue(remote, change));
+      } else if (choice === 'edit') {
+        // Re-open the text that failed to parse rather than the original value
+        if (text === undefined) {
+          const current = getChangeValue(resolved, change);
+          text = current === undefined ? '' : JSON.stringify(current, null, 2);
+        }
+        text = editInEditor(text, 'value.json');
+
+        let value: unknown;
+        try {
+          value = text.trim() === '' ? undefined : JSON.parse(text);
+        } catch (error) {
+          console.log(chalk.red(`  Invalid JSON: ${(error as Error).message}`));
+          continue;
+        }
+        resolved = applyChangeValue(resolved, change, value);
+      }
+      break;
+    }
+  }
+
+  await engine.resolveConflictWith(conflict.workflowId, resolved);
+
+  console.log(chalk.green(`\n✔ Resolved ${conflict.workflowName}`));
+  console.log(chalk.dim('  Use "flowsfarm push" to upload the resolved workflow'));
+}
+
+function showValue(label: string, value: unknown, color: (text: string) => string): void {
+  console.log(color(`  ${label}:`));
+  for (const line of formatJson(value).split('\n')) {
+    console.log(color(`    ${line}`));
+  }
+}
+
+async function askChoice(): Promise<'local' | 'remote' | 'edit'> {
+  for (;;) {
+    const answer = (await ask(`  Keep ${chalk.bold('[l]')}ocal, ${chalk.bold('[r]')}emote or ${chalk.bold('[e]')}dit? `)).toLowerCase();
+
+    if (answer === '' || answer === 'l' || answer === 'local') return 'local';
+    if (answer === 'r' || answer === 'remote') return 'remote';
+    if (answer === 'e' || answer === 'edit') return 'edit';
+  }
+}
@@ -0,0 +1,29 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { runMigrations } from '@flowsfarm/core';
+import { SyncEngine } from '@flowsfarm/n8n-sync';
+import { findWorkflow } from '../utils/workflow-lookup';
+
+export function restoreCommand(): Command {
+  return new Command('restore')
+    .description('Roll a workflow back to a version from its history')
+    .argument('<workflow>', 'Workflow name or ID')
+    .argument('<version>', 'Version number (e.g. v3) or hash prefix, see "flowsfarm log"')
+    .action((workflowArg: string, versionArg: string) => {
+      try {
+        runMigrations();
+
+        const workflow = findWorkflow(workflowArg);
+        const engine = new SyncEngine(workflow.connectionId);
+        const version = engine.restore(workflow.id, versionArg);
+
+        console.log(chalk.green(`Restored "${workflow.name}" to v${version.version}`));
+        console.log(chalk.dim('  Use "flowsfarm push" to publish it to n8n'));
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
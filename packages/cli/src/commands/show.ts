@@ -1,8 +1,9 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { existsSync, readFileSync } from 'fs';
+import { existsSync } from 'fs';
 import { join } from 'path';
-import { runMigrations, getDb, schema, getProjectRoot, eq, like } from '@flowsfarm/core';
+import { runMigrations, getDb, schema, eq, like } from '@flowsfarm/core';
+import { getWorkflowDir, readWorkflowFile } from '@flowsfarm/n8n-sync';
 
 interface ShowOptions {
   json?: boolean;
@@ -20,7 +21,6 @@ export function showCommand(): Command {
         runMigrations();
 
         const db = getDb();
-        const projectRoot = getProjectRoot();
 
         // Find workflow by ID or name (partial match supported)
         let workflow = db
@@ -64,21 +64,14 @@ export function showCommand(): Command {
         }
 
         // Load workflow content from file
-        const workflowPath = join(
-          projectRoot,
-          '.flowsfarm',
-          'workflows',
-          workflow.connectionId,
-          workflow.remoteId,
-          'workflow.json'
-        );
-
-        if (!existsSync(workflowPath)) {
+        const workflowDir = getWorkflowDir(workflow);
+
+        if (!existsSync(join(workflowDir, 'workflow.json'))) {
           console.error(chalk.red('Workflow file not found. Run `flowsfarm pull` first.'));
           process.exit(1);
         }
 
-        const content = JSON.parse(readFileSync(workflowPath, 'utf-8'));
+        const content = readWorkflowFile(workflowDir);
 
         // JSON output
         if (options.json) {
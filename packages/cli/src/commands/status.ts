@@ -1,13 +1,16 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { runMigrations } from '@flowsfarm/core';
+import ora from 'ora';
+import { runMigrations, setLogLevel } from '@flowsfarm/core';
 import { SyncEngine, listConnections, getConnection } from '@flowsfarm/n8n-sync';
 
 export function statusCommand(): Command {
   return new Command('status')
     .description('Show sync status')
     .option('-c, --connection <name>', 'Connection name or ID')
-    .action((options) => {
+    .option('-r, --remote', 'Also check n8n for remote changes')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
       try {
         runMigrations();
 
@@ -22,11 +25,45 @@ export function statusCommand(): Command {
           process.exit(1);
         }
 
+        if (options.json) {
+          // Keep log output, such as moved workflows, out of the JSON
+          setLogLevel('error');
+
+          const statuses = [];
+          for (const connection of connections) {
+            if (!connection) continue;
+            const engine = new SyncEngine(connection.id);
+            const status = options.remote ? await engine.getRemoteStatus() : engine.getStatus();
+            statuses.push({
+              connection: { id: connection.id, name: connection.name, baseUrl: connection.baseUrl },
+              clean: isClean(status),
+              ...status,
+            });
+          }
+
+          console.log(
+            JSON.stringify({ clean: statuses.every((s) => s.clean), connections: statuses }, null, 2)
+          );
+          return;
+        }
+
         for (const connection of connections) {
           if (!connection) continue;
 
           const engine = new SyncEngine(connection.id);
-          const status = engine.getStatus();
+          let status;
+          if (options.remote) {
+            const spinner = ora(`Checking ${connection.name} for remote changes...`).start();
+            try {
+              status = await engine.getRemoteStatus();
+              spinner.stop();
+            } catch (error) {
+              spinner.fail(chalk.red(`Failed to check ${connection.name}`));
+              throw error;
+            }
+          } else {
+            status = engine.getStatus();
+          }
 
           console.log(
             chalk.bold(`\n${connection.name}`) +
@@ -39,14 +76,12 @@ export function statusCommand(): Command {
             continue;
           }
 
-          const hasChanges =
-            status.localModified.length > 0 ||
-            status.conflict.length > 0 ||
-            status.newLocal.length > 0 ||
-            status.deletedRemote.length > 0;
-
-          if (!hasChanges) {
-            console.log(chalk.green(`\n  Nothing to push, working tree clean`));
+          if (isClean(status)) {
+            if (status.remoteChecked) {
+              console.log(chalk.green(`\n  Up to date with n8n, working tree clean`));
+            } else {
+              console.log(chalk.green(`\n  Nothing to push, working tree clean`));
+            }
             console.log(chalk.dim(`  ${status.total} workflows synced`));
           } else {
             // Show changes like git status
@@ -58,6 +93,30 @@ export function statusCommand(): Command {
               }
             }
 
+            if (status.remoteModified.length > 0) {
+              console.log(chalk.blue(`\n  Remote changes (↓):`));
+              for (const wf of status.remoteModified) {
+                console.log(chalk.blue(`        modified:   ${wf.name}`));
+                console.log(chalk.dim(`                    ${wf.path}`));
+              }
+            }
+
+            if (status.diverged.length > 0) {
+              console.log(chalk.red(`\n  Changed on both sides (⚡):`));
+              for (const wf of status.diverged) {
+                console.log(chalk.red(`        both:       ${wf.name}`));
+                console.log(chalk.dim(`                    ${wf.path}`));
+              }
+            }
+
+            if (status.moved.length > 0) {
+              console.log(chalk.cyan(`\n  Moved (recorded by the next pull or push):`));
+              for (const wf of status.moved) {
+                console.log(chalk.cyan(`        moved:      ${wf.name}`));
+                console.log(chalk.dim(`                    ${wf.path}`));
+              }
+            }
+
             if (status.newLocal.length > 0) {
               console.log(chalk.green(`\n  New workflows:`));
               for (const wf of status.newLocal) {
@@ -66,6 +125,14 @@ export function statusCommand(): Command {
               }
             }
 
+            if (status.pendingDelete.length > 0) {
+              console.log(chalk.red(`\n  Deletions to be pushed:`));
+              for (const wf of status.pendingDelete) {
+                console.log(chalk.red(`        deleted:    ${wf.name}`));
+                console.log(chalk.dim(`                    ${wf.path}`));
+              }
+            }
+
             if (status.deletedRemote.length > 0) {
               console.log(chalk.red(`\n  Deleted remotely:`));
               for (const wf of status.deletedRemote) {
@@ -79,16 +146,31 @@ export function statusCommand(): Command {
               for (const wf of status.conflict) {
                 console.log(chalk.red(`        conflict:   ${wf.name}`));
                 console.log(chalk.dim(`                    ${wf.path}`));
+                for (const marker of wf.conflicts ?? []) {
+                  console.log(chalk.red(`                    ! ${marker}`));
+                }
               }
             }
 
             // Summary
             console.log();
-            if (status.localModified.length > 0 || status.newLocal.length > 0) {
+            if (status.remoteModified.length > 0 || status.diverged.length > 0) {
+              console.log(chalk.dim(`  Use "flowsfarm pull" to get remote changes`));
+            }
+            if (
+              status.localModified.length > 0 ||
+              status.newLocal.length > 0 ||
+              status.pendingDelete.length > 0
+            ) {
               console.log(chalk.dim(`  Use "flowsfarm push" to upload changes`));
             }
+            if (status.deletedRemote.length > 0) {
+              console.log(chalk.dim(`  Use "flowsfarm pull --prune" to clean up deleted workflows`));
+              console.log(chalk.dim(`  Use "flowsfarm push --recreate" to restore them on n8n`));
+            }
             if (status.conflict.length > 0) {
               console.log(chalk.dim(`  Use "flowsfarm diff" to see conflict details`));
+              console.log(chalk.dim(`  Use "flowsfarm resolve" to resolve conflicts`));
             }
           }
 
@@ -109,3 +191,16 @@ export function statusCommand(): Command {
       }
     });
 }
+
+function isClean(status: ReturnType<SyncEngine['getStatus']>): boolean {
+  return (
+    status.localModified.length === 0 &&
+    status.remoteModified.length === 0 &&
+    status.diverged.length === 0 &&
+    status.conflict.length === 0 &&
+    status.newLocal.length === 0 &&
+    status.deletedRemote.length === 0 &&
+    status.pendingDelete.length === 0 &&
+    status.moved.length === 0
+  );
+}
@@ -0,0 +1,75 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { runMigrations } from '@flowsfarm/core';
+import { SyncEngine, listConnections, getConnection } from '@flowsfarm/n8n-sync';
+
+export function syncCommand(): Command {
+  return new Command('sync')
+    .description('Pull remote changes, then push local changes')
+    .option('-c, --connection <name>', 'Connection name or ID')
+    .option('-w, --workflow <id>', 'Specific workflow ID to sync')
+    .option('-f, --force', 'Overwrite conflicting changes on both sides')
+    .action(async (options) => {
+      try {
+        runMigrations();
+
+        // Get connection(s) to sync
+        const connections = options.connection
+          ? [getConnection(options.connection)].filter(Boolean)
+          : listConnections();
+
+        if (connections.length === 0) {
+          console.error(chalk.red('No connections found.'));
+          console.log(`Run ${chalk.cyan('flowsfarm connect add')} to add one.`);
+          process.exit(1);
+        }
+
+        for (const connection of connections) {
+          if (!connection) continue;
+
+          console.log(chalk.bold(`\nSyncing ${connection.name}...`));
+
+          const spinner = ora('Syncing workflows...').start();
+
+          try {
+            const engine = new SyncEngine(connection.id);
+            const result = await engine.sync({
+              workflowIds: options.workflow ? [options.workflow] : undefined,
+              force: options.force,
+            });
+
+            spinner.succeed(chalk.green('Sync complete'));
+
+            console.log(chalk.blue(`  Pulled:    ${result.pulled}`));
+            console.log(chalk.green(`  Pushed:    ${result.pushed}`));
+
+            if (result.conflicts.length > 0) {
+              console.log(chalk.yellow(`  Conflicts: ${result.conflicts.length}`));
+              for (const conflict of result.conflicts) {
+                console.log(chalk.yellow(`    - ${conflict.workflowName}`));
+              }
+              console.log(chalk.dim('\n  Use "flowsfarm resolve" to resolve conflicts'));
+            }
+
+            if (result.errors.length > 0) {
+              console.log(chalk.red(`  Errors:    ${result.errors.length}`));
+              for (const err of result.errors) {
+                console.log(chalk.red(`    - ${err.message}`));
+              }
+            }
+          } catch (error) {
+            spinner.fail(chalk.red(`Failed to sync ${connection.name}`));
+            if (error instanceof Error) {
+              console.error(chalk.red(error.message));
+            }
+          }
+        }
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
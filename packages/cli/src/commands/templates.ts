@@ -1,6 +1,6 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { existsSync, readFileSync } from 'fs';
+import { existsSync } from 'fs';
 import { join } from 'path';
 import {
   runMigrations,
@@ -8,13 +8,13 @@ import {
   loadTemplate,
   saveTemplate,
   deleteTemplate,
-  getProjectRoot,
   getDb,
   schema,
   eq,
   like,
   type Template,
 } from '@flowsfarm/core';
+import { getWorkflowDir, readWorkflowFile } from '@flowsfarm/n8n-sync';
 
 export function templatesCommand(): Command {
   const cmd = new Command('templates')
@@ -89,7 +89,6 @@ export function templatesCommand(): Command {
       runMigrations();
 
       const db = getDb();
-      const projectRoot = getProjectRoot();
 
       // Find workflow by name or ID
       let workflow = db
@@ -131,21 +130,14 @@ export function templatesCommand(): Command {
       }
 
       // Load workflow content
-      const workflowPath = join(
-        projectRoot,
-        '.flowsfarm',
-        'workflows',
-        workflow.connectionId,
-        workflow.remoteId,
-        'workflow.json'
-      );
-
-      if (!existsSync(workflowPath)) {
+      const workflowDir = getWorkflowDir(workflow);
+
+      if (!existsSync(join(workflowDir, 'workflow.json'))) {
         console.error(chalk.red('Workflow file not found. Run `flowsfarm pull` first.'));
         process.exit(1);
       }
 
-      const content = JSON.parse(readFileSync(workflowPath, 'utf-8'));
+      const content = readWorkflowFile(workflowDir);
 
       // Create template
       const templateName = options.name || workflow.name.toLowerCase().replace(/\s+/g, '-');
@@ -0,0 +1,75 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { runMigrations } from '@flowsfarm/core';
+import {
+  listConnections,
+  getConnection,
+  validateLocalWorkflows,
+  formatValidationIssue,
+} from '@flowsfarm/n8n-sync';
+
+interface ValidateOptions {
+  connection?: string;
+  json?: boolean;
+}
+
+export function validateCommand(): Command {
+  return new Command('validate')
+    .description('Check local workflow files against the n8n workflow schema')
+    .argument('[workflow]', 'Workflow name or ID')
+    .option('-c, --connection <name>', 'Connection name or ID')
+    .option('--json', 'Output as JSON')
+    .action((workflowArg: string | undefined, options: ValidateOptions) => {
+      try {
+        runMigrations();
+
+        const connections = options.connection
+          ? [getConnection(options.connection)].filter(Boolean)
+          : listConnections();
+
+        if (connections.length === 0) {
+          console.error(chalk.red('No connections found.'));
+          console.log(`Run ${chalk.cyan('flowsfarm connect add')} to add one.`);
+          process.exit(1);
+        }
+
+        const results = connections.flatMap((connection) =>
+          connection ? validateLocalWorkflows(connection.id, workflowArg) : []
+        );
+
+        if (workflowArg && results.length === 0) {
+          console.error(chalk.red(`Workflow not found: ${workflowArg}`));
+          process.exit(1);
+        }
+
+        const invalid = results.filter((r) => r.issues.length > 0);
+
+        if (options.json) {
+          console.log(JSON.stringify({ valid: invalid.length === 0, workflows: results }, null, 2));
+        } else {
+          for (const result of invalid) {
+            console.log(chalk.bold(`\n${result.workflowName}`));
+            for (const issue of result.issues) {
+              console.log(chalk.red(`  ${formatValidationIssue(result.filePath, issue)}`));
+            }
+          }
+
+          console.log();
+          if (invalid.length === 0) {
+            console.log(chalk.green(`✓ ${results.length} workflow file(s) valid`));
+          } else {
+            console.log(chalk.red(`${invalid.length} of ${results.length} workflow file(s) invalid`));
+          }
+        }
+
+        if (invalid.length > 0) {
+          process.exit(1);
+        }
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
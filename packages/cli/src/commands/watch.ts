@@ -0,0 +1,295 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora, { type Ora } from 'ora';
+import { existsSync, mkdirSync, watch, type FSWatcher } from 'fs';
+import { basename, sep } from 'path';
+import {
+  runMigrations,
+  setLogLevel,
+  type PullResult,
+  type PushResult,
+} from '@flowsfarm/core';
+import {
+  SyncEngine,
+  listConnections,
+  getConnection,
+  getConnectionDir,
+  type ConnectionInfo,
+} from '@flowsfarm/n8n-sync';
+
+interface WatchOptions {
+  connection?: string;
+  interval: string;
+  debounce: string;
+}
+
+interface WatchedConnection {
+  name: string;
+  engine: SyncEngine;
+  /** Watcher of the workflow files, null once it failed for good */
+  watcher: FSWatcher | null;
+  /** Pending pull and push operations, run one at a time */
+  queue: Promise<void>;
+  pushTimer: ReturnType<typeof setTimeout> | null;
+  lastPush: Date | null;
+  lastPull: Date | null;
+  conflicts: number;
+  pendingDeletes: number;
+}
+
+interface WatchContext {
+  spinner: Ora;
+  watched: WatchedConnection[];
+}
+
+export function watchCommand(): Command {
+  return new Command('watch')
+    .description('Push local workflows on save and pull remote changes periodically')
+    .option('-c, --connection <name>', 'Connection name or ID')
+    .option('-i, --interval <seconds>', 'Seconds between remote polls', '30')
+    .option('-d, --debounce <ms>', 'Milliseconds to wait for edits to settle before pushing', '500')
+    .action(async (options: WatchOptions) => {
+      try {
+        runMigrations();
+
+        const interval = Number(options.interval);
+        const debounce = Number(options.debounce);
+        if (!(interval > 0) || !(debounce >= 0)) {
+          console.error(chalk.red('Interval and debounce must be positive numbers.'));
+          process.exit(1);
+        }
+
+        // Get connection(s) to watch
+        const connections = options.connection
+          ? [getConnection(options.connection)].filter(Boolean)
+          : listConnections();
+
+        if (connections.length === 0) {
+          console.error(chalk.red('No connections found.'));
+          console.log(`Run ${chalk.cyan('flowsfarm connect add')} to add one.`);
+          process.exit(1);
+        }
+
+        // Results are reported on the status line instead of log output
+        setLogLevel('error');
+
+        console.log(chalk.bold('Watching workflows') + chalk.dim(' (Ctrl+C to stop)'));
+        const ctx: WatchContext = { spinner: ora('Starting...').start(), watched: [] };
+        const { spinner, watched } = ctx;
+
+        for (const connection of connections) {
+          if (!connection) continue;
+          watched.push(watchConnection(connection, ctx, debounce));
+        }
+
+        // Catch up with both sides before waiting for changes
+        for (const state of watched) {
+          enqueue(state, ctx, async () => {
+            report(state, ctx, await state.engine.pull(), 'pull');
+            report(state, ctx, await state.engine.push(), 'push');
+          });
+        }
+
+        // Workflows with local edits are left to the next push, so files
+        // being edited are never rewritten while the watch runs
+        const poll = setInterval(() => {
+          for (const state of watched) {
+            enqueue(state, ctx, async () => {
+              report(state, ctx, await state.engine.pull({ skipLocalEdits: true }), 'pull');
+            });
+          }
+        }, interval * 1000);
+
+        process.once('SIGINT', async () => {
+          clearInterval(poll);
+          for (const state of watched) {
+            state.watcher?.close();
+            state.watcher = null;
+            if (state.pushTimer) clearTimeout(state.pushTimer);
+          }
+
+          spinner.text = 'Finishing pending operations...';
+          await Promise.all(watched.map((state) => state.queue));
+
+          spinner.stop();
+          console.log(chalk.dim('Stopped watching'));
+          process.exit(0);
+        });
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
+
+function watchConnection(
+  connection: ConnectionInfo,
+  ctx: WatchContext,
+  debounce: number
+): WatchedConnection {
+  const workflowsDir = getConnectionDir(connection.id);
+  if (!existsSync(workflowsDir)) {
+    mkdirSync(workflowsDir, { recursive: true });
+  }
+
+  const state: WatchedConnection = {
+    name: connection.name,
+    engine: new SyncEngine(connection.id),
+    watcher: null,
+    queue: Promise.resolve(),
+    pushTimer: null,
+    lastPush: null,
+    lastPull: null,
+    conflicts: 0,
+    pendingDeletes: 0,
+  };
+
+  state.watcher = watchFiles(state, workflowsDir, ctx, debounce);
+
+  return state;
+}
+
+// A watcher failing this soon after it started is not restarted
+const WATCHER_RESTART_MS = 10_000;
+
+function watchFiles(
+  state: WatchedConnection,
+  workflowsDir: string,
+  ctx: WatchContext,
+  debounce: number
+): FSWatcher {
+  const watcher = watch(workflowsDir, { recursive: true });
+  const startedAt = Date.now();
+
+  // E.g. the folder was removed or the system ran out of watches
+  watcher.on('error', (error) => {
+    watcher.close();
+    if (state.watcher !== watcher) {
+      return;
+    }
+
+    try {
+      if (Date.now() - startedAt < WATCHER_RESTART_MS) {
+        throw new Error('the watcher failed right after starting');
+      }
+      if (!existsSync(workflowsDir)) {
+        mkdirSync(workflowsDir, { recursive: true });
+      }
+      state.watcher = watchFiles(state, workflowsDir, ctx, debounce);
+      printAbove(ctx, chalk.yellow(`⚠ ${state.name}: restarted file watcher after ${error.message}`));
+    } catch (restartError) {
+      state.watcher = null;
+      printAbove(
+        ctx,
+        chalk.red(
+          `✖ ${state.name}: stopped watching local files after ${error.message}: ${
+            restartError instanceof Error ? restartError.message : restartError
+          }`
+        )
+      );
+    }
+  });
+
+  watcher.on('change', (_event, filename) => {
+    // Only workflow and node files, not merge bases, metadata or conflict files
+    const file = filename?.toString();
+    const name = file ? basename(file) : '';
+    if (!file || name.startsWith('.') || name === 'meta.json' || file.split(sep).includes('.conflict')) {
+      return;
+    }
+
+    if (state.pushTimer) clearTimeout(state.pushTimer);
+    state.pushTimer = setTimeout(() => {
+      state.pushTimer = null;
+      enqueue(state, ctx, async () => {
+        // Files written by a pull also trigger the watcher, only push real edits
+        const status = state.engine.getStatus();
+        state.pendingDeletes = status.pendingDelete.length;
+        if (status.localModified.length === 0 && status.newLocal.length === 0) {
+          return;
+        }
+        report(state, ctx, await state.engine.push(), 'push');
+      });
+    }, debounce);
+  });
+
+  return watcher;
+}
+
+function enqueue(state: WatchedConnection, ctx: WatchContext, task: () => Promise<void>): void {
+  state.queue = state.queue
+    .then(() => {
+      // Every poll and push compares against the current remote
+      state.engine.refreshRemote();
+      return task();
+    })
+    .catch((error) => {
+      printAbove(ctx, chalk.red(`✖ ${state.name}: ${error instanceof Error ? error.message : error}`));
+    })
+    .finally(() => updateStatusLine(ctx));
+}
+
+function report(
+  state: WatchedConnection,
+  ctx: WatchContext,
+  result: PullResult | PushResult,
+  action: 'pull' | 'push'
+): void {
+  const changed = result.created + result.updated + ('merged' in result ? result.merged : 0);
+  const time = new Date();
+
+  if (action === 'pull') {
+    state.lastPull = time;
+    if (changed > 0) {
+      printAbove(ctx, chalk.blue(`↓ ${state.name}: pulled ${changed} workflow(s)`));
+    }
+  } else {
+    state.lastPush = time;
+    if (changed > 0) {
+      printAbove(ctx, chalk.green(`↑ ${state.name}: pushed ${changed} workflow(s)`));
+    }
+  }
+
+  for (const conflict of result.conflicts) {
+    printAbove(
+      ctx,
+      chalk.yellow(`⚡ ${state.name}: ${conflict.workflowName} is in conflict, use "flowsfarm resolve"`)
+    );
+  }
+
+  for (const err of result.errors) {
+    printAbove(ctx, chalk.red(`✖ ${state.name}: ${err.message}`));
+  }
+
+  const status = state.engine.getStatus();
+  state.conflicts = status.conflict.length;
+  state.pendingDeletes = status.pendingDelete.length;
+}
+
+function updateStatusLine(ctx: WatchContext): void {
+  ctx.spinner.text = ctx.watched
+    .map((state) => {
+      const parts = [chalk.bold(state.name)];
+
+      if (state.lastPush) parts.push(`pushed ${state.lastPush.toLocaleTimeString()}`);
+      if (state.lastPull) parts.push(`pulled ${state.lastPull.toLocaleTimeString()}`);
+      if (state.conflicts > 0) parts.push(chalk.red(`${state.conflicts} conflicts`));
+      if (state.pendingDeletes > 0) {
+        parts.push(chalk.yellow(`${state.pendingDeletes} deletions (use "flowsfarm push")`));
+      }
+
+      return parts.join(chalk.dim(' · '));
+    })
+    .join(chalk.dim('  |  '));
+}
+
+/**
+ * Print a line above the status line.
+ */
+function printAbove(ctx: WatchContext, line: string): void {
+  ctx.spinner.clear();
+  console.log(line);
+  ctx.spinner.render();
+}
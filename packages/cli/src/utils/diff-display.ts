@@ -1,36 +1,215 @@
 import chalk from 'chalk';
-import type { WorkflowDiff } from '@flowsfarm/n8n-sync';
+import type { FieldChange, WorkflowDiff } from '@flowsfarm/n8n-sync';
+import { diffLines, toHunks, type DiffLine } from './line-diff';
 
-export function showDiff(diff: WorkflowDiff): void {
-  console.log(chalk.bold(`\ndiff ${diff.filePath}`));
+export type DiffFormat = 'unified' | 'side-by-side' | 'stat' | 'json';
 
-  if (diff.changes.length > 0) {
+export const DIFF_FORMATS: DiffFormat[] = ['unified', 'side-by-side', 'stat', 'json'];
+
+const SIDE_LABELS: Record<NonNullable<FieldChange['side']>, string> = {
+  local: 'changed locally',
+  remote: 'changed on n8n',
+  both: 'changed on both sides',
+};
+
+export function showDiff(diff: WorkflowDiff, format: 'unified' | 'side-by-side' = 'unified'): void {
+  if (diff.changes.length === 0) {
+    console.log(chalk.bold(`\ndiff ${diff.filePath}`));
+    console.log(chalk.dim('  (only node positions or metadata changed, use --layout to show positions)'));
+    return;
+  }
+
+  showChanges(`diff ${diff.filePath}`, diff.changes, format);
+}
+
+/**
+ * Print the changes of one workflow under a title.
+ */
+export function showChanges(
+  title: string,
+  changes: FieldChange[],
+  format: 'unified' | 'side-by-side' = 'unified'
+): void {
+  console.log(chalk.bold(`\n${title}`));
+
+  const edges = changes.filter((c) => c.kind === 'edge');
+
+  for (const change of changes) {
+    if (change.kind === 'edge') continue;
+
+    console.log(chalk.cyan(`@@ ${change.path} @@`) + formatSide(change));
+
+    const lines = diffChange(change);
+    if (format === 'side-by-side') {
+      showSideBySide(lines);
+    } else {
+      showUnified(lines);
+    }
+  }
+
+  if (edges.length > 0) {
+    console.log(chalk.cyan('@@ connections @@'));
+    for (const change of edges) {
+      const [before, after] = getBeforeAfter(change);
+      if (after !== undefined) {
+        console.log(chalk.green(`+${after}`) + formatSide(change));
+      } else if (before !== undefined) {
+        console.log(chalk.red(`-${before}`) + formatSide(change));
+      }
+    }
+  }
+}
+
+/**
+ * Print one line per workflow with the number of changes and changed lines.
+ */
+export function showDiffStat(diffs: Array<Pick<WorkflowDiff, 'workflowName' | 'changes'>>): void {
+  const stats = diffs.map((diff) => {
+    let added = 0;
+    let removed = 0;
     for (const change of diff.changes) {
-      console.log(chalk.cyan(`@@ ${change.path} @@`));
-      if (change.type === 'modified') {
-        const localLines = formatJson(change.localValue).split('\n');
-        const remoteLines = formatJson(change.remoteValue).split('\n');
-        for (const line of localLines) {
-          console.log(chalk.red(`-${line}`));
-        }
-        for (const line of remoteLines) {
-          console.log(chalk.green(`+${line}`));
-        }
-      } else if (change.type === 'added') {
-        const lines = formatJson(change.localValue).split('\n');
-        for (const line of lines) {
-          console.log(chalk.green(`+${line}`));
-        }
-      } else if (change.type === 'removed') {
-        const lines = formatJson(change.remoteValue).split('\n');
-        for (const line of lines) {
-          console.log(chalk.red(`-${line}`));
-        }
+      for (const line of diffChange(change)) {
+        if (line.type === 'added') added++;
+        if (line.type === 'removed') removed++;
+      }
+    }
+    return { diff, added, removed };
+  });
+
+  const nameWidth = Math.max(...stats.map((s) => s.diff.workflowName.length));
+  const maxLines = Math.max(...stats.map((s) => s.added + s.removed), 1);
+  const barWidth = 40;
+
+  for (const { diff, added, removed } of stats) {
+    // Scale the bar down for large changes, like git diff --stat
+    const scale = Math.min(1, barWidth / maxLines);
+    const plus = Math.ceil(added * scale);
+    const minus = Math.ceil(removed * scale);
+
+    console.log(
+      `  ${diff.workflowName.padEnd(nameWidth)} | ${String(diff.changes.length).padStart(3)} ` +
+        chalk.green('+'.repeat(plus)) +
+        chalk.red('-'.repeat(minus))
+    );
+  }
+
+  const totalChanges = stats.reduce((sum, s) => sum + s.diff.changes.length, 0);
+  const totalAdded = stats.reduce((sum, s) => sum + s.added, 0);
+  const totalRemoved = stats.reduce((sum, s) => sum + s.removed, 0);
+  console.log(
+    chalk.dim(
+      `  ${diffs.length} workflow(s) changed, ${totalChanges} change(s), ` +
+        `${totalAdded} insertion(s)(+), ${totalRemoved} deletion(s)(-)`
+    )
+  );
+}
+
+/**
+ * Line-level diff of a change: code, SQL and expressions line by line,
+ * objects as formatted JSON.
+ */
+function diffChange(change: FieldChange): DiffLine[] {
+  const [before, after] = getBeforeAfter(change);
+  const oldText = before === undefined ? null : formatChangeValue(change, before);
+  const newText = after === undefined ? null : formatChangeValue(change, after);
+
+  if (oldText === null) {
+    return (newText ?? '').split('\n').map((text, i) => ({ type: 'added', text, newLine: i + 1 }));
+  }
+  if (newText === null) {
+    return oldText.split('\n').map((text, i) => ({ type: 'removed', text, oldLine: i + 1 }));
+  }
+
+  return diffLines(oldText, newText);
+}
+
+function showUnified(lines: DiffLine[]): void {
+  const hunks = toHunks(lines);
+  const multiline = lines.length > 2;
+
+  for (const hunk of hunks) {
+    if (multiline) {
+      console.log(
+        chalk.dim(`@@ -${hunk.oldStart},${hunk.oldCount} +${hunk.newStart},${hunk.newCount} @@`)
+      );
+    }
+
+    for (const line of hunk.lines) {
+      if (line.type === 'removed') console.log(chalk.red(`-${line.text}`));
+      else if (line.type === 'added') console.log(chalk.green(`+${line.text}`));
+      else console.log(` ${line.text}`);
+    }
+  }
+}
+
+function showSideBySide(lines: DiffLine[]): void {
+  const width = Math.max(20, Math.floor(((process.stdout.columns || 120) - 3) / 2));
+  const cell = (text = '') =>
+    text.length > width ? text.slice(0, width - 1) + '…' : text.padEnd(width);
+
+  for (const [index, hunk] of toHunks(lines).entries()) {
+    if (index > 0) {
+      console.log(chalk.dim(`${cell('···')} │ ···`));
+    }
+
+    let removed: string[] = [];
+    let added: string[] = [];
+
+    // Pair removed lines with the added lines that replace them
+    const flush = () => {
+      for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+        const left = i < removed.length ? chalk.red(cell(removed[i])) : cell();
+        const right = i < added.length ? chalk.green(cell(added[i])) : '';
+        console.log(`${left} ${chalk.dim('│')} ${right}`);
+      }
+      removed = [];
+      added = [];
+    };
+
+    for (const line of hunk.lines) {
+      if (line.type === 'removed') {
+        removed.push(line.text);
+      } else if (line.type === 'added') {
+        added.push(line.text);
+      } else {
+        flush();
+        console.log(`${chalk.dim(cell(line.text))} ${chalk.dim('│')} ${chalk.dim(line.text.slice(0, width))}`);
       }
     }
-  } else {
-    console.log(chalk.dim('  (content changed)'));
+    flush();
+  }
+}
+
+function formatSide(change: FieldChange): string {
+  return change.side ? chalk.dim(` (${SIDE_LABELS[change.side]})`) : '';
+}
+
+/**
+ * Changes made on n8n go from the local value to the remote one;
+ * all others from the remote value to the local one.
+ */
+function getBeforeAfter(change: FieldChange): [unknown, unknown] {
+  return change.side === 'remote'
+    ? [change.localValue, change.remoteValue]
+    : [change.remoteValue, change.localValue];
+}
+
+function formatChangeValue(change: FieldChange, value: unknown): string {
+  if (change.kind === 'node') {
+    const node = value as { name: string; type: string };
+    return `node "${node.name}" (${node.type})`;
+  }
+
+  if (change.kind === 'position' && Array.isArray(value)) {
+    return `[${value.join(', ')}]`;
   }
+
+  if (change.kind === 'credential') {
+    const credential = value as { id?: string; name?: string };
+    return credential.id ? `${credential.name} (${credential.id})` : formatJson(value);
+  }
+
+  return formatJson(value);
 }
 
 export function formatJson(value: unknown): string {
@@ -0,0 +1,31 @@
+import { spawnSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+/**
+ * Open content in the user's $EDITOR and return the edited content.
+ */
+export function editInEditor(content: string, fileName: string): string {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  const dir = mkdtempSync(join(tmpdir(), 'flowsfarm-'));
+  const filePath = join(dir, fileName);
+
+  try {
+    writeFileSync(filePath, content);
+
+    // Run through the shell so editors with arguments (e.g. "code --wait") work
+    const result = spawnSync(`${editor} "${filePath}"`, {
+      stdio: 'inherit',
+      shell: true,
+    });
+
+    if (result.status !== 0) {
+      throw new Error(`Editor exited with code ${result.status}`);
+    }
+
+    return readFileSync(filePath, 'utf-8');
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
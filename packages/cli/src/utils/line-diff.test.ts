@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, toHunks } from './line-diff';
+
+function numbered(count: number, change: Record<number, string> = {}): string {
+  return Array.from({ length: count }, (_, i) => change[i + 1] ?? `line ${i + 1}`).join('\n');
+}
+
+describe('diffLines', () => {
+  it('marks all lines of equal texts as equal', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'equal', text: 'b', oldLine: 2, newLine: 2 },
+    ]);
+  });
+
+  it('shows a changed line as removed and added', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'removed', text: 'b', oldLine: 2 },
+      { type: 'added', text: 'x', newLine: 2 },
+      { type: 'equal', text: 'c', oldLine: 3, newLine: 3 },
+    ]);
+  });
+
+  it('numbers the lines after an insertion on both sides', () => {
+    expect(diffLines('a\nc', 'a\nb\nc')).toEqual([
+      { type: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'added', text: 'b', newLine: 2 },
+      { type: 'equal', text: 'c', oldLine: 2, newLine: 3 },
+    ]);
+  });
+
+  it('keeps lines common to both texts between changes', () => {
+    const types = diffLines('a\nb\nc\nd', 'b\nc\nd\ne').map((l) => `${l.type} ${l.text}`);
+
+    expect(types).toEqual(['removed a', 'equal b', 'equal c', 'equal d', 'added e']);
+  });
+
+  it('replaces texts too large to compare line by line as a whole', () => {
+    const lines = diffLines(numbered(2001), numbered(2001, { 1: 'first', 2001: 'last' }));
+
+    expect(lines.filter((l) => l.type === 'removed')).toHaveLength(2001);
+    expect(lines.filter((l) => l.type === 'added')).toHaveLength(2001);
+  });
+});
+
+describe('toHunks', () => {
+  it('returns no hunks for equal texts', () => {
+    expect(toHunks(diffLines('a\nb', 'a\nb'))).toEqual([]);
+  });
+
+  it('splits changes far apart into hunks with context', () => {
+    const hunks = toHunks(diffLines(numbered(20), numbered(20, { 2: 'x', 15: 'y' })));
+
+    expect(hunks.map(({ lines, ...range }) => range)).toEqual([
+      { oldStart: 1, oldCount: 5, newStart: 1, newCount: 5 },
+      { oldStart: 12, oldCount: 7, newStart: 12, newCount: 7 },
+    ]);
+    expect(hunks[1].lines.map((l) => l.text)).toEqual([
+      'line 12',
+      'line 13',
+      'line 14',
+      'line 15',
+      'y',
+      'line 16',
+      'line 17',
+      'line 18',
+    ]);
+  });
+
+  it('joins changes close together into one hunk', () => {
+    const hunks = toHunks(diffLines(numbered(20), numbered(20, { 5: 'x', 10: 'y' })));
+
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0]).toMatchObject({ oldStart: 2, oldCount: 12, newStart: 2, newCount: 12 });
+  });
+
+  it('uses the given number of context lines', () => {
+    const [hunk] = toHunks(diffLines(numbered(20), numbered(20, { 10: 'x' })), 1);
+
+    expect(hunk.lines.map((l) => l.text)).toEqual(['line 9', 'line 10', 'x', 'line 11']);
+  });
+});
@@ -0,0 +1,161 @@
+export interface DiffLine {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+  /** Line number in the old text (equal and removed lines) */
+  oldLine?: number;
+  /** Line number in the new text (equal and added lines) */
+  newLine?: number;
+}
+
+export interface Hunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  lines: DiffLine[];
+}
+
+// Above this many line pairs, texts are shown as replaced as a whole
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line-level diff of two texts, based on their longest common subsequence.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // Skip the common prefix and suffix before running the LCS
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffLine['type'][] = Array(start).fill('equal');
+  ops.push(...diffMiddle(a.slice(start, endA), b.slice(start, endB)));
+  ops.push(...Array(a.length - endA).fill('equal'));
+
+  // Attach text and line numbers
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  for (const type of ops) {
+    if (type === 'equal') {
+      lines.push({ type, text: a[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (type === 'removed') {
+      lines.push({ type, text: a[i], oldLine: i + 1 });
+      i++;
+    } else {
+      lines.push({ type, text: b[j], newLine: j + 1 });
+      j++;
+    }
+  }
+
+  return lines;
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine['type'][] {
+  const n = a.length;
+  const m = b.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    return [...Array(n).fill('removed'), ...Array(m).fill('added')];
+  }
+
+  // lengths[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: DiffLine['type'][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push('equal');
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      ops.push('removed');
+      i++;
+    } else {
+      ops.push('added');
+      j++;
+    }
+  }
+  while (i++ < n) ops.push('removed');
+  while (j++ < m) ops.push('added');
+
+  return ops;
+}
+
+/**
+ * Group changed lines into hunks with the given number of context lines.
+ */
+export function toHunks(lines: DiffLine[], context = 3): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: DiffLine[] = [];
+  let trailing = 0;
+
+  const flush = () => {
+    // Drop context beyond the limit after the last change
+    const body = current.slice(0, current.length - Math.max(0, trailing - context));
+    if (body.some((l) => l.type !== 'equal')) {
+      hunks.push(toHunk(body));
+    }
+    current = [];
+    trailing = 0;
+  };
+
+  lines.forEach((line, index) => {
+    if (line.type !== 'equal') {
+      if (current.length === 0) {
+        current = lines.slice(Math.max(0, index - context), index);
+      }
+      current.push(line);
+      trailing = 0;
+      return;
+    }
+
+    if (current.length === 0) return;
+
+    current.push(line);
+    trailing++;
+    if (trailing > context * 2) {
+      flush();
+    }
+  });
+
+  if (current.length > 0) {
+    flush();
+  }
+
+  return hunks;
+}
+
+function toHunk(lines: DiffLine[]): Hunk {
+  const oldLines = lines.filter((l) => l.oldLine !== undefined);
+  const newLines = lines.filter((l) => l.newLine !== undefined);
+
+  return {
+    oldStart: oldLines[0]?.oldLine ?? 0,
+    oldCount: oldLines.length,
+    newStart: newLines[0]?.newLine ?? 0,
+    newCount: newLines.length,
+    lines,
+  };
+}
@@ -0,0 +1,41 @@
+import chalk from 'chalk';
+import { createInterface, type Interface } from 'readline/promises';
+
+let rl: Interface | null = null;
+
+/**
+ * Ask a question on the terminal and return the trimmed answer.
+ * The terminal interface is shared across questions so piped input is not lost.
+ */
+export async function ask(question: string): Promise<string> {
+  rl ??= createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return (await rl.question(question)).trim();
+  } finally {
+    // Release stdin in between questions (e.g. for $EDITOR)
+    rl.pause();
+  }
+}
+
+/**
+ * Ask a yes/no question. Defaults to no.
+ */
+export async function confirm(question: string): Promise<boolean> {
+  const answer = await ask(`${question} ${chalk.dim('[y/N]')} `);
+  return /^y(es)?$/i.test(answer);
+}
+
+/**
+ * Close the terminal interface once prompting is done.
+ */
+export function closePrompt(): void {
+  rl?.close();
+  rl = null;
+}
+
+/**
+ * Whether the CLI can prompt the user.
+ */
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+}
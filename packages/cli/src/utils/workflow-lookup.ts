@@ -0,0 +1,50 @@
+import chalk from 'chalk';
+import { getDb, schema, eq, or, like, type Workflow } from '@flowsfarm/core';
+
+/**
+ * Find a synced workflow by ID or name (partial match supported).
+ * Exits with an error when no workflow or more than one workflow matches.
+ */
+export function findWorkflow(nameOrId: string): Workflow {
+  const db = getDb();
+
+  // Exact ID (remote or local) or exact name
+  let workflow = db
+    .select()
+    .from(schema.workflows)
+    .where(
+      or(
+        eq(schema.workflows.remoteId, nameOrId),
+        eq(schema.workflows.id, nameOrId),
+        eq(schema.workflows.name, nameOrId)
+      )
+    )
+    .get();
+
+  if (!workflow) {
+    // Try partial name match (case-insensitive)
+    const workflows = db
+      .select()
+      .from(schema.workflows)
+      .where(like(schema.workflows.name, `%${nameOrId}%`))
+      .all();
+
+    if (workflows.length === 1) {
+      workflow = workflows[0];
+    } else if (workflows.length > 1) {
+      console.error(chalk.yellow(`Multiple workflows match "${nameOrId}":`));
+      for (const w of workflows) {
+        console.log(`  - ${w.name} (${w.remoteId})`);
+      }
+      console.log(chalk.dim('\nBe more specific or use the full ID.'));
+      process.exit(1);
+    }
+  }
+
+  if (!workflow) {
+    console.error(chalk.red(`Workflow not found: ${nameOrId}`));
+    process.exit(1);
+  }
+
+  return workflow;
+}
@@ -1,14 +1,61 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join, dirname } from 'path';
 import { z } from 'zod';
+import { formatJson } from '../utils/canonical';
+
+const ClientSettingsSchema = z.object({
+  concurrency: z.number().int().positive().optional(),
+  maxRetries: z.number().int().nonnegative().optional(),
+  retryDelay: z.number().int().nonnegative().optional(),
+  requestsPerMinute: z.number().int().positive().optional(),
+  timeout: z.number().int().positive().optional(),
+});
+
+const LintSettingsSchema = z.object({
+  // Severity per rule ID, 'off' disables a rule
+  rules: z.record(z.string(), z.enum(['error', 'warning', 'off'])).optional(),
+});
+
+const LayoutSettingsSchema = z.object({
+  // 'expanded' writes node code and long text to files next to workflow.json
+  files: z.enum(['single', 'expanded']).optional(),
+  // Workflow folder under workflowsPath, from {connection}, {connectionId}, {tag}, {slug} and {id}
+  path: z
+    .string()
+    .regex(/^\{connection(Id)?\}\/.+/, 'layout.path must start with {connection}/ or {connectionId}/')
+    .optional(),
+});
+
+const GitSettingsSchema = z.object({
+  // Commit the workflows changed by every pull, one commit per connection
+  autoCommit: z.boolean().optional(),
+});
+
+const HashSettingsSchema = z.object({
+  // Paths of fields that do not count as changes, e.g. nodes.*.position
+  ignore: z.array(z.string().min(1)).optional(),
+});
 
 const ConfigSchema = z.object({
   version: z.string().default('1'),
   dbPath: z.string(),
   workflowsPath: z.string(),
+  // n8n API client settings, with overrides per connection name or ID
+  client: ClientSettingsSchema.extend({
+    connections: z.record(z.string(), ClientSettingsSchema).optional(),
+  }).optional(),
+  lint: LintSettingsSchema.optional(),
+  layout: LayoutSettingsSchema.optional(),
+  git: GitSettingsSchema.optional(),
+  hash: HashSettingsSchema.optional(),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
+export type ClientSettings = z.infer<typeof ClientSettingsSchema>;
+export type LintSettings = z.infer<typeof LintSettingsSchema>;
+export type LayoutSettings = z.infer<typeof LayoutSettingsSchema>;
+export type GitSettings = z.infer<typeof GitSettingsSchema>;
+export type HashSettings = z.infer<typeof HashSettingsSchema>;
 
 const CONFIG_FILE = '.flowsfarm.json';
 const DEFAULT_DATA_DIR = '.flowsfarm';
@@ -93,7 +140,7 @@ export function initConfig(root: string = process.cwd()): Config {
     workflowsPath: `${DEFAULT_DATA_DIR}/workflows`,
   };
 
-  writeFileSync(configPath, JSON.stringify(config, null, 2));
+  writeFileSync(configPath, formatJson(config));
 
   // Set and return the config
   projectRoot = root;
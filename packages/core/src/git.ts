@@ -0,0 +1,94 @@
+import { execFileSync } from 'child_process';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import { getConfig, getProjectRoot } from './config';
+
+export class GitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+const GITIGNORE_HEADER = '# FlowsFarm: local database and unresolved conflicts';
+
+/**
+ * Whether the project is inside a git working tree.
+ */
+export function isGitRepository(): boolean {
+  try {
+    return git(['rev-parse', '--is-inside-work-tree']) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Add the database and conflict folders to the .gitignore of the data
+ * directory, keeping entries that are already there. Returns the path of the
+ * .gitignore when it was created or changed.
+ */
+export function ensureGitignore(): string | null {
+  const config = getConfig();
+  const dataDir = dirname(config.workflowsPath);
+  const gitignorePath = join(dataDir, '.gitignore');
+
+  const entries = ['.conflict/'];
+  const dbPath = relative(dataDir, config.dbPath);
+  // A database outside the data directory cannot be ignored from here
+  if (!dbPath.startsWith('..')) {
+    entries.unshift(dbPath, `${dbPath}-*`);
+  }
+
+  const existing = existsSync(gitignorePath) ? readFileSync(gitignorePath, 'utf-8') : '';
+  const lines = new Set(existing.split('\n').map((line) => line.trim()));
+  const missing = entries.filter((entry) => !lines.has(entry));
+
+  if (missing.length === 0) {
+    return null;
+  }
+
+  const prefix = existing && !existing.endsWith('\n') ? `${existing}\n` : existing;
+  const header = lines.has(GITIGNORE_HEADER) ? [] : [GITIGNORE_HEADER];
+  writeFileSync(gitignorePath, `${prefix}${[...header, ...missing].join('\n')}\n`);
+
+  return gitignorePath;
+}
+
+/**
+ * Commit the current state of the given paths, including deletions, and
+ * nothing else that is staged. Returns the short hash of the commit, or null
+ * if the paths had no changes.
+ */
+export function commitFiles(paths: string[], message: string): string | null {
+  ensureGitignore();
+
+  // Paths git has never seen and that no longer exist cannot be staged
+  const pathspecs = [...new Set(paths)].filter(
+    (path) => existsSync(path) || git(['ls-files', '--', path]) !== ''
+  );
+  if (pathspecs.length === 0) {
+    return null;
+  }
+
+  git(['add', '-A', '--', ...pathspecs]);
+  if (git(['diff', '--cached', '--name-only', '--', ...pathspecs]) === '') {
+    return null;
+  }
+
+  git(['commit', '-m', message, '--', ...pathspecs]);
+  return git(['rev-parse', '--short', 'HEAD']);
+}
+
+function git(args: string[]): string {
+  try {
+    return execFileSync('git', args, {
+      cwd: getProjectRoot(),
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+    }).trim();
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new GitError(stderr || (error instanceof Error ? error.message : String(error)));
+  }
+}
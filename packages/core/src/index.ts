@@ -7,6 +7,11 @@ export {
   getProjectRoot,
   setProjectRoot,
   type Config,
+  type ClientSettings,
+  type LintSettings,
+  type LayoutSettings,
+  type GitSettings,
+  type HashSettings,
 } from './config';
 
 // Storage
@@ -19,6 +24,8 @@ export type {
   NewWorkflow,
   SyncHistoryEntry,
   NewSyncHistoryEntry,
+  WorkflowLink,
+  NewWorkflowLink,
   SyncStatus,
 } from './storage/schema';
 
@@ -28,6 +35,7 @@ export type {
   ConflictInfo,
   SyncError,
   PullResult,
+  PlannedFileChange,
   PushResult,
   SyncOptions,
   ConnectionConfig,
@@ -39,12 +47,22 @@ export {
   setLogLevel,
   hashContent,
   hashWorkflow,
+  WORKFLOW_HASH_VERSION,
+  sortObjectKeys,
+  canonicalizeWorkflow,
+  formatJson,
+  formatWorkflowJson,
+  VOLATILE_WORKFLOW_FIELDS,
   generateId,
   encrypt,
   decrypt,
+  slugify,
 } from './utils';
 export type { LogLevel } from './utils';
 
+// Git
+export { isGitRepository, ensureGitignore, commitFiles, GitError } from './git';
+
 // Templates
 export {
   getTemplatesPath,
@@ -0,0 +1,45 @@
+import initSqlJs, { type Database } from 'sql.js';
+import { drizzle } from 'drizzle-orm/sql-js';
+import * as schema from './schema';
+import { applyMigrations } from './migrations';
+
+/**
+ * In-memory stand-in for ./db in tests, which run on Node without
+ * bun:sqlite. The database starts over empty after closeDb().
+ */
+
+const SQL = await initSqlJs();
+
+let db: ReturnType<typeof drizzle<typeof schema>> | null = null;
+let sqlite: Database | null = null;
+
+export function getDb() {
+  if (!db) {
+    sqlite = new SQL.Database();
+    sqlite.exec('PRAGMA foreign_keys = ON');
+    db = drizzle(sqlite, { schema });
+  }
+  return db;
+}
+
+export function closeDb() {
+  if (sqlite) {
+    sqlite.close();
+    sqlite = null;
+    db = null;
+  }
+}
+
+export function runMigrations() {
+  const database = getDb();
+
+  applyMigrations({
+    exec: (sql) => sqlite?.exec(sql),
+    columns: (table) =>
+      (sqlite?.exec(`PRAGMA table_info(${table})`)[0]?.values ?? []).map((row) => String(row[1])),
+  });
+
+  return database;
+}
+
+export { schema };
@@ -0,0 +1,85 @@
+/**
+ * Access to the SQLite database the schema is created in, so the same
+ * migrations run on Bun and in tests.
+ */
+export interface MigrationClient {
+  exec(sql: string): void;
+  /** Names of the columns of a table */
+  columns(table: string): string[];
+}
+
+/**
+ * Create the tables and add the columns missing from databases made by
+ * older versions.
+ */
+export function applyMigrations(client: MigrationClient): void {
+  // Create tables if they don't exist
+  client.exec(`
+    CREATE TABLE IF NOT EXISTS connections (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      base_url TEXT NOT NULL,
+      api_key_encrypted TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      last_sync_at INTEGER
+    );
+
+    CREATE TABLE IF NOT EXISTS workflows (
+      id TEXT PRIMARY KEY,
+      connection_id TEXT NOT NULL REFERENCES connections(id),
+      remote_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      active INTEGER DEFAULT 0,
+      content_hash TEXT NOT NULL,
+      local_updated_at INTEGER,
+      remote_updated_at INTEGER,
+      sync_status TEXT NOT NULL DEFAULT 'synced',
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      connection_id TEXT NOT NULL REFERENCES connections(id),
+      workflow_id TEXT,
+      action TEXT NOT NULL,
+      details TEXT,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_workflows_connection ON workflows(connection_id);
+    CREATE INDEX IF NOT EXISTS idx_workflows_sync_status ON workflows(sync_status);
+    CREATE INDEX IF NOT EXISTS idx_sync_history_connection ON sync_history(connection_id);
+  `);
+
+  // Columns added after the initial schema
+  addColumnIfMissing(client, 'sync_history', 'hash', 'TEXT');
+  addColumnIfMissing(client, 'workflows', 'local_path', 'TEXT');
+  addColumnIfMissing(client, 'connections', 'hash_version', 'INTEGER');
+  addColumnIfMissing(client, 'connections', 'hash_ignore', 'TEXT');
+
+  client.exec(`
+    CREATE INDEX IF NOT EXISTS idx_sync_history_workflow ON sync_history(workflow_id);
+
+    CREATE TABLE IF NOT EXISTS workflow_links (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source_connection_id TEXT NOT NULL REFERENCES connections(id),
+      source_remote_id TEXT NOT NULL,
+      target_connection_id TEXT NOT NULL REFERENCES connections(id),
+      target_remote_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_workflow_links_source ON workflow_links(source_connection_id, source_remote_id);
+  `);
+}
+
+function addColumnIfMissing(
+  client: MigrationClient,
+  table: string,
+  column: string,
+  definition: string
+) {
+  if (!client.columns(table).includes(column)) {
+    client.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
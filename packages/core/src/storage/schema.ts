@@ -10,6 +10,8 @@ export const connections = sqliteTable('connections', {
     .notNull()
     .$defaultFn(() => new Date()),
   lastSyncAt: integer('last_sync_at', { mode: 'timestamp' }),
+  hashVersion: integer('hash_version'), // hashWorkflow version of the stored hashes, null for 1
+  hashIgnore: text('hash_ignore'), // JSON list of the paths the stored hashes ignore, null for none
 });
 
 // Synced workflows
@@ -20,6 +22,7 @@ export const workflows = sqliteTable('workflows', {
     .references(() => connections.id),
   remoteId: text('remote_id').notNull(),
   name: text('name').notNull(),
+  localPath: text('local_path'), // Folder relative to workflowsPath, null for <connection-id>/<remote-id>
   active: integer('active', { mode: 'boolean' }).default(false),
   contentHash: text('content_hash').notNull(),
   localUpdatedAt: integer('local_updated_at', { mode: 'timestamp' }),
@@ -32,6 +35,7 @@ export const workflows = sqliteTable('workflows', {
       'conflict',
       'new_local',
       'deleted_remote',
+      'pending_delete',
     ],
   })
     .notNull()
@@ -48,8 +52,27 @@ export const syncHistory = sqliteTable('sync_history', {
     .notNull()
     .references(() => connections.id),
   workflowId: text('workflow_id'),
-  action: text('action', { enum: ['pull', 'push', 'conflict_resolved'] }).notNull(),
+  action: text('action', {
+    enum: ['pull', 'push', 'conflict_resolved', 'delete', 'restore'],
+  }).notNull(),
   details: text('details'), // JSON with before/after hashes
+  hash: text('hash'), // Content hash of the workflow snapshot in the history store
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+// Workflows linked across connections (e.g. the prod copy of a dev workflow)
+export const workflowLinks = sqliteTable('workflow_links', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  sourceConnectionId: text('source_connection_id')
+    .notNull()
+    .references(() => connections.id),
+  sourceRemoteId: text('source_remote_id').notNull(),
+  targetConnectionId: text('target_connection_id')
+    .notNull()
+    .references(() => connections.id),
+  targetRemoteId: text('target_remote_id').notNull(),
   createdAt: integer('created_at', { mode: 'timestamp' })
     .notNull()
     .$defaultFn(() => new Date()),
@@ -62,4 +85,6 @@ export type Workflow = typeof workflows.$inferSelect;
 export type NewWorkflow = typeof workflows.$inferInsert;
 export type SyncHistoryEntry = typeof syncHistory.$inferSelect;
 export type NewSyncHistoryEntry = typeof syncHistory.$inferInsert;
+export type WorkflowLink = typeof workflowLinks.$inferSelect;
+export type NewWorkflowLink = typeof workflowLinks.$inferInsert;
 export type SyncStatus = Workflow['syncStatus'];
@@ -1,6 +1,7 @@
 import { existsSync, readdirSync, readFileSync, writeFileSync, mkdirSync, unlinkSync } from 'fs';
 import { join, basename } from 'path';
 import { getProjectRoot } from './config';
+import { formatWorkflowJson } from './utils/canonical';
 
 export interface Template {
   name: string;
@@ -67,7 +68,7 @@ export function saveTemplate(name: string, template: Template): void {
   ensureTemplatesDir();
   const templatesPath = getTemplatesPath();
   const templatePath = join(templatesPath, `${name}.json`);
-  writeFileSync(templatePath, JSON.stringify(template, null, 2));
+  writeFileSync(templatePath, formatWorkflowJson(template));
 }
 
 /**
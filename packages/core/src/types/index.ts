@@ -35,13 +35,37 @@ export interface PullResult {
   created: number;
   updated: number;
   unchanged: number;
+  merged: number;
+  deletedRemote: number;
+  pruned: number;
+  conflicts: ConflictInfo[];
   errors: SyncError[];
+  /** Local files a dry run would write or remove */
+  planned: PlannedFileChange[];
+  /** Commit of the pulled workflows, with git.autoCommit */
+  commit?: string;
+}
+
+export interface PlannedFileChange {
+  workflowName: string;
+  path: string;
+  /**
+   * create: new local file, overwrite: replaces the local file,
+   * merge/conflict: local edits merged with remote changes, prune: file removed
+   */
+  action: 'create' | 'overwrite' | 'merge' | 'conflict' | 'prune';
+  /** Local edits that would be lost */
+  localChanges?: boolean;
 }
 
 export interface PushResult {
   total: number;
   created: number;
   updated: number;
+  deleted: number;
+  /** Workflows whose activation was changed to match workflow.json */
+  activated: number;
+  deactivated: number;
   conflicts: ConflictInfo[];
   errors: SyncError[];
 }
@@ -0,0 +1,73 @@
+/**
+ * Fields n8n changes on every save. They are kept in meta.json, not in
+ * workflow files.
+ */
+export const VOLATILE_WORKFLOW_FIELDS = ['updatedAt', 'versionId'] as const;
+
+/**
+ * Recursively sort object keys for consistent JSON serialization.
+ */
+export function sortObjectKeys(obj: unknown): unknown {
+  if (obj === null || obj === undefined) {
+    return obj;
+  }
+  if (Array.isArray(obj)) {
+    return obj.map(sortObjectKeys);
+  }
+  if (typeof obj === 'object') {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(obj as Record<string, unknown>).sort()) {
+      sorted[key] = sortObjectKeys((obj as Record<string, unknown>)[key]);
+    }
+    return sorted;
+  }
+  return obj;
+}
+
+/**
+ * Bring a workflow into its canonical form: keys sorted, nodes and tags
+ * ordered by name and volatile fields removed. Connections are sorted by
+ * their source node like any other keys, but their target lists are left in
+ * order on purpose: it decides the execution order of older workflows.
+ */
+export function canonicalizeWorkflow(workflow: Record<string, unknown>): Record<string, unknown> {
+  const canonical: Record<string, unknown> = { ...workflow };
+
+  for (const field of VOLATILE_WORKFLOW_FIELDS) {
+    delete canonical[field];
+  }
+
+  if (Array.isArray(workflow.nodes)) {
+    canonical.nodes = [...workflow.nodes].sort((a, b) => compareBy(a, b, 'name'));
+  }
+  if (Array.isArray(workflow.tags)) {
+    canonical.tags = [...workflow.tags].sort(
+      (a, b) => compareBy(a, b, 'name') || compareBy(a, b, 'id')
+    );
+  }
+
+  return sortObjectKeys(canonical) as Record<string, unknown>;
+}
+
+/**
+ * Serialize a value the way FlowsFarm writes JSON files: keys sorted,
+ * two-space indentation and a final newline.
+ */
+export function formatJson(value: unknown): string {
+  return `${JSON.stringify(sortObjectKeys(value), null, 2)}\n`;
+}
+
+/**
+ * Serialize a workflow in its canonical form.
+ */
+export function formatWorkflowJson(workflow: object): string {
+  return formatJson(canonicalizeWorkflow(workflow as Record<string, unknown>));
+}
+
+// Plain code point order, which does not depend on the locale
+function compareBy(a: unknown, b: unknown, key: string): number {
+  const [left, right] = [a, b].map((item) =>
+    String((item as Record<string, unknown> | null)?.[key] ?? '')
+  );
+  return left < right ? -1 : left > right ? 1 : 0;
+}
@@ -1,4 +1,11 @@
 import { createHash } from 'crypto';
+import { canonicalizeWorkflow } from './canonical';
+
+/**
+ * Version of hashWorkflow. Bumped when the same workflow hashes differently,
+ * so that stored hashes can be recomputed.
+ */
+export const WORKFLOW_HASH_VERSION = 2;
 
 /**
  * Generate a SHA-256 hash of the given content.
@@ -8,45 +15,56 @@ export function hashContent(content: string): string {
   return createHash('sha256').update(content).digest('hex');
 }
 
-/**
- * Recursively sort object keys for consistent JSON serialization.
- */
-function sortObjectKeys(obj: unknown): unknown {
-  if (obj === null || obj === undefined) {
-    return obj;
-  }
-  if (Array.isArray(obj)) {
-    return obj.map(sortObjectKeys);
-  }
-  if (typeof obj === 'object') {
-    const sorted: Record<string, unknown> = {};
-    for (const key of Object.keys(obj as Record<string, unknown>).sort()) {
-      sorted[key] = sortObjectKeys((obj as Record<string, unknown>)[key]);
-    }
-    return sorted;
-  }
-  return obj;
-}
-
 /**
  * Hash a workflow object for change detection.
- * Normalizes the object to ensure consistent hashing.
+ * Normalizes the object to ensure consistent hashing. Fields at the `ignore`
+ * paths, e.g. `nodes.*.position`, do not count as changes.
  */
-export function hashWorkflow(workflow: Record<string, unknown>): string {
+export function hashWorkflow(workflow: Record<string, unknown>, ignore: string[] = []): string {
   // Remove fields that change on every API call but don't represent actual changes
-  const normalized = {
+  let normalized: unknown = {
     ...workflow,
-    updatedAt: undefined,
     createdAt: undefined,
     id: undefined,
   };
 
-  // Sort keys recursively for consistent serialization
-  const sorted = sortObjectKeys(normalized);
-  const json = JSON.stringify(sorted);
+  for (const path of ignore) {
+    normalized = omitPath(normalized, path.split('.'));
+  }
+
+  // Canonical form, so that key and node order do not matter
+  const json = JSON.stringify(canonicalizeWorkflow(normalized as Record<string, unknown>));
   return hashContent(json);
 }
 
+/**
+ * Remove the values at a path of keys, where `*` matches any key or array
+ * element. Returns a copy; the value itself is left as it is.
+ */
+function omitPath(value: unknown, [segment, ...rest]: string[]): unknown {
+  if (segment === undefined || value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const matches = (key: string) => segment === '*' || segment === key;
+
+  if (Array.isArray(value)) {
+    return rest.length === 0
+      ? value.filter((_, index) => !matches(String(index)))
+      : value.map((item, index) => (matches(String(index)) ? omitPath(item, rest) : item));
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (!matches(key)) {
+      copy[key] = item;
+    } else if (rest.length > 0) {
+      copy[key] = omitPath(item, rest);
+    }
+  }
+  return copy;
+}
+
 /**
  * Generate a unique ID for new resources.
  */
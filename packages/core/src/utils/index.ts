@@ -1,3 +1,11 @@
 export { logger, setLogLevel, type LogLevel } from './logger';
-export { hashContent, hashWorkflow, generateId } from './hash';
+export { hashContent, hashWorkflow, generateId, WORKFLOW_HASH_VERSION } from './hash';
+export {
+  sortObjectKeys,
+  canonicalizeWorkflow,
+  formatJson,
+  formatWorkflowJson,
+  VOLATILE_WORKFLOW_FIELDS,
+} from './canonical';
 export { encrypt, decrypt } from './crypto';
+export { slugify } from './slug';
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setLogLevel } from '@flowsfarm/core';
+import { N8nApiError, N8nClient } from './client';
+
+const workflow = {
+  id: 'wf1',
+  name: 'Invoice reminders',
+  active: true,
+  nodes: [],
+  connections: {},
+  createdAt: '2024-05-01T08:00:00.000Z',
+  updatedAt: '2024-05-01T08:00:00.000Z',
+};
+
+type Reply = Response | Error;
+
+describe('N8nClient retries', () => {
+  // Replies of the stubbed fetch in order, and the time each request was sent
+  let replies: Reply[];
+  let sentAt: number[];
+
+  const reply = (status: number, body: unknown = '', headers: Record<string, string> = {}) =>
+    new Response(typeof body === 'string' ? body : JSON.stringify(body), { status, headers });
+
+  const client = () =>
+    new N8nClient({ baseUrl: 'http://n8n.test', apiKey: 'key', maxRetries: 2, retryDelay: 100 });
+
+  // Run a request to completion while the fake clock moves on
+  const settle = async <T>(request: Promise<T>): Promise<T> => {
+    const settled = request.then(
+      (value) => ({ value }),
+      (error: unknown) => ({ error })
+    );
+    await vi.runAllTimersAsync();
+    const outcome = await settled;
+    if ('error' in outcome) throw outcome.error;
+    return outcome.value;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 0 });
+    setLogLevel('error');
+    replies = [];
+    sentAt = [];
+    vi.stubGlobal('fetch', async () => {
+      sentAt.push(Date.now());
+      const next = replies.shift() ?? reply(500, 'no reply left');
+      if (next instanceof Error) throw next;
+      return next;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('retries a read that failed on the server with backoff', async () => {
+    replies = [reply(502), reply(503), reply(200, workflow)];
+
+    await expect(settle(client().getWorkflow('wf1'))).resolves.toMatchObject({ id: 'wf1' });
+
+    expect(sentAt).toHaveLength(3);
+    expect(sentAt[1] - sentAt[0]).toBeGreaterThanOrEqual(100);
+    expect(sentAt[2] - sentAt[1]).toBeGreaterThanOrEqual(200);
+  });
+
+  it('retries a read after a network error', async () => {
+    replies = [new TypeError('fetch failed'), reply(200, workflow)];
+
+    await expect(settle(client().getWorkflow('wf1'))).resolves.toMatchObject({ id: 'wf1' });
+    expect(sentAt).toHaveLength(2);
+  });
+
+  it('waits as long as Retry-After asks when rate limited', async () => {
+    replies = [reply(429, 'slow down', { 'Retry-After': '3' }), reply(200, workflow)];
+
+    await settle(client().getWorkflow('wf1'));
+
+    expect(sentAt).toEqual([0, 3000]);
+  });
+
+  it('holds back other requests while rate limited', async () => {
+    const n8n = client();
+    replies = [reply(429, 'slow down', { 'Retry-After': '2' }), reply(200, workflow), reply(200, workflow)];
+
+    const first = n8n.getWorkflow('wf1');
+    await vi.advanceTimersByTimeAsync(500);
+    const second = n8n.getWorkflow('wf1');
+
+    await settle(Promise.all([first, second]));
+
+    expect(sentAt).toEqual([0, 2000, 2000]);
+  });
+
+  it('retries a create only when it was rate limited', async () => {
+    replies = [reply(429, 'slow down', { 'Retry-After': '1' }), reply(200, workflow)];
+    await expect(settle(client().createWorkflow(workflow))).resolves.toMatchObject({ id: 'wf1' });
+
+    // A create that failed on the server may have been applied
+    replies = [reply(500), reply(200, workflow)];
+    await expect(settle(client().createWorkflow(workflow))).rejects.toMatchObject({ statusCode: 500 });
+    expect(replies).toHaveLength(1);
+  });
+
+  it('does not retry errors that a retry cannot fix', async () => {
+    replies = [reply(404, 'Not Found'), reply(200, workflow)];
+
+    const error = await settle(client().getWorkflow('wf1')).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(N8nApiError);
+    expect(error).toMatchObject({ statusCode: 404, responseBody: 'Not Found' });
+    expect(sentAt).toHaveLength(1);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    replies = [reply(503), reply(503), reply(503), reply(200, workflow)];
+
+    await expect(settle(client().getWorkflow('wf1'))).rejects.toMatchObject({ statusCode: 503 });
+    expect(sentAt).toHaveLength(3);
+  });
+});
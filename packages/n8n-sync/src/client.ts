@@ -4,33 +4,99 @@ import {
   type CreateWorkflowInput,
   type UpdateWorkflowInput,
   type ListWorkflowsOptions,
+  type N8nTag,
   N8nWorkflowSchema,
+  N8nTagSchema,
   WorkflowListResponseSchema,
+  TagListResponseSchema,
+  WorkflowTagsResponseSchema,
 } from './types';
 import { logger } from '@flowsfarm/core';
 
+const DEFAULT_CONCURRENCY = 5;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 30000;
+
+// Methods that are safe to repeat when the outcome of a request is unknown
+const IDEMPOTENT_METHODS = new Set(['GET', 'PUT', 'PATCH', 'DELETE']);
+
 export class N8nClient {
   private baseUrl: string;
   private apiKey: string;
   private timeout: number;
+  private concurrency: number;
+  private maxRetries: number;
+  private retryDelay: number;
+  private requestsPerMinute?: number;
+
+  // Requests in flight, and requests waiting for a free slot
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  // Start times of requests within the last minute, for the request budget
+  private requestTimes: number[] = [];
+  // Set when the server asks to slow down, delays every request
+  private pausedUntil = 0;
 
   constructor(config: N8nClientConfig) {
     // Normalize base URL (remove trailing slash)
     this.baseUrl = config.baseUrl.replace(/\/$/, '');
     this.apiKey = config.apiKey;
     this.timeout = config.timeout ?? 30000;
+    this.concurrency = config.concurrency ?? DEFAULT_CONCURRENCY;
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryDelay = config.retryDelay ?? DEFAULT_RETRY_DELAY;
+    this.requestsPerMinute = config.requestsPerMinute;
   }
 
+  /**
+   * Send a request, retrying rate-limited, failed and timed out requests
+   * with exponential backoff.
+   */
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
+    const method = (options.method ?? 'GET').toUpperCase();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(endpoint, options);
+      } catch (error) {
+        const delay = this.getRetryDelay(error, method, attempt);
+
+        if (delay === null) {
+          if (error instanceof N8nApiError) {
+            logger.error(`API Error: ${error.statusCode} - ${error.responseBody}`);
+          }
+          throw error;
+        }
+
+        if (error instanceof N8nApiError && error.statusCode === 429) {
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+        }
+
+        logger.warn(
+          `${method} ${endpoint} failed (${describeError(error)}), retrying in ${delay}ms ` +
+            `(${attempt + 1}/${this.maxRetries})`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async send<T>(endpoint: string, options: RequestInit): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    await this.acquireSlot();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
 
     try {
+      await this.waitForBudget();
+
+      const controller = new AbortController();
+      timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
       const response = await fetch(url, {
         ...options,
         signal: controller.signal,
@@ -44,11 +110,11 @@ export class N8nClient {
 
       if (!response.ok) {
         const errorBody = await response.text().catch(() => '');
-        logger.error(`API Error: ${response.status} - ${errorBody}`);
         throw new N8nApiError(
           `API request failed: ${response.status} ${response.statusText}`,
           response.status,
-          errorBody
+          errorBody,
+          parseRetryAfter(response.headers.get('Retry-After'))
         );
       }
 
@@ -61,6 +127,75 @@ export class N8nClient {
       return JSON.parse(text) as T;
     } finally {
       clearTimeout(timeoutId);
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Get the delay before retrying a failed request, or null if it should not be retried.
+   * Requests that may have reached the server are only retried when they are idempotent.
+   */
+  private getRetryDelay(error: unknown, method: string, attempt: number): number | null {
+    if (attempt >= this.maxRetries) {
+      return null;
+    }
+
+    const backoff = Math.min(
+      this.retryDelay * 2 ** attempt * (1 + Math.random() * 0.2),
+      MAX_RETRY_DELAY
+    );
+
+    if (error instanceof N8nApiError) {
+      const retryable =
+        error.statusCode === 429 ||
+        (error.statusCode >= 500 && IDEMPOTENT_METHODS.has(method));
+
+      if (!retryable) {
+        return null;
+      }
+
+      return Math.round(error.retryAfter ?? backoff);
+    }
+
+    // Network errors and timeouts
+    return IDEMPOTENT_METHODS.has(method) ? Math.round(backoff) : null;
+  }
+
+  private async acquireSlot(): Promise<void> {
+    while (this.active >= this.concurrency) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    this.active++;
+  }
+
+  private releaseSlot(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  /**
+   * Wait until the server accepts requests again and the request budget allows one more.
+   */
+  private async waitForBudget(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+
+      if (this.pausedUntil > now) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      if (!this.requestsPerMinute) {
+        return;
+      }
+
+      this.requestTimes = this.requestTimes.filter((time) => time > now - 60000);
+      if (this.requestTimes.length < this.requestsPerMinute) {
+        this.requestTimes.push(now);
+        return;
+      }
+
+      await sleep(this.requestTimes[0] + 60000 - now);
     }
   }
 
@@ -177,10 +312,10 @@ export class N8nClient {
    * Activate or deactivate a workflow.
    */
   async setWorkflowActive(id: string, active: boolean): Promise<N8nWorkflow> {
-    const response = await this.request<unknown>(`/api/v1/workflows/${id}`, {
-      method: 'PATCH',
-      body: JSON.stringify({ active }),
-    });
+    const response = await this.request<unknown>(
+      `/api/v1/workflows/${id}/${active ? 'activate' : 'deactivate'}`,
+      { method: 'POST' }
+    );
     return N8nWorkflowSchema.parse(response);
   }
 
@@ -192,15 +327,85 @@ export class N8nClient {
       method: 'DELETE',
     });
   }
+
+  /**
+   * List all tags, handling pagination automatically.
+   */
+  async listAllTags(): Promise<N8nTag[]> {
+    const allTags: N8nTag[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const endpoint = `/api/v1/tags${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ''}`;
+      const parsed = TagListResponseSchema.parse(await this.request<unknown>(endpoint));
+
+      allTags.push(...parsed.data);
+      cursor = parsed.nextCursor ?? undefined;
+    } while (cursor);
+
+    return allTags;
+  }
+
+  /**
+   * Create a tag.
+   */
+  async createTag(name: string): Promise<N8nTag> {
+    const response = await this.request<unknown>('/api/v1/tags', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+    return N8nTagSchema.parse(response);
+  }
+
+  /**
+   * Replace the tags of a workflow.
+   */
+  async updateWorkflowTags(id: string, tagIds: string[]): Promise<N8nTag[]> {
+    const response = await this.request<unknown>(`/api/v1/workflows/${id}/tags`, {
+      method: 'PUT',
+      body: JSON.stringify(tagIds.map((tagId) => ({ id: tagId }))),
+    });
+    return WorkflowTagsResponseSchema.parse(response);
+  }
 }
 
 export class N8nApiError extends Error {
   constructor(
     message: string,
     public statusCode: number,
-    public responseBody: string
+    public responseBody: string,
+    /** Delay in ms requested by the server's Retry-After header */
+    public retryAfter?: number
   ) {
     super(message);
     this.name = 'N8nApiError';
   }
 }
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof N8nApiError) {
+    return String(error.statusCode);
+  }
+  return error instanceof Error ? error.message : 'unknown error';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,13 +1,16 @@
 import { eq } from 'drizzle-orm';
 import {
   getDb,
+  getConfig,
   schema,
   encrypt,
   decrypt,
   generateId,
+  WORKFLOW_HASH_VERSION,
   type ConnectionConfig,
 } from '@flowsfarm/core';
 import { N8nClient } from './client';
+import { activateRemoteWorkflow } from './sync/activation';
 import type { CreateWorkflowInput, N8nWorkflow } from './types';
 
 export interface ConnectionInfo {
@@ -68,6 +71,7 @@ export async function addConnection(
     baseUrl: config.baseUrl.replace(/\/$/, ''), // Remove trailing slash
     apiKeyEncrypted: encryptedKey,
     createdAt: new Date(),
+    hashVersion: WORKFLOW_HASH_VERSION,
   }).run();
 
   return {
@@ -234,19 +238,38 @@ export function getClient(idOrName: string): N8nClient {
     throw new Error(`Connection not found: ${idOrName}`);
   }
 
+  return createClient(connection);
+}
+
+/**
+ * Create the n8n client for a stored connection.
+ * Client settings from the config apply, overridden per connection name or ID.
+ */
+export function createClient(
+  connection: typeof schema.connections.$inferSelect
+): N8nClient {
+  const { connections: overrides, ...settings } = getConfig().client ?? {};
+
   return new N8nClient({
+    ...settings,
+    ...overrides?.[connection.name],
+    ...overrides?.[connection.id],
     baseUrl: connection.baseUrl,
     apiKey: decrypt(connection.apiKeyEncrypted),
   });
 }
 
 /**
- * Create a new workflow on the remote n8n instance.
+ * Create a new workflow on the remote n8n instance, and activate it if
+ * `active` is set. n8n creates workflows inactive, so activation is a second
+ * request; when it fails, an ActivationError holds the ID of the workflow
+ * that was created.
  */
 export async function createWorkflow(
   connectionId: string,
   workflow: CreateWorkflowInput
 ): Promise<N8nWorkflow> {
   const client = getClient(connectionId);
-  return client.createWorkflow(workflow);
+  const created = await client.createWorkflow(workflow);
+  return workflow.active ? activateRemoteWorkflow(client, created, true) : created;
 }
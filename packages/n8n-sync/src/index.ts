@@ -7,6 +7,7 @@ export type {
   N8nNode,
   N8nConnection,
   N8nWorkflowSettings,
+  N8nTag,
   N8nClientConfig,
   CreateWorkflowInput,
   UpdateWorkflowInput,
@@ -30,9 +31,111 @@ export {
 export { SyncEngine } from './sync/engine';
 export { pullWorkflows, type PullOptions } from './sync/pull';
 export { pushWorkflows, type PushOptions } from './sync/push';
+export {
+  getWorkflowDir,
+  getConnectionDir,
+  getLayoutPath,
+  moveWorkflowDir,
+  readWorkflowFile,
+} from './sync/files';
+export { RemoteSnapshot } from './sync/remote';
+export { migrateLayout, type LayoutMove } from './sync/layout';
+export {
+  commitPulledWorkflows,
+  commitWorkflowFiles,
+  formatPullCommitMessage,
+  type PulledWorkflow,
+} from './sync/git';
+export {
+  findUntrackedWorkflows,
+  registerNewLocalWorkflows,
+  createDraftWorkflow,
+  markLocalDeletions,
+  findMovedWorkflows,
+  trackMovedWorkflows,
+  getPendingDeletions,
+  type UntrackedWorkflow,
+} from './sync/local';
 export {
   diffWorkflow,
   diffAllWorkflows,
   type WorkflowDiff,
-  type FieldChange,
+  type DiffOptions,
 } from './sync/diff';
+export {
+  diffConnections,
+  normalizeForEnvironment,
+  type DriftReport,
+  type DriftEntry,
+  type DriftOptions,
+} from './sync/drift';
+export {
+  promoteWorkflow,
+  type PromoteOptions,
+  type PromoteResult,
+  type CredentialMapping,
+} from './sync/promote';
+export { getWorkflowLinks, linkWorkflows } from './sync/links';
+export {
+  validateWorkflowText,
+  validateWorkflowFile,
+  validateLocalWorkflows,
+  formatValidationIssue,
+  WorkflowValidationError,
+  type ValidationIssue,
+  type ValidationResult,
+} from './sync/validate';
+export {
+  checkActivation,
+  activateRemoteWorkflow,
+  setWorkflowActivation,
+  ActivationError,
+  type ActivationOptions,
+} from './sync/activation';
+export {
+  formatLocalWorkflows,
+  type FormatResult,
+  type FormatOptions,
+} from './sync/format';
+export {
+  lintWorkflow,
+  lintWorkflowFile,
+  lintLocalWorkflows,
+  getLintRules,
+  listLintRules,
+  registerLintRule,
+  type LintRule,
+  type LintIssue,
+  type LintResult,
+  type LintSeverity,
+} from './sync/lint';
+export { loadEnvironment, getEnvironmentPath, type Environment } from './sync/environment';
+export {
+  renderVariables,
+  extractVariables,
+  findPlaceholders,
+  getConnectionVariables,
+  type RenderResult,
+} from './sync/variables';
+export { compareWorkflows, type CompareOptions } from './sync/compare';
+export {
+  formatEdge,
+  getChangeValue,
+  applyChangeValue,
+  type FieldChange,
+  type ChangeKind,
+  type WorkflowEdge,
+} from './sync/changes';
+export {
+  getWorkflowHistory,
+  gcHistory,
+  type WorkflowVersion,
+  type HistoryGcOptions,
+  type HistoryGcResult,
+} from './sync/history';
+export {
+  mergeWorkflows,
+  type MergeResult,
+  type MergeConflict,
+} from './sync/merge';
+export { mergeWorkflowFiles, formatMergeConflict } from './sync/merge-driver';
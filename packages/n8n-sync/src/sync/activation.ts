@@ -0,0 +1,148 @@
+import { eq } from 'drizzle-orm';
+import { getDb, logger, schema, type Workflow } from '@flowsfarm/core';
+import { N8nApiError, type N8nClient } from '../client';
+import type { N8nWorkflow } from '../types';
+import { getWorkflowDir, writeBaseSnapshot, writeLocalWorkflowActive, writeWorkflowMeta } from './files';
+import { hashSyncedWorkflow } from './hashes';
+import { isTrigger } from './lint';
+import type { RemoteSnapshot } from './remote';
+
+// Triggers that only run when started by hand, which n8n does not activate
+const MANUAL_TRIGGER_TYPES = new Set(['n8n-nodes-base.manualTrigger']);
+
+export class ActivationError extends Error {
+  constructor(
+    public workflowName: string,
+    public active: boolean,
+    public issues: string[],
+    /** Remote ID of the workflow, which exists on n8n even though activation failed */
+    public workflowId?: string
+  ) {
+    super(`Cannot ${active ? 'activate' : 'deactivate'} ${workflowName}: ${issues.join('; ')}`);
+    this.name = 'ActivationError';
+  }
+}
+
+export interface ActivationOptions {
+  /** Skip the checks for trigger nodes and credentials */
+  force?: boolean;
+}
+
+/**
+ * Check that a workflow can be activated: it needs an enabled trigger node
+ * that n8n can start on its own, and every credential its nodes use must
+ * refer to a credential on n8n. Returns the problems found.
+ */
+export function checkActivation(workflow: N8nWorkflow): string[] {
+  const issues: string[] = [];
+  const nodes = (workflow.nodes ?? []).filter((node) => !node.disabled);
+
+  if (!nodes.some((node) => isTrigger(node) && !MANUAL_TRIGGER_TYPES.has(node.type))) {
+    issues.push('no enabled trigger node other than a manual trigger');
+  }
+
+  for (const node of nodes) {
+    for (const [type, credential] of Object.entries(node.credentials ?? {})) {
+      const { id } = (credential ?? {}) as { id?: string | null };
+      if (!id) {
+        issues.push(`node "${node.name}" has no ${type} credential selected`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Activate or deactivate a workflow on n8n. Activation is checked first
+ * unless forced; checks that fail and errors from n8n throw an
+ * ActivationError. Returns the workflow as n8n has it afterwards.
+ */
+export async function activateRemoteWorkflow(
+  client: N8nClient,
+  workflow: N8nWorkflow,
+  active: boolean,
+  options: ActivationOptions = {}
+): Promise<N8nWorkflow> {
+  if (workflow.active === active) {
+    return workflow;
+  }
+
+  if (active && !options.force) {
+    const issues = checkActivation(workflow);
+    if (issues.length > 0) {
+      throw new ActivationError(workflow.name, active, issues, workflow.id);
+    }
+  }
+
+  try {
+    return await client.setWorkflowActive(workflow.id, active);
+  } catch (error) {
+    if (error instanceof N8nApiError) {
+      throw new ActivationError(workflow.name, active, [describeApiError(error)], workflow.id);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Activate or deactivate a tracked workflow on n8n and record the new state
+ * locally: in the database, in workflow.json and meta.json, and in the
+ * last-synced version when the remote has no other unpulled changes.
+ */
+export async function setWorkflowActivation(
+  client: N8nClient,
+  remote: RemoteSnapshot,
+  workflow: Workflow,
+  active: boolean,
+  options: ActivationOptions = {}
+): Promise<N8nWorkflow> {
+  const before = await remote.fetch(workflow.remoteId);
+  const after = await activateRemoteWorkflow(client, before, active, options);
+
+  remote.set(after);
+  recordActivation(workflow, before, after);
+  writeLocalWorkflowActive(getWorkflowDir(workflow), after.active);
+
+  return after;
+}
+
+/**
+ * Record the activation state of a tracked workflow after it changed on n8n.
+ * `before` is the remote version it was changed from.
+ */
+export function recordActivation(workflow: Workflow, before: N8nWorkflow, after: N8nWorkflow): void {
+  const workflowDir = getWorkflowDir(workflow);
+  const update: Partial<Workflow> = { active: after.active };
+
+  // Only the activation changed since the last sync, so `after` is synced too
+  if (hashSyncedWorkflow(before) === workflow.contentHash) {
+    update.contentHash = hashSyncedWorkflow(after);
+    update.remoteUpdatedAt = new Date(after.updatedAt);
+    writeBaseSnapshot(workflowDir, after);
+    writeWorkflowMeta(workflowDir, after, workflow.connectionId);
+  }
+
+  getDb()
+    .update(schema.workflows)
+    .set(update)
+    .where(eq(schema.workflows.id, workflow.id))
+    .run();
+
+  if (before.active !== after.active) {
+    logger.info(`${after.active ? 'Activated' : 'Deactivated'} workflow: ${workflow.name}`);
+  }
+}
+
+// n8n puts the reason in the message of the JSON response body
+function describeApiError(error: N8nApiError): string {
+  try {
+    const body = JSON.parse(error.responseBody) as { message?: unknown };
+    if (typeof body.message === 'string' && body.message) {
+      return body.message;
+    }
+  } catch {
+    // Not JSON
+  }
+  return error.message;
+}
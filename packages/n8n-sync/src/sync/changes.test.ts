@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { N8nWorkflow } from '../types';
+import { applyChangeValue, formatEdge, getChangeValue, type FieldChange } from './changes';
+
+// Two data sources joined by a Merge node on its two inputs
+const enrichment: N8nWorkflow = {
+  id: 'enrich',
+  name: 'Customer enrichment',
+  active: false,
+  nodes: [
+    { id: 'c1', name: 'Customers', type: 'n8n-nodes-base.postgres', position: [0, 0], parameters: {} },
+    { id: 'c2', name: 'Clearbit', type: 'n8n-nodes-base.clearbit', position: [0, 200], parameters: {} },
+    {
+      id: 'c3',
+      name: 'Join',
+      type: 'n8n-nodes-base.merge',
+      position: [220, 100],
+      parameters: { mode: 'combine', joinMode: 'keepMatches' },
+    },
+  ],
+  connections: {
+    Customers: { main: [[{ node: 'Join', type: 'main', index: 0 }]] },
+    Clearbit: { main: [[{ node: 'Join', type: 'main', index: 1 }]] },
+  },
+  createdAt: '2024-04-02T12:00:00.000Z',
+  updatedAt: '2024-04-02T12:00:00.000Z',
+};
+
+const secondInput = { from: 'c2', output: 'main', outputIndex: 0, to: 'c3', input: 'main', inputIndex: 1 };
+
+describe('formatEdge', () => {
+  it('leaves out the input when it is the first one of the output type', () => {
+    expect(formatEdge('Customers', { ...secondInput, from: 'c1', inputIndex: 0 }, 'Join')).toBe(
+      'Customers --main[0]--> Join'
+    );
+  });
+
+  it('shows any other input', () => {
+    expect(formatEdge('Clearbit', secondInput, 'Join')).toBe('Clearbit --main[0]--> Join (main[1])');
+  });
+});
+
+describe('getChangeValue', () => {
+  it('reads a node parameter', () => {
+    const change: FieldChange = {
+      path: 'node "Join".parameters.joinMode',
+      type: 'modified',
+      kind: 'parameter',
+      nodeId: 'c3',
+      keys: ['parameters', 'joinMode'],
+    };
+
+    expect(getChangeValue(enrichment, change)).toBe('keepMatches');
+  });
+
+  it('reads an edge by the current names of its nodes', () => {
+    const renamed: N8nWorkflow = {
+      ...enrichment,
+      nodes: enrichment.nodes.map((n) => (n.id === 'c2' ? { ...n, name: 'Company data' } : n)),
+      connections: {
+        Customers: enrichment.connections.Customers,
+        'Company data': enrichment.connections.Clearbit,
+      },
+    };
+    const change: FieldChange = { path: '', type: 'added', kind: 'edge', edge: secondInput };
+
+    expect(getChangeValue(renamed, change)).toBe('Company data --main[0]--> Join (main[1])');
+    expect(getChangeValue({ ...enrichment, connections: {} }, change)).toBeUndefined();
+  });
+});
+
+describe('applyChangeValue', () => {
+  it('sets and removes a node parameter on a copy', () => {
+    const change: FieldChange = {
+      path: 'node "Join".parameters.joinMode',
+      type: 'modified',
+      kind: 'parameter',
+      nodeId: 'c3',
+      keys: ['parameters', 'joinMode'],
+    };
+
+    const updated = applyChangeValue(enrichment, change, 'keepEverything');
+    const removed = applyChangeValue(enrichment, change, undefined);
+
+    expect(updated.nodes[2].parameters).toEqual({ mode: 'combine', joinMode: 'keepEverything' });
+    expect(removed.nodes[2].parameters).toEqual({ mode: 'combine' });
+    expect(enrichment.nodes[2].parameters?.joinMode).toBe('keepMatches');
+  });
+
+  it('connects and disconnects an edge', () => {
+    const change: FieldChange = { path: '', type: 'removed', kind: 'edge', edge: secondInput };
+
+    const disconnected = applyChangeValue(enrichment, change, undefined);
+    const reconnected = applyChangeValue(disconnected, change, 'Clearbit --main[0]--> Join (main[1])');
+
+    expect(disconnected.connections.Clearbit).toEqual({ main: [[]] });
+    expect(reconnected.connections).toEqual(enrichment.connections);
+  });
+});
@@ -0,0 +1,187 @@
+import type { N8nNode, N8nWorkflow } from '../types';
+
+export type ChangeKind =
+  | 'workflow'
+  | 'setting'
+  | 'node'
+  | 'rename'
+  | 'type'
+  | 'credential'
+  | 'parameter'
+  | 'property'
+  | 'position'
+  | 'edge';
+
+export interface FieldChange {
+  path: string;
+  /**
+   * What the change did, from the point of view of the side that made it.
+   * Without a base, changes are described as local edits to the remote.
+   */
+  type: 'added' | 'removed' | 'modified';
+  kind: ChangeKind;
+  /** Side that made the change, known when compared against the last-synced base */
+  side?: 'local' | 'remote' | 'both';
+  localValue?: unknown;
+  remoteValue?: unknown;
+  /** Node the change applies to (id, or name for nodes without one) */
+  nodeId?: string;
+  /** Property path within the node (or workflow); empty for whole-node changes */
+  keys?: string[];
+  /** Connection added or removed, for edge changes */
+  edge?: WorkflowEdge;
+}
+
+/**
+ * A single connection between two nodes. Nodes are referenced by id
+ * (or name for nodes without one), so renaming a node keeps its edges.
+ */
+export interface WorkflowEdge {
+  from: string;
+  output: string;
+  outputIndex: number;
+  to: string;
+  input: string;
+  inputIndex: number;
+}
+
+/**
+ * Format an edge as `A --main[0]--> B`, with the input index when it is not the first.
+ */
+export function formatEdge(fromName: string, edge: WorkflowEdge, toName: string): string {
+  const input =
+    edge.input !== edge.output || edge.inputIndex !== 0 ? ` (${edge.input}[${edge.inputIndex}])` : '';
+  return `${fromName} --${edge.output}[${edge.outputIndex}]--> ${toName}${input}`;
+}
+
+function findNode(workflow: N8nWorkflow, nodeId: string): N8nNode | undefined {
+  return workflow.nodes.find((n) => (n.id || n.name) === nodeId);
+}
+
+function nodeName(workflow: N8nWorkflow, nodeId: string): string {
+  return findNode(workflow, nodeId)?.name ?? nodeId;
+}
+
+/**
+ * The targets of an edge's output slot, created when missing.
+ */
+function getEdgeTargets(workflow: N8nWorkflow, edge: WorkflowEdge) {
+  const outputs = (workflow.connections[nodeName(workflow, edge.from)] ??= {});
+  const slots = (outputs[edge.output] ??= []);
+  while (slots.length <= edge.outputIndex) {
+    slots.push([]);
+  }
+  return (slots[edge.outputIndex] ??= []);
+}
+
+function findEdgeIndex(workflow: N8nWorkflow, edge: WorkflowEdge): number {
+  const targets =
+    workflow.connections?.[nodeName(workflow, edge.from)]?.[edge.output]?.[edge.outputIndex] ?? [];
+  const to = nodeName(workflow, edge.to);
+  return targets.findIndex(
+    (t) => t.node === to && t.type === edge.input && t.index === edge.inputIndex
+  );
+}
+
+function getIn(target: unknown, keys: string[]): unknown {
+  let current = target;
+  for (const key of keys) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function setIn(target: Record<string, unknown>, keys: string[], value: unknown): void {
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    if (current[key] === null || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+
+  const last = keys[keys.length - 1];
+  if (value === undefined) {
+    delete current[last];
+  } else {
+    current[last] = value;
+  }
+}
+
+/**
+ * Get the value a workflow holds at the location of a change.
+ * Returns undefined when the value (or node) does not exist.
+ */
+export function getChangeValue(workflow: N8nWorkflow, change: FieldChange): unknown {
+  if (change.edge) {
+    const { edge } = change;
+    return findEdgeIndex(workflow, edge) >= 0
+      ? formatEdge(nodeName(workflow, edge.from), edge, nodeName(workflow, edge.to))
+      : undefined;
+  }
+
+  const keys = change.keys ?? [change.path];
+
+  if (change.nodeId === undefined) {
+    return getIn(workflow, keys);
+  }
+
+  const node = findNode(workflow, change.nodeId);
+  return keys.length === 0 ? node : getIn(node, keys);
+}
+
+/**
+ * Return a copy of the workflow with the value at the location of a change replaced.
+ * An undefined value removes the field (or node).
+ */
+export function applyChangeValue(
+  workflow: N8nWorkflow,
+  change: FieldChange,
+  value: unknown
+): N8nWorkflow {
+  const result = structuredClone(workflow);
+  const keys = change.keys ?? [change.path];
+
+  if (change.edge) {
+    // Connect or disconnect the edge
+    const index = findEdgeIndex(result, change.edge);
+    if (value === undefined && index >= 0) {
+      getEdgeTargets(result, change.edge).splice(index, 1);
+    } else if (value !== undefined && index < 0) {
+      result.connections ??= {};
+      getEdgeTargets(result, change.edge).push({
+        node: nodeName(result, change.edge.to),
+        type: change.edge.input,
+        index: change.edge.inputIndex,
+      });
+    }
+    return result;
+  }
+
+  if (change.nodeId === undefined) {
+    setIn(result as unknown as Record<string, unknown>, keys, value);
+    return result;
+  }
+
+  const index = result.nodes.findIndex((n) => (n.id || n.name) === change.nodeId);
+
+  if (keys.length === 0) {
+    // Whole node added or removed
+    if (value === undefined) {
+      if (index >= 0) result.nodes.splice(index, 1);
+    } else if (index >= 0) {
+      result.nodes[index] = value as N8nNode;
+    } else {
+      result.nodes.push(value as N8nNode);
+    }
+    return result;
+  }
+
+  if (index >= 0) {
+    setIn(result.nodes[index] as unknown as Record<string, unknown>, keys, value);
+  }
+  return result;
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import type { N8nNode, N8nWorkflow } from '../types';
+import { compareWorkflows } from './compare';
+
+// Inbound leads are scored, hot ones go to sales and the rest to a nurture list
+const trigger: N8nNode = {
+  id: 'a1',
+  name: 'New lead',
+  type: 'n8n-nodes-base.hubspotTrigger',
+  typeVersion: 1,
+  position: [0, 0],
+  parameters: { eventsUi: { eventValues: [{ name: 'contact.creation' }] } },
+};
+const score: N8nNode = {
+  id: 'a2',
+  name: 'Score',
+  type: 'n8n-nodes-base.code',
+  typeVersion: 2,
+  position: [220, 0],
+  parameters: { jsCode: 'return items.map(scoreLead);' },
+};
+const isHot: N8nNode = {
+  id: 'a3',
+  name: 'Is hot?',
+  type: 'n8n-nodes-base.if',
+  typeVersion: 2,
+  position: [440, 0],
+  parameters: { conditions: { number: [{ value1: '={{ $json.score }}', operation: 'larger', value2: 80 }] } },
+};
+const notifySales: N8nNode = {
+  id: 'a4',
+  name: 'Notify sales',
+  type: 'n8n-nodes-base.slack',
+  typeVersion: 2,
+  position: [660, -100],
+  parameters: { channel: '#sales' },
+  credentials: { slackApi: { id: '7', name: 'Sales Slack' } },
+};
+
+const leads: N8nWorkflow = {
+  id: 'leads',
+  name: 'Lead scoring',
+  active: true,
+  nodes: [trigger, score, isHot, notifySales],
+  connections: {
+    'New lead': { main: [[{ node: 'Score', type: 'main', index: 0 }]] },
+    Score: { main: [[{ node: 'Is hot?', type: 'main', index: 0 }]] },
+    'Is hot?': { main: [[{ node: 'Notify sales', type: 'main', index: 0 }], []] },
+  },
+  settings: { executionOrder: 'v1' },
+  createdAt: '2024-02-10T09:00:00.000Z',
+  updatedAt: '2024-02-12T16:30:00.000Z',
+};
+
+// The false branch of "Is hot?" adds the lead to a nurture list
+const nurture: N8nNode = {
+  id: 'a5',
+  name: 'Add to nurture',
+  type: 'n8n-nodes-base.mailchimp',
+  typeVersion: 1,
+  position: [660, 100],
+  parameters: { list: 'nurture' },
+};
+const withNurture: N8nWorkflow = {
+  ...leads,
+  nodes: [...leads.nodes, nurture],
+  connections: {
+    ...leads.connections,
+    'Is hot?': {
+      main: [
+        [{ node: 'Notify sales', type: 'main', index: 0 }],
+        [{ node: 'Add to nurture', type: 'main', index: 0 }],
+      ],
+    },
+  },
+};
+
+const withThreshold = (threshold: number): N8nWorkflow => ({
+  ...leads,
+  nodes: [
+    trigger,
+    score,
+    {
+      ...isHot,
+      parameters: {
+        conditions: {
+          number: [{ value1: '={{ $json.score }}', operation: 'larger', value2: threshold }],
+        },
+      },
+    },
+    notifySales,
+  ],
+});
+
+describe('compareWorkflows', () => {
+  it('finds no changes between equal workflows', () => {
+    expect(compareWorkflows(leads, structuredClone(leads))).toEqual([]);
+  });
+
+  it('reports a nested parameter change down to the leaf', () => {
+    expect(compareWorkflows(withThreshold(60), leads)).toEqual([
+      {
+        path: 'node "Is hot?".parameters.conditions.number[0].value2',
+        type: 'modified',
+        kind: 'parameter',
+        nodeId: 'a3',
+        keys: ['parameters', 'conditions', 'number', '0', 'value2'],
+        localValue: 60,
+        remoteValue: 80,
+      },
+    ]);
+  });
+
+  it('reports an added branch as a node and an edge from its output', () => {
+    expect(compareWorkflows(withNurture, leads).map((c) => [c.type, c.kind, c.path])).toEqual([
+      ['added', 'node', 'node "Add to nurture"'],
+      ['added', 'edge', 'Is hot? --main[1]--> Add to nurture'],
+    ]);
+    expect(compareWorkflows(leads, withNurture).map((c) => [c.type, c.path])).toEqual([
+      ['removed', 'node "Add to nurture"'],
+      ['removed', 'Is hot? --main[1]--> Add to nurture'],
+    ]);
+  });
+
+  it('reports a renamed node without changing its edges', () => {
+    const renamed: N8nWorkflow = {
+      ...leads,
+      nodes: [trigger, score, { ...isHot, name: 'Score above 80?' }, notifySales],
+      // n8n renames the node in the connections too
+      connections: {
+        'New lead': leads.connections['New lead'],
+        Score: { main: [[{ node: 'Score above 80?', type: 'main', index: 0 }]] },
+        'Score above 80?': leads.connections['Is hot?'],
+      },
+    };
+
+    expect(compareWorkflows(renamed, leads).map((c) => [c.kind, c.path])).toEqual([
+      ['rename', 'node "Score above 80?".name'],
+    ]);
+  });
+
+  it('reports credential, type version and setting changes by kind', () => {
+    const changed: N8nWorkflow = {
+      ...leads,
+      active: false,
+      nodes: [
+        trigger,
+        { ...score, typeVersion: 3 },
+        isHot,
+        { ...notifySales, credentials: { slackApi: { id: '9', name: 'Sales Slack (new)' } } },
+      ],
+      settings: { executionOrder: 'v1', timezone: 'Europe/Berlin' },
+    };
+
+    expect(compareWorkflows(changed, leads).map((c) => [c.kind, c.path])).toEqual([
+      ['workflow', 'active'],
+      ['setting', 'settings.timezone'],
+      ['type', 'node "Score".typeVersion'],
+      ['credential', 'node "Notify sales".credentials.slackApi'],
+    ]);
+  });
+
+  it('only reports node positions with the layout option', () => {
+    const moved: N8nWorkflow = {
+      ...leads,
+      nodes: [trigger, score, isHot, { ...notifySales, position: [660, -200] }],
+    };
+
+    expect(compareWorkflows(moved, leads)).toEqual([]);
+    expect(compareWorkflows(moved, leads, { layout: true }).map((c) => c.path)).toEqual([
+      'node "Notify sales".position',
+    ]);
+  });
+
+  it('tells which side made each change when given the last-synced base', () => {
+    const local = withNurture;
+    const remote = withThreshold(70);
+
+    const changes = compareWorkflows(local, remote, { base: leads });
+
+    expect(changes.map((c) => [c.side, c.type, c.path])).toEqual([
+      ['remote', 'modified', 'node "Is hot?".parameters.conditions.number[0].value2'],
+      ['local', 'added', 'node "Add to nurture"'],
+      ['local', 'added', 'Is hot? --main[1]--> Add to nurture'],
+    ]);
+  });
+
+  it('reports a value changed differently on both sides', () => {
+    const changes = compareWorkflows(withThreshold(60), withThreshold(90), { base: leads });
+
+    expect(changes).toMatchObject([{ side: 'both', localValue: 60, remoteValue: 90 }]);
+  });
+});
@@ -0,0 +1,294 @@
+import { sortObjectKeys } from '@flowsfarm/core';
+import type { N8nNode, N8nWorkflow } from '../types';
+import {
+  formatEdge,
+  getChangeValue,
+  type ChangeKind,
+  type FieldChange,
+  type WorkflowEdge,
+} from './changes';
+
+export interface CompareOptions {
+  /** Last-synced version, used to tell which side made each change */
+  base?: N8nWorkflow | null;
+  /** Report node position changes */
+  layout?: boolean;
+}
+
+type ChangeLocation = Omit<FieldChange, 'type' | 'localValue' | 'remoteValue'>;
+
+// Node fields compared on their own; other fields are compared as properties
+const NODE_FIELDS = new Set(['id', 'name', 'type', 'typeVersion', 'credentials', 'parameters', 'position']);
+
+/**
+ * Structural comparison of two versions of a workflow: workflow fields,
+ * settings, nodes (matched by id) with nested parameters, and connections
+ * edge by edge.
+ */
+export function compareWorkflows(
+  localWorkflow: N8nWorkflow,
+  remoteWorkflow: N8nWorkflow,
+  options: CompareOptions = {}
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of ['name', 'active'] as const) {
+    addChange(changes, localWorkflow[field], remoteWorkflow[field], {
+      path: field,
+      kind: 'workflow',
+      keys: [field],
+    });
+  }
+
+  compareTree(changes, localWorkflow.settings ?? {}, remoteWorkflow.settings ?? {}, {
+    path: 'settings',
+    kind: 'setting',
+    keys: ['settings'],
+  });
+
+  compareNodes(changes, localWorkflow.nodes ?? [], remoteWorkflow.nodes ?? [], options);
+  compareEdges(changes, localWorkflow, remoteWorkflow);
+
+  if (options.base) {
+    for (const change of changes) {
+      assignSide(change, options.base);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * List the edges of a workflow, keyed by their endpoints.
+ */
+export function listEdges(
+  workflow: N8nWorkflow
+): Map<string, { edge: WorkflowEdge; label: string }> {
+  const keysByName = new Map((workflow.nodes ?? []).map((n) => [n.name, nodeKey(n)]));
+  const edges = new Map<string, { edge: WorkflowEdge; label: string }>();
+
+  for (const [source, outputs] of Object.entries(workflow.connections ?? {})) {
+    for (const [output, slots] of Object.entries(outputs ?? {})) {
+      (slots ?? []).forEach((targets, outputIndex) => {
+        for (const target of targets ?? []) {
+          const edge: WorkflowEdge = {
+            from: keysByName.get(source) ?? source,
+            output,
+            outputIndex,
+            to: keysByName.get(target.node) ?? target.node,
+            input: target.type,
+            inputIndex: target.index,
+          };
+          edges.set(edgeKey(edge), { edge, label: formatEdge(source, edge, target.node) });
+        }
+      });
+    }
+  }
+
+  return edges;
+}
+
+function nodeKey(node: N8nNode): string {
+  return node.id || node.name;
+}
+
+function edgeKey(edge: WorkflowEdge): string {
+  return JSON.stringify([edge.from, edge.output, edge.outputIndex, edge.to, edge.input, edge.inputIndex]);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(sortObjectKeys(a)) === JSON.stringify(sortObjectKeys(b));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Append a property to a JSON path, quoting keys that are not identifiers.
+ */
+function joinPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function addChange(
+  changes: FieldChange[],
+  localValue: unknown,
+  remoteValue: unknown,
+  location: ChangeLocation
+): void {
+  if (isEqual(localValue, remoteValue)) {
+    return;
+  }
+
+  const type =
+    remoteValue === undefined ? 'added' : localValue === undefined ? 'removed' : 'modified';
+  changes.push({ ...location, type, localValue, remoteValue });
+}
+
+/**
+ * Compare nested values down to the leaves that differ. Arrays are compared
+ * item by item when both have the same length, otherwise as a whole.
+ */
+function compareTree(
+  changes: FieldChange[],
+  localValue: unknown,
+  remoteValue: unknown,
+  location: ChangeLocation
+): void {
+  const keys = location.keys ?? [];
+
+  if (isPlainObject(localValue) && isPlainObject(remoteValue)) {
+    const allKeys = new Set([...Object.keys(localValue), ...Object.keys(remoteValue)]);
+    for (const key of allKeys) {
+      compareTree(changes, localValue[key], remoteValue[key], {
+        ...location,
+        path: joinPath(location.path, key),
+        keys: [...keys, key],
+      });
+    }
+    return;
+  }
+
+  if (
+    Array.isArray(localValue) &&
+    Array.isArray(remoteValue) &&
+    localValue.length === remoteValue.length
+  ) {
+    localValue.forEach((item, index) => {
+      compareTree(changes, item, remoteValue[index], {
+        ...location,
+        path: `${location.path}[${index}]`,
+        keys: [...keys, String(index)],
+      });
+    });
+    return;
+  }
+
+  addChange(changes, localValue, remoteValue, location);
+}
+
+function compareNodes(
+  changes: FieldChange[],
+  localNodes: N8nNode[],
+  remoteNodes: N8nNode[],
+  options: CompareOptions
+): void {
+  const localMap = new Map(localNodes.map((n) => [nodeKey(n), n]));
+  const remoteMap = new Map(remoteNodes.map((n) => [nodeKey(n), n]));
+
+  for (const [nodeId, localNode] of localMap) {
+    const remoteNode = remoteMap.get(nodeId);
+    const label = `node "${localNode.name}"`;
+
+    if (!remoteNode) {
+      changes.push({
+        path: label,
+        type: 'added',
+        kind: 'node',
+        localValue: localNode,
+        nodeId,
+        keys: [],
+      });
+      continue;
+    }
+
+    const at = (kind: ChangeKind, keys: string[]): ChangeLocation => ({
+      path: keys.reduce(joinPath, label),
+      kind,
+      nodeId,
+      keys,
+    });
+
+    addChange(changes, localNode.name, remoteNode.name, at('rename', ['name']));
+    addChange(changes, localNode.type, remoteNode.type, at('type', ['type']));
+    addChange(changes, localNode.typeVersion, remoteNode.typeVersion, at('type', ['typeVersion']));
+
+    // Credential references, one change per credential type
+    const localCredentials = localNode.credentials ?? {};
+    const remoteCredentials = remoteNode.credentials ?? {};
+    for (const type of new Set([...Object.keys(localCredentials), ...Object.keys(remoteCredentials)])) {
+      addChange(
+        changes,
+        localCredentials[type],
+        remoteCredentials[type],
+        at('credential', ['credentials', type])
+      );
+    }
+
+    compareTree(changes, localNode.parameters ?? {}, remoteNode.parameters ?? {}, at('parameter', ['parameters']));
+
+    // Moving nodes around the canvas does not change what the workflow does
+    if (options.layout) {
+      addChange(changes, localNode.position, remoteNode.position, at('position', ['position']));
+    }
+
+    const local = localNode as Record<string, unknown>;
+    const remote = remoteNode as Record<string, unknown>;
+    for (const key of new Set([...Object.keys(local), ...Object.keys(remote)])) {
+      if (!NODE_FIELDS.has(key)) {
+        compareTree(changes, local[key], remote[key], at('property', [key]));
+      }
+    }
+  }
+
+  for (const [nodeId, remoteNode] of remoteMap) {
+    if (!localMap.has(nodeId)) {
+      changes.push({
+        path: `node "${remoteNode.name}"`,
+        type: 'removed',
+        kind: 'node',
+        remoteValue: remoteNode,
+        nodeId,
+        keys: [],
+      });
+    }
+  }
+}
+
+function compareEdges(
+  changes: FieldChange[],
+  localWorkflow: N8nWorkflow,
+  remoteWorkflow: N8nWorkflow
+): void {
+  const localEdges = listEdges(localWorkflow);
+  const remoteEdges = listEdges(remoteWorkflow);
+
+  for (const [key, { edge, label }] of localEdges) {
+    if (!remoteEdges.has(key)) {
+      changes.push({ path: label, type: 'added', kind: 'edge', localValue: label, edge });
+    }
+  }
+
+  for (const [key, { edge, label }] of remoteEdges) {
+    if (!localEdges.has(key)) {
+      changes.push({ path: label, type: 'removed', kind: 'edge', remoteValue: label, edge });
+    }
+  }
+}
+
+/**
+ * Tell which side made a change by comparing both values with the base,
+ * and describe the change from that side's point of view.
+ */
+function assignSide(change: FieldChange, base: N8nWorkflow): void {
+  const baseValue = getChangeValue(base, change);
+
+  // Edge labels use node names, which may have changed; only presence matters
+  const matchesLocal = change.edge
+    ? (baseValue !== undefined) === (change.localValue !== undefined)
+    : isEqual(baseValue, change.localValue);
+  const matchesRemote = change.edge
+    ? (baseValue !== undefined) === (change.remoteValue !== undefined)
+    : isEqual(baseValue, change.remoteValue);
+
+  if (matchesLocal) {
+    change.side = 'remote';
+    if (change.type === 'added') change.type = 'removed';
+    else if (change.type === 'removed') change.type = 'added';
+  } else if (matchesRemote) {
+    change.side = 'local';
+  } else {
+    change.side = 'both';
+  }
+}
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FakeN8n, createTestProject, type TestProject } from '../testing';
+import type { N8nWorkflow } from '../types';
+import { diffConnections } from './drift';
+import { linkWorkflows } from './links';
+
+// A payment webhook that reports its failures through an alerting workflow
+const alerting: Pick<N8nWorkflow, 'name' | 'nodes'> = {
+  name: 'Alert on-call',
+  nodes: [
+    { name: 'Error Trigger', type: 'n8n-nodes-base.errorTrigger', position: [0, 0], parameters: {} },
+  ],
+};
+
+const payments = (errorWorkflow: string): Pick<N8nWorkflow, 'name' | 'nodes' | 'settings'> => ({
+  name: 'Payment webhook',
+  nodes: [
+    {
+      name: 'Stripe event',
+      type: 'n8n-nodes-base.stripeTrigger',
+      position: [0, 0],
+      parameters: { events: ['charge.failed'] },
+    },
+  ],
+  settings: { errorWorkflow },
+});
+
+describe('diffConnections', () => {
+  let staging: FakeN8n;
+  let production: FakeN8n;
+  let project: TestProject;
+  let productionId: string;
+
+  beforeEach(async () => {
+    staging = new FakeN8n();
+    production = new FakeN8n();
+    project = await createTestProject(staging);
+    productionId = await project.addInstance('production', production);
+
+    // Created in a different order, so the alerting workflow has another ID on production
+    production.add({ name: 'Old alerting' });
+  });
+
+  afterEach(() => {
+    project.cleanup();
+  });
+
+  const drift = async () => {
+    const report = await diffConnections(project.connectionId, productionId, {
+      workflow: 'Payment webhook',
+    });
+    return report.workflows[0];
+  };
+
+  it('compares error workflows linked between the instances by their ID on the target', async () => {
+    const stagingAlerting = staging.add(alerting);
+    const productionAlerting = production.add(alerting);
+    staging.add(payments(stagingAlerting.id));
+    production.add(payments(productionAlerting.id));
+    linkWorkflows(project.connectionId, stagingAlerting.id, productionId, productionAlerting.id);
+
+    expect(stagingAlerting.id).not.toBe(productionAlerting.id);
+    expect(await drift()).toMatchObject({ status: 'identical', changes: [] });
+  });
+
+  it('reports an error workflow that points elsewhere on the target', async () => {
+    const stagingAlerting = staging.add(alerting);
+    const productionAlerting = production.add(alerting);
+    staging.add(payments(stagingAlerting.id));
+    production.add(payments('wf1'));
+    linkWorkflows(project.connectionId, stagingAlerting.id, productionId, productionAlerting.id);
+
+    expect(await drift()).toMatchObject({
+      status: 'different',
+      changes: [{ path: 'settings.errorWorkflow', localValue: 'wf1', remoteValue: productionAlerting.id }],
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { eq } from 'drizzle-orm';
+import { getDb, schema } from '@flowsfarm/core';
+import { createClient } from '../connection';
+import type { N8nWorkflow } from '../types';
+import { RemoteSnapshot } from './remote';
+import type { FieldChange } from './changes';
+import { compareWorkflows } from './compare';
+import { getWorkflowLinks } from './links';
+import { loadEnvironment } from './environment';
+import { extractVariables } from './variables';
+
+type CredentialRef = { id?: string; name?: string };
+
+export interface DriftEntry {
+  /** Workflow name on the "from" connection, or the "to" connection if only there */
+  name: string;
+  status: 'only_from' | 'only_to' | 'different' | 'identical';
+  fromId?: string;
+  toId?: string;
+  matchedBy?: 'link' | 'name';
+  /** Changes from the "from" version to the "to" version */
+  changes: FieldChange[];
+}
+
+export interface DriftReport {
+  from: { id: string; name: string };
+  to: { id: string; name: string };
+  workflows: DriftEntry[];
+}
+
+export interface DriftOptions {
+  /** Only compare workflows with this name or remote ID */
+  workflow?: string;
+  /** Report node position changes */
+  layout?: boolean;
+}
+
+// Replaces the instance URL in parameters so it does not count as a difference
+const INSTANCE_URL = '{{instanceUrl}}';
+
+/**
+ * Compare the workflows of two n8n instances. Workflows are matched by a
+ * stored link, otherwise by name; fields that differ per environment
+ * (credential IDs, webhook IDs, instance URLs, variable values, error
+ * workflow IDs) are ignored.
+ */
+export async function diffConnections(
+  fromConnectionId: string,
+  toConnectionId: string,
+  options: DriftOptions = {}
+): Promise<DriftReport> {
+  const from = getConnectionRow(fromConnectionId);
+  const to = getConnectionRow(toConnectionId);
+
+  const [fromWorkflows, toWorkflows] = await Promise.all([
+    new RemoteSnapshot(createClient(from)).list(),
+    new RemoteSnapshot(createClient(to)).list(),
+  ]);
+
+  // Credentials mapped in the target's environment file match by target ID, others by name
+  const fromEnvironment = loadEnvironment(from.name);
+  const toEnvironment = loadEnvironment(to.name);
+  const mapped = toEnvironment.credentials;
+  const mappedIds = new Set(Object.values(mapped).map((c) => (typeof c === 'string' ? c : c.id)));
+  const fromCredential = ({ id, name }: CredentialRef) => {
+    const target = (name !== undefined && mapped[name]) || (id !== undefined && mapped[id]);
+    return target ? { id: typeof target === 'string' ? target : target.id } : { name };
+  };
+  const toCredential = ({ id, name }: CredentialRef) =>
+    id !== undefined && mappedIds.has(id) ? { id } : { name };
+
+  // Error workflows are set by ID, so a linked one is compared by its ID on the target
+  const links = getWorkflowLinks(from.id, to.id);
+  const fromWorkflowId = (id: string) => links.get(id) ?? id;
+
+  const pairs = matchWorkflows(fromWorkflows, toWorkflows, links);
+
+  const workflows: DriftEntry[] = pairs
+    .filter(({ fromWorkflow, toWorkflow }) => {
+      if (!options.workflow) return true;
+      return [fromWorkflow, toWorkflow].some(
+        (w) => w && (w.id === options.workflow || w.name === options.workflow)
+      );
+    })
+    .map(({ fromWorkflow, toWorkflow, matchedBy }) => {
+      if (!toWorkflow) {
+        return { name: fromWorkflow!.name, status: 'only_from', fromId: fromWorkflow!.id, changes: [] };
+      }
+      if (!fromWorkflow) {
+        return { name: toWorkflow.name, status: 'only_to', toId: toWorkflow.id, changes: [] };
+      }
+
+      const changes = compareWorkflows(
+        normalizeForEnvironment(
+          extractVariables(toWorkflow, toEnvironment.variables),
+          to.baseUrl,
+          toCredential
+        ),
+        normalizeForEnvironment(
+          extractVariables(fromWorkflow, fromEnvironment.variables),
+          from.baseUrl,
+          fromCredential,
+          fromWorkflowId
+        ),
+        { layout: options.layout }
+      );
+
+      return {
+        name: fromWorkflow.name,
+        status: changes.length > 0 ? 'different' : 'identical',
+        fromId: fromWorkflow.id,
+        toId: toWorkflow.id,
+        matchedBy,
+        changes,
+      };
+    });
+
+  return {
+    from: { id: from.id, name: from.name },
+    to: { id: to.id, name: to.name },
+    workflows,
+  };
+}
+
+/**
+ * Strip the fields of a workflow that differ between environments.
+ */
+export function normalizeForEnvironment(
+  workflow: N8nWorkflow,
+  baseUrl: string,
+  normalizeCredential: (credential: CredentialRef) => CredentialRef = ({ name }) => ({ name }),
+  normalizeWorkflowId: (id: string) => string = (id) => id
+): N8nWorkflow {
+  const errorWorkflow = workflow.settings?.errorWorkflow;
+
+  return {
+    ...workflow,
+    settings: errorWorkflow
+      ? { ...workflow.settings, errorWorkflow: normalizeWorkflowId(errorWorkflow) }
+      : workflow.settings,
+    nodes: (workflow.nodes ?? []).map((node) => {
+      const { webhookId: _webhookId, ...rest } = node as typeof node & { webhookId?: string };
+
+      return {
+        ...rest,
+        parameters:
+          node.parameters &&
+          (replaceInstanceUrl(node.parameters, baseUrl, INSTANCE_URL) as Record<string, unknown>),
+        // Credential IDs differ per instance, compare by name by default
+        credentials:
+          node.credentials &&
+          Object.fromEntries(
+            Object.entries(node.credentials).map(([type, credential]) => [
+              type,
+              normalizeCredential((credential ?? {}) as CredentialRef),
+            ])
+          ),
+      };
+    }),
+  };
+}
+
+/**
+ * Replace an instance URL in all strings of a value.
+ */
+export function replaceInstanceUrl(value: unknown, baseUrl: string, replacement: string): unknown {
+  const instanceUrl = baseUrl.replace(/\/+$/, '');
+
+  if (typeof value === 'string') {
+    return value.split(instanceUrl).join(replacement.replace(/\/+$/, ''));
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceInstanceUrl(item, baseUrl, replacement));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, replaceInstanceUrl(v, baseUrl, replacement)])
+    );
+  }
+  return value;
+}
+
+function getConnectionRow(connectionId: string) {
+  const connection = getDb()
+    .select()
+    .from(schema.connections)
+    .where(eq(schema.connections.id, connectionId))
+    .get();
+
+  if (!connection) {
+    throw new Error(`Connection not found: ${connectionId}`);
+  }
+
+  return connection;
+}
+
+/**
+ * Pair workflows by link first, then by name. Unpaired workflows exist on one side only.
+ */
+function matchWorkflows(
+  fromWorkflows: N8nWorkflow[],
+  toWorkflows: N8nWorkflow[],
+  links: Map<string, string>
+) {
+  const pairs: Array<{
+    fromWorkflow?: N8nWorkflow;
+    toWorkflow?: N8nWorkflow;
+    matchedBy?: 'link' | 'name';
+  }> = [];
+  const unmatchedTo = new Map(toWorkflows.map((w) => [w.id, w]));
+  const unmatchedFrom: N8nWorkflow[] = [];
+
+  for (const fromWorkflow of fromWorkflows) {
+    const linkedId = links.get(fromWorkflow.id);
+    const toWorkflow = linkedId ? unmatchedTo.get(linkedId) : undefined;
+
+    if (toWorkflow) {
+      unmatchedTo.delete(toWorkflow.id);
+      pairs.push({ fromWorkflow, toWorkflow, matchedBy: 'link' });
+    } else {
+      unmatchedFrom.push(fromWorkflow);
+    }
+  }
+
+  for (const fromWorkflow of unmatchedFrom) {
+    const toWorkflow = [...unmatchedTo.values()].find((w) => w.name === fromWorkflow.name);
+
+    if (toWorkflow) {
+      unmatchedTo.delete(toWorkflow.id);
+      pairs.push({ fromWorkflow, toWorkflow, matchedBy: 'name' });
+    } else {
+      pairs.push({ fromWorkflow });
+    }
+  }
+
+  for (const toWorkflow of unmatchedTo.values()) {
+    pairs.push({ toWorkflow });
+  }
+
+  return pairs;
+}
@@ -1,24 +1,49 @@
-import { eq } from 'drizzle-orm';
-import { existsSync, readFileSync } from 'fs';
-import { join, relative } from 'path';
+import { and, eq } from 'drizzle-orm';
+import { existsSync } from 'fs';
+import { join, relative, dirname } from 'path';
 import {
   getDb,
-  getConfig,
-  hashWorkflow,
   schema,
-  decrypt,
   logger,
   type SyncResult,
   type ConflictInfo,
   type SyncOptions,
+  type Workflow,
 } from '@flowsfarm/core';
 import { N8nClient } from '../client';
+import { createClient } from '../connection';
+import type { N8nWorkflow } from '../types';
 import { pullWorkflows, type PullOptions } from './pull';
 import { pushWorkflows, type PushOptions } from './push';
+import { diffWorkflow, diffAllWorkflows, type WorkflowDiff, type DiffOptions } from './diff';
+import { RemoteSnapshot, hasRemoteChanges } from './remote';
+import {
+  getWorkflowDir,
+  readConflictMarkers,
+  writeBaseSnapshot,
+  clearConflictFiles,
+  readLocalWorkflow,
+  writeLocalWorkflow,
+} from './files';
+import {
+  findMovedWorkflows,
+  findUntrackedWorkflows,
+  getPendingDeletions,
+  markWorkflowForDeletion,
+} from './local';
+import { getMigratedContentHashes, hashSyncedWorkflow } from './hashes';
+import { setWorkflowActivation, type ActivationOptions } from './activation';
+import {
+  getWorkflowHistory,
+  restoreWorkflowVersion,
+  type WorkflowVersion,
+} from './history';
 
 export class SyncEngine {
   private connectionId: string;
   private client: N8nClient;
+  // Remote listing shared by diff, pull and push
+  private remote: RemoteSnapshot;
 
   constructor(connectionId: string) {
     this.connectionId = connectionId;
@@ -35,12 +60,8 @@ export class SyncEngine {
       throw new Error(`Connection not found: ${connectionId}`);
     }
 
-    const apiKey = decrypt(connection.apiKeyEncrypted);
-
-    this.client = new N8nClient({
-      baseUrl: connection.baseUrl,
-      apiKey,
-    });
+    this.client = createClient(connection);
+    this.remote = new RemoteSnapshot(this.client);
   }
 
   /**
@@ -55,7 +76,7 @@ export class SyncEngine {
       workflowIds: options.workflowIds,
       force: options.force,
     };
-    const pullResult = await pullWorkflows(this.client, pullOptions);
+    const pullResult = await pullWorkflows(this.client, pullOptions, this.remote);
 
     // Then push local changes
     const pushOptions: PushOptions = {
@@ -63,13 +84,17 @@ export class SyncEngine {
       workflowIds: options.workflowIds,
       force: options.force,
     };
-    const pushResult = await pushWorkflows(this.client, pushOptions);
+    const pushResult = await pushWorkflows(this.client, pushOptions, this.remote);
 
-    // Combine results
+    // Combine results, a conflict found by the pull is found again by the push
+    const pullConflictIds = new Set(pullResult.conflicts.map((c) => c.workflowId));
     const result: SyncResult = {
-      pulled: pullResult.created + pullResult.updated,
+      pulled: pullResult.created + pullResult.updated + pullResult.merged,
       pushed: pushResult.created + pushResult.updated,
-      conflicts: pushResult.conflicts,
+      conflicts: [
+        ...pullResult.conflicts,
+        ...pushResult.conflicts.filter((c) => !pullConflictIds.has(c.workflowId)),
+      ],
       errors: [...pullResult.errors, ...pushResult.errors],
     };
 
@@ -84,20 +109,47 @@ export class SyncEngine {
    * Pull workflows from remote.
    */
   async pull(options: Omit<PullOptions, 'connectionId'> = {}) {
-    return pullWorkflows(this.client, {
-      ...options,
-      connectionId: this.connectionId,
-    });
+    return pullWorkflows(
+      this.client,
+      { ...options, connectionId: this.connectionId },
+      this.remote
+    );
   }
 
   /**
    * Push local changes to remote.
    */
   async push(options: Omit<PushOptions, 'connectionId'> = {}) {
-    return pushWorkflows(this.client, {
-      ...options,
-      connectionId: this.connectionId,
-    });
+    return pushWorkflows(
+      this.client,
+      { ...options, connectionId: this.connectionId },
+      this.remote
+    );
+  }
+
+  /**
+   * Compare local workflows with their remote versions.
+   */
+  async diff(workflowId?: string, options: DiffOptions = {}): Promise<WorkflowDiff[]> {
+    if (workflowId) {
+      const diff = await diffWorkflow(this.connectionId, workflowId, this.remote, options);
+      return diff ? [diff] : [];
+    }
+    return diffAllWorkflows(this.connectionId, this.remote, options);
+  }
+
+  /**
+   * Get all remote workflows, fetched once per engine.
+   */
+  async getRemoteWorkflows(): Promise<N8nWorkflow[]> {
+    return this.remote.list();
+  }
+
+  /**
+   * Drop the cached remote listing, e.g. before polling for changes again.
+   */
+  refreshRemote(): void {
+    this.remote.invalidate();
   }
 
   /**
@@ -105,47 +157,125 @@ export class SyncEngine {
    * Checks actual file content, not just database status.
    */
   getStatus() {
+    return this.buildStatus();
+  }
+
+  /**
+   * Get sync status including changes made on the remote since the last sync,
+   * from a single listing of remote workflows.
+   */
+  async getRemoteStatus() {
+    const remoteWorkflows = await this.remote.list();
+    return this.buildStatus(new Map(remoteWorkflows.map((w) => [w.id, w])));
+  }
+
+  private buildStatus(remoteWorkflows?: Map<string, N8nWorkflow>) {
     const db = getDb();
-    const config = getConfig();
+
+    // Hashes made with older hash settings are compared as they would be
+    // migrated, a status check does not write them
+    const migratedHashes = getMigratedContentHashes(this.connectionId);
+
+    // Workflows moved by hand are shown at their new folder, the next pull
+    // or push records it
+    const moved = new Map(findMovedWorkflows(this.connectionId).map((w) => [w.id, w.localPath]));
+    const untrackedWorkflows = findUntrackedWorkflows(this.connectionId);
 
     const workflows = db
       .select()
       .from(schema.workflows)
       .where(eq(schema.workflows.connectionId, this.connectionId))
-      .all();
+      .all()
+      .map((w) => ({
+        ...w,
+        localPath: moved.get(w.id) ?? w.localPath,
+        contentHash: migratedHashes?.get(w.id) ?? w.contentHash,
+      }));
 
-    type WorkflowInfo = { name: string; path: string };
+    type WorkflowInfo = { name: string; path: string; remoteId?: string; conflicts?: string[] };
     const result = {
       connectionId: this.connectionId,
+      remoteChecked: remoteWorkflows !== undefined,
       total: workflows.length,
       synced: [] as WorkflowInfo[],
       localModified: [] as WorkflowInfo[],
       remoteModified: [] as WorkflowInfo[],
+      // Changed locally and on the remote, not merged yet
+      diverged: [] as WorkflowInfo[],
       conflict: [] as WorkflowInfo[],
       newLocal: [] as WorkflowInfo[],
       deletedRemote: [] as WorkflowInfo[],
+      pendingDelete: [] as WorkflowInfo[],
+      // Moved by hand since the last pull or push, at their new path
+      moved: [] as WorkflowInfo[],
     };
 
     for (const workflow of workflows) {
-      const workflowPath = join(
-        config.workflowsPath,
-        this.connectionId,
-        workflow.remoteId,
-        'workflow.json'
-      );
+      const workflowPath = join(getWorkflowDir(workflow), 'workflow.json');
       const relativePath = relative(process.cwd(), workflowPath);
-      const info: WorkflowInfo = { name: workflow.name, path: relativePath };
+      const info: WorkflowInfo = {
+        name: workflow.name,
+        path: relativePath,
+        remoteId: workflow.remoteId,
+      };
+
+      if (moved.has(workflow.id)) {
+        result.moved.push(info);
+      }
 
       // Check actual file content for local modifications
       let hasLocalChanges = false;
       if (workflow.syncStatus === 'synced' && existsSync(workflowPath)) {
-        const content = readFileSync(workflowPath, 'utf-8');
-        const currentHash = hashWorkflow(JSON.parse(content));
-        hasLocalChanges = currentHash !== workflow.contentHash;
+        try {
+          const content = readLocalWorkflow(this.connectionId, dirname(workflowPath));
+          const currentHash = hashSyncedWorkflow(content);
+          // An activation set in the file is pushed too
+          hasLocalChanges =
+            currentHash !== workflow.contentHash ||
+            (content.active !== undefined && content.active !== (workflow.active ?? false));
+        } catch {
+          // Unreadable file, reported by validate and push
+          hasLocalChanges = true;
+        }
+      }
+
+      // Folder deleted by hand, deleted on the remote by the next push
+      const deletedLocally =
+        workflow.syncStatus !== 'new_local' &&
+        workflow.syncStatus !== 'deleted_remote' &&
+        !existsSync(workflowPath);
+
+      // Compare with the remote listing, workflows in conflict already know about it
+      const compareRemote =
+        remoteWorkflows !== undefined &&
+        !deletedLocally &&
+        workflow.syncStatus !== 'new_local' &&
+        workflow.syncStatus !== 'deleted_remote' &&
+        workflow.syncStatus !== 'pending_delete' &&
+        workflow.syncStatus !== 'conflict';
+
+      if (compareRemote) {
+        const remoteWorkflow = remoteWorkflows.get(workflow.remoteId);
+
+        if (!remoteWorkflow) {
+          result.deletedRemote.push(info);
+          continue;
+        }
+
+        if (hasRemoteChanges(workflow, remoteWorkflow)) {
+          if (hasLocalChanges || workflow.syncStatus === 'local_modified') {
+            result.diverged.push(info);
+          } else {
+            result.remoteModified.push(info);
+          }
+          continue;
+        }
       }
 
       if (hasLocalChanges) {
         result.localModified.push(info);
+      } else if (deletedLocally) {
+        result.pendingDelete.push(info);
       } else {
         switch (workflow.syncStatus) {
           case 'synced':
@@ -158,6 +288,7 @@ export class SyncEngine {
             result.remoteModified.push(info);
             break;
           case 'conflict':
+            info.conflicts = readConflictMarkers(dirname(workflowPath)).map((c) => c.path);
             result.conflict.push(info);
             break;
           case 'new_local':
@@ -166,13 +297,71 @@ export class SyncEngine {
           case 'deleted_remote':
             result.deletedRemote.push(info);
             break;
+          case 'pending_delete':
+            result.pendingDelete.push(info);
+            break;
         }
       }
     }
 
+    // Workflow folders added locally but not tracked yet
+    for (const untracked of untrackedWorkflows) {
+      result.total++;
+      result.newLocal.push({ name: untracked.name, path: untracked.path });
+    }
+
     return result;
   }
 
+  /**
+   * Get workflows deleted locally that the next push deletes on the remote.
+   */
+  getPendingDeletions(): Workflow[] {
+    return getPendingDeletions(this.connectionId);
+  }
+
+  /**
+   * Delete a workflow locally and mark it for deletion on the remote.
+   * Returns false if the workflow only existed locally.
+   */
+  deleteWorkflow(workflowId: string): boolean {
+    return markWorkflowForDeletion(this.getWorkflow(workflowId));
+  }
+
+  /**
+   * Activate or deactivate a workflow on the remote and record it locally.
+   * Workflows not created on the remote yet are activated by the next push.
+   */
+  async setActive(
+    workflowId: string,
+    active: boolean,
+    options: ActivationOptions = {}
+  ): Promise<N8nWorkflow> {
+    const workflow = this.getWorkflow(workflowId);
+
+    if (workflow.syncStatus === 'new_local' || workflow.syncStatus === 'deleted_remote') {
+      throw new Error(
+        `${workflow.name} is not on n8n. Set "active" in its workflow.json and run \`flowsfarm push\`.`
+      );
+    }
+
+    return setWorkflowActivation(this.client, this.remote, workflow, active, options);
+  }
+
+  /**
+   * Get the stored versions of a workflow, oldest first.
+   */
+  getHistory(workflowId: string): WorkflowVersion[] {
+    return getWorkflowHistory(this.getWorkflow(workflowId).id);
+  }
+
+  /**
+   * Roll a workflow's local file back to a stored version ("3", "v3" or a hash prefix).
+   */
+  restore(workflowId: string, version: string): WorkflowVersion {
+    return restoreWorkflowVersion(this.getWorkflow(workflowId), version);
+  }
+
   /**
    * Get list of conflicts.
    */
@@ -182,7 +371,12 @@ export class SyncEngine {
     const conflictedWorkflows = db
       .select()
       .from(schema.workflows)
-      .where(eq(schema.workflows.syncStatus, 'conflict'))
+      .where(
+        and(
+          eq(schema.workflows.connectionId, this.connectionId),
+          eq(schema.workflows.syncStatus, 'conflict')
+        )
+      )
       .all();
 
     return conflictedWorkflows.map((w) => ({
@@ -201,10 +395,118 @@ export class SyncEngine {
   async resolveConflict(
     workflowId: string,
     resolution: 'keep-local' | 'keep-remote'
+  ): Promise<void> {
+    const workflow = this.getConflictedWorkflow(workflowId);
+
+    const result =
+      resolution === 'keep-local'
+        ? // Push local version, overwriting remote
+          await pushWorkflows(this.client, {
+            connectionId: this.connectionId,
+            workflowIds: [workflowId],
+            force: true,
+          })
+        : // Pull remote version, overwriting local
+          await pullWorkflows(this.client, {
+            connectionId: this.connectionId,
+            workflowIds: [workflow.remoteId],
+            force: true,
+          });
+
+    // The workflow stays in conflict when the push or pull did not go through
+    const [error] = result.errors;
+    if (error) {
+      throw new Error(`Failed to resolve conflict for ${workflow.name}: ${error.message}`);
+    }
+    if (result.conflicts.length > 0) {
+      throw new Error(`Failed to resolve conflict for ${workflow.name}: still in conflict`);
+    }
+
+    this.recordResolution(workflowId, resolution);
+
+    logger.info(`Conflict resolved for ${workflow.name}: ${resolution}`);
+  }
+
+  /**
+   * Load the local and remote versions of a conflicted workflow.
+   */
+  async getConflictVersions(
+    workflowId: string
+  ): Promise<{ local: N8nWorkflow; remote: N8nWorkflow }> {
+    const workflow = this.getConflictedWorkflow(workflowId);
+    const workflowPath = join(
+      getWorkflowDir(workflow),
+      'workflow.json'
+    );
+
+    if (!existsSync(workflowPath)) {
+      throw new Error(`Local workflow file not found: ${workflowPath}`);
+    }
+
+    const local = readLocalWorkflow(this.connectionId, dirname(workflowPath));
+    const remote = await this.client.getWorkflow(workflow.remoteId);
+
+    return { local, remote };
+  }
+
+  /**
+   * Resolve a conflict with a manually merged version.
+   * The resolved workflow is written locally on top of the current remote
+   * version and is left to be pushed.
+   */
+  async resolveConflictWith(
+    workflowId: string,
+    resolved: N8nWorkflow
   ): Promise<void> {
     const db = getDb();
+    const workflow = this.getConflictedWorkflow(workflowId);
+    const workflowDir = getWorkflowDir(workflow);
+
+    const remote = await this.client.getWorkflow(workflow.remoteId);
+    const remoteHash = hashSyncedWorkflow(remote);
+    const resolvedHash = hashSyncedWorkflow(resolved);
+
+    writeLocalWorkflow(this.connectionId, workflowDir, resolved);
+    writeBaseSnapshot(workflowDir, remote);
+    clearConflictFiles(workflowDir);
+
+    db.update(schema.workflows)
+      .set({
+        name: resolved.name,
+        contentHash: remoteHash,
+        remoteUpdatedAt: new Date(remote.updatedAt),
+        localUpdatedAt: new Date(),
+        syncStatus: resolvedHash === remoteHash ? 'synced' : 'local_modified',
+      })
+      .where(eq(schema.workflows.id, workflowId))
+      .run();
+
+    this.recordResolution(workflowId, 'manual');
+
+    logger.info(`Conflict resolved for ${workflow.name}: manual`);
+  }
 
-    const workflow = db
+  private getWorkflow(workflowId: string): Workflow {
+    const workflow = getDb()
+      .select()
+      .from(schema.workflows)
+      .where(
+        and(
+          eq(schema.workflows.id, workflowId),
+          eq(schema.workflows.connectionId, this.connectionId)
+        )
+      )
+      .get();
+
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${workflowId}`);
+    }
+
+    return workflow;
+  }
+
+  private getConflictedWorkflow(workflowId: string) {
+    const workflow = getDb()
       .select()
       .from(schema.workflows)
       .where(eq(schema.workflows.id, workflowId))
@@ -218,31 +520,16 @@ export class SyncEngine {
       throw new Error(`Workflow is not in conflict state`);
     }
 
-    if (resolution === 'keep-local') {
-      // Push local version, overwriting remote
-      await pushWorkflows(this.client, {
-        connectionId: this.connectionId,
-        workflowIds: [workflowId],
-        force: true,
-      });
-    } else {
-      // Pull remote version, overwriting local
-      await pullWorkflows(this.client, {
-        connectionId: this.connectionId,
-        workflowIds: [workflow.remoteId],
-        force: true,
-      });
-    }
+    return workflow;
+  }
 
-    // Record resolution
-    db.insert(schema.syncHistory).values({
+  private recordResolution(workflowId: string, resolution: string): void {
+    getDb().insert(schema.syncHistory).values({
       connectionId: this.connectionId,
       workflowId,
       action: 'conflict_resolved',
       details: JSON.stringify({ resolution }),
       createdAt: new Date(),
     }).run();
-
-    logger.info(`Conflict resolved for ${workflow.name}: ${resolution}`);
   }
 }
@@ -0,0 +1,45 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { z } from 'zod';
+import { getConfig } from '@flowsfarm/core';
+
+// A credential on this connection: its ID, or ID and name
+const CredentialMappingSchema = z.union([
+  z.string(),
+  z.object({ id: z.string(), name: z.string().optional() }),
+]);
+
+const EnvironmentSchema = z.object({
+  // Credentials on this connection, keyed by the name (or ID) used on other connections
+  credentials: z.record(z.string(), CredentialMappingSchema).default({}),
+  // Values of {{ff.NAME}} placeholders in node parameters
+  variables: z.record(z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/), z.string()).default({}),
+});
+
+export type Environment = z.infer<typeof EnvironmentSchema>;
+
+/**
+ * Path of the settings file of a connection (.flowsfarm/env/<connection name>.json).
+ */
+export function getEnvironmentPath(connectionName: string): string {
+  return join(dirname(getConfig().workflowsPath), 'env', `${connectionName}.json`);
+}
+
+/**
+ * Load the settings of a connection. A missing file means no settings.
+ */
+export function loadEnvironment(connectionName: string): Environment {
+  const path = getEnvironmentPath(connectionName);
+
+  if (!existsSync(path)) {
+    return EnvironmentSchema.parse({});
+  }
+
+  const result = EnvironmentSchema.safeParse(JSON.parse(readFileSync(path, 'utf-8')));
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`);
+    throw new Error(`Invalid environment file ${path}: ${issues.join(', ')}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,397 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmdirSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { dirname, join, relative, sep } from 'path';
+import { eq } from 'drizzle-orm';
+import {
+  formatJson,
+  formatWorkflowJson,
+  getConfig,
+  getDb,
+  logger,
+  schema,
+  slugify,
+  type Workflow,
+} from '@flowsfarm/core';
+import { getConnection } from '../connection';
+import type { N8nWorkflow } from '../types';
+import type { MergeConflict } from './merge';
+import { extractVariables, getConnectionVariables, renderVariables } from './variables';
+import { extractNodeFiles, inlineNodeFiles, listNodeFiles, resolveNodeFile } from './node-files';
+
+const BASE_FILE = '.base.json';
+const CONFLICT_DIR = '.conflict';
+
+// Folder layout of projects created before layout.path existed
+const DEFAULT_LAYOUT_PATH = '{connectionId}/{id}';
+
+export type WorkflowLocation = Pick<Workflow, 'connectionId' | 'remoteId' | 'localPath'>;
+
+/**
+ * Get the local directory of a tracked workflow.
+ */
+export function getWorkflowDir(workflow: WorkflowLocation): string {
+  return join(getConfig().workflowsPath, getWorkflowPath(workflow));
+}
+
+/**
+ * Get the folder of a tracked workflow, relative to workflowsPath.
+ */
+export function getWorkflowPath(workflow: WorkflowLocation): string {
+  return workflow.localPath ?? join(workflow.connectionId, workflow.remoteId);
+}
+
+/**
+ * Get the directory holding a connection's workflows under the current layout.
+ */
+export function getConnectionDir(connectionId: string): string {
+  const [root] = getLayoutPattern().split('/');
+  return join(getConfig().workflowsPath, expandLayoutToken(root, connectionId, null));
+}
+
+/**
+ * Get the folder a workflow belongs in under the current layout, relative to
+ * workflowsPath. A folder taken by another workflow gets the ID appended.
+ */
+export function getLayoutPath(
+  connectionId: string,
+  workflow: Pick<N8nWorkflow, 'id' | 'name'> & { tags?: N8nWorkflow['tags'] },
+  workflowId?: string
+): string {
+  const path = join(
+    ...getLayoutPattern()
+      .split('/')
+      .map((segment) => expandLayoutToken(segment, connectionId, workflow))
+      .filter(Boolean)
+  );
+
+  const rows = getDb()
+    .select()
+    .from(schema.workflows)
+    .where(eq(schema.workflows.connectionId, connectionId))
+    .all();
+  const own = rows.find((w) => w.id === workflowId);
+  if (own && getWorkflowPath(own) === path) {
+    return path;
+  }
+
+  // Folders of other workflows, tracked or not, are never reused
+  const taken =
+    rows.some((w) => getWorkflowPath(w) === path) ||
+    existsSync(join(getConfig().workflowsPath, path));
+
+  return taken ? `${path}-${workflow.id}` : path;
+}
+
+/**
+ * Move a tracked workflow's folder to a new path relative to workflowsPath.
+ * Returns the new directory.
+ */
+export function moveWorkflowDir(workflow: Workflow, localPath: string): string {
+  const from = getWorkflowDir(workflow);
+  const to = join(getConfig().workflowsPath, localPath);
+
+  if (from !== to && existsSync(from)) {
+    if (existsSync(to)) {
+      throw new Error(`Cannot move ${workflow.name}: ${relative(process.cwd(), to)} already exists`);
+    }
+    mkdirSync(dirname(to), { recursive: true });
+    renameSync(from, to);
+    removeEmptyParents(dirname(from));
+    logger.info(`Moved ${relative(process.cwd(), from)} to ${relative(process.cwd(), to)}`);
+  }
+
+  if (workflow.localPath !== localPath) {
+    getDb()
+      .update(schema.workflows)
+      .set({ localPath })
+      .where(eq(schema.workflows.id, workflow.id))
+      .run();
+  }
+
+  return to;
+}
+
+/**
+ * Move a tracked workflow to the folder the layout gives its remote version
+ * when it was renamed or retagged since the last sync. Folders moved by hand
+ * stay where they are otherwise. Returns the workflow's directory.
+ */
+export function relocateWorkflowDir(workflow: Workflow, remoteWorkflow: N8nWorkflow): string {
+  const workflowDir = getWorkflowDir(workflow);
+  const base = readBaseSnapshot(workflowDir);
+  const tagNames = (w: N8nWorkflow) => (w.tags ?? []).map((t) => t.name).sort().join('\n');
+
+  if (base && base.name === remoteWorkflow.name && tagNames(base) === tagNames(remoteWorkflow)) {
+    return workflowDir;
+  }
+
+  const localPath = getLayoutPath(workflow.connectionId, remoteWorkflow, workflow.id);
+  return getWorkflowPath(workflow) === localPath ? workflowDir : moveWorkflowDir(workflow, localPath);
+}
+
+function getLayoutPattern(): string {
+  return getConfig().layout?.path ?? DEFAULT_LAYOUT_PATH;
+}
+
+function expandLayoutToken(
+  segment: string,
+  connectionId: string,
+  workflow: (Pick<N8nWorkflow, 'id' | 'name'> & { tags?: N8nWorkflow['tags'] }) | null
+): string {
+  return segment.replace(/\{(\w+)\}/g, (token, name: string) => {
+    switch (name) {
+      case 'connection':
+        return slugify(getConnection(connectionId)?.name ?? '') || connectionId;
+      case 'connectionId':
+        return connectionId;
+      case 'id':
+        return workflow?.id ?? '';
+      case 'slug':
+        return (workflow && slugify(workflow.name)) || (workflow?.id ?? '');
+      case 'tag': {
+        // The first tag by name, workflows without tags go in the parent folder
+        const [tag] = (workflow?.tags ?? []).map((t) => t.name).sort();
+        return tag ? slugify(tag) : '';
+      }
+      default:
+        throw new Error(`Unknown token in layout.path: ${token}`);
+    }
+  });
+}
+
+function removeEmptyParents(dir: string): void {
+  const root = getConfig().workflowsPath;
+
+  for (let current = dir; current.startsWith(root + sep); current = dirname(current)) {
+    if (readdirSync(current).length > 0) return;
+    rmdirSync(current);
+  }
+}
+
+/**
+ * Read a local workflow file, with the node files of the expanded layout
+ * inlined. Placeholders are left as they are.
+ */
+export function readWorkflowFile(workflowDir: string): N8nWorkflow {
+  const workflow = JSON.parse(readFileSync(join(workflowDir, 'workflow.json'), 'utf-8')) as N8nWorkflow;
+  return inlineNodeFiles(workflow, workflowDir);
+}
+
+/**
+ * Read a local workflow file with its {{ff.NAME}} placeholders rendered for
+ * the connection, i.e. as it would be pushed. With `strict`, placeholders
+ * without a value are an error; otherwise they are left as they are.
+ */
+export function readLocalWorkflow(
+  connectionId: string,
+  workflowDir: string,
+  options: { strict?: boolean } = {}
+): N8nWorkflow {
+  const workflow = readWorkflowFile(workflowDir);
+  const rendered = renderVariables(workflow, getConnectionVariables(connectionId));
+
+  if (options.strict && rendered.missing.length > 0) {
+    throw new Error(
+      `Undefined variables in ${workflow.name}: ${rendered.missing.map((name) => `ff.${name}`).join(', ')}`
+    );
+  }
+
+  return rendered.workflow;
+}
+
+/**
+ * Write a workflow to its local file, replacing the connection's variable
+ * values with their {{ff.NAME}} placeholders. In the expanded layout, node
+ * code and long text go to their own files; files no longer used are removed.
+ */
+export function writeLocalWorkflow(
+  connectionId: string,
+  workflowDir: string,
+  workflow: N8nWorkflow
+): void {
+  let content = extractVariables(workflow, getConnectionVariables(connectionId));
+  const workflowPath = join(workflowDir, 'workflow.json');
+
+  const previousFiles = new Set<string>();
+  if (existsSync(workflowPath)) {
+    try {
+      const previous = JSON.parse(readFileSync(workflowPath, 'utf-8')) as N8nWorkflow;
+      listNodeFiles(previous).forEach((name) => previousFiles.add(name));
+    } catch {
+      // Unreadable file, nothing to clean up
+    }
+  }
+
+  if (getConfig().layout?.files === 'expanded') {
+    const expanded = extractNodeFiles(content);
+    content = expanded.workflow;
+
+    for (const [name, text] of expanded.files) {
+      writeFileSync(resolveNodeFile(workflowDir, name), text);
+      previousFiles.delete(name);
+    }
+  }
+
+  writeFileSync(workflowPath, formatWorkflowJson(content));
+
+  for (const name of previousFiles) {
+    rmSync(resolveNodeFile(workflowDir, name), { force: true });
+  }
+}
+
+/**
+ * Set the `active` field of a local workflow file, leaving the rest of the
+ * file (placeholders, node files) as it is. Missing files are skipped.
+ */
+export function writeLocalWorkflowActive(workflowDir: string, active: boolean): void {
+  const workflowPath = join(workflowDir, 'workflow.json');
+  if (!existsSync(workflowPath)) {
+    return;
+  }
+
+  const workflow = JSON.parse(readFileSync(workflowPath, 'utf-8')) as N8nWorkflow;
+  if (workflow.active !== active) {
+    writeFileSync(workflowPath, formatWorkflowJson({ ...workflow, active }));
+  }
+}
+
+/**
+ * Move a workflow's local folder to the archive.
+ * Returns the archive path, or null if there was nothing to archive.
+ */
+export function archiveWorkflowDir(workflow: WorkflowLocation): string | null {
+  const workflowDir = getWorkflowDir(workflow);
+
+  if (!existsSync(workflowDir)) {
+    return null;
+  }
+
+  const archiveDir = join(
+    dirname(getConfig().workflowsPath),
+    'archive',
+    workflow.connectionId,
+    `${workflow.remoteId}-${Date.now()}`
+  );
+  mkdirSync(dirname(archiveDir), { recursive: true });
+  renameSync(workflowDir, archiveDir);
+  removeEmptyParents(dirname(workflowDir));
+
+  return relative(process.cwd(), archiveDir);
+}
+
+/**
+ * Write the metadata file of a synced workflow, which also holds the fields
+ * n8n changes on every save.
+ */
+export function writeWorkflowMeta(
+  workflowDir: string,
+  remoteWorkflow: N8nWorkflow,
+  connectionId: string
+): void {
+  writeFileSync(
+    join(workflowDir, 'meta.json'),
+    formatJson({
+      connectionId,
+      remoteId: remoteWorkflow.id,
+      name: remoteWorkflow.name,
+      active: remoteWorkflow.active,
+      pulledAt: new Date().toISOString(),
+      remoteUpdatedAt: remoteWorkflow.updatedAt,
+      remoteVersionId: remoteWorkflow.versionId,
+    })
+  );
+}
+
+/**
+ * Read the metadata file of a workflow folder, which identifies the
+ * workflow when its folder was moved.
+ */
+export function readWorkflowMeta(workflowDir: string): { connectionId?: string; remoteId?: string } | null {
+  const metaPath = join(workflowDir, 'meta.json');
+
+  if (!existsSync(metaPath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(readFileSync(metaPath, 'utf-8')) as { connectionId?: string; remoteId?: string };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the last-synced version of a workflow, used as merge base.
+ */
+export function readBaseSnapshot(workflowDir: string): N8nWorkflow | null {
+  const basePath = join(workflowDir, BASE_FILE);
+
+  if (!existsSync(basePath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(readFileSync(basePath, 'utf-8')) as N8nWorkflow;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store the last-synced version of a workflow.
+ */
+export function writeBaseSnapshot(workflowDir: string, workflow: N8nWorkflow): void {
+  if (!existsSync(workflowDir)) {
+    mkdirSync(workflowDir, { recursive: true });
+  }
+  writeFileSync(join(workflowDir, BASE_FILE), formatWorkflowJson(workflow));
+}
+
+/**
+ * Save the remote version and conflict markers for manual resolution.
+ */
+export function writeConflictFiles(
+  workflowDir: string,
+  remoteWorkflow: N8nWorkflow,
+  conflicts: MergeConflict[]
+): void {
+  const conflictDir = join(workflowDir, CONFLICT_DIR);
+  if (!existsSync(conflictDir)) {
+    mkdirSync(conflictDir, { recursive: true });
+  }
+
+  writeFileSync(join(conflictDir, 'remote.json'), formatWorkflowJson(remoteWorkflow));
+  writeFileSync(join(conflictDir, 'conflicts.json'), formatJson(conflicts));
+}
+
+/**
+ * Read conflict markers left by the last merge.
+ */
+export function readConflictMarkers(workflowDir: string): MergeConflict[] {
+  const markersPath = join(workflowDir, CONFLICT_DIR, 'conflicts.json');
+
+  if (!existsSync(markersPath)) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(readFileSync(markersPath, 'utf-8')) as MergeConflict[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Remove conflict files once a conflict is resolved.
+ */
+export function clearConflictFiles(workflowDir: string): void {
+  rmSync(join(workflowDir, CONFLICT_DIR), { recursive: true, force: true });
+}
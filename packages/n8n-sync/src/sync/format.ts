@@ -0,0 +1,112 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join, relative } from 'path';
+import { and, eq, ne } from 'drizzle-orm';
+import { formatJson, formatWorkflowJson, getDb, schema } from '@flowsfarm/core';
+import { getWorkflowDir } from './files';
+
+export interface FormatResult {
+  workflowId: string;
+  workflowName: string;
+  /** Files not in canonical form, rewritten unless checking */
+  files: string[];
+  /** Set when a file is not valid JSON and was left as it is */
+  error?: string;
+}
+
+export interface FormatOptions {
+  /** Only report the files that are not in canonical form */
+  check?: boolean;
+}
+
+/**
+ * Rewrite the local files of a connection's workflows in canonical form,
+ * optionally of a single workflow by name, ID or remote ID. Volatile fields
+ * found in workflow files are moved to meta.json. Placeholders and node file
+ * references are kept as they are.
+ */
+export function formatLocalWorkflows(
+  connectionId: string,
+  workflowRef?: string,
+  options: FormatOptions = {}
+): FormatResult[] {
+  const workflows = getDb()
+    .select()
+    .from(schema.workflows)
+    .where(
+      and(
+        eq(schema.workflows.connectionId, connectionId),
+        ne(schema.workflows.syncStatus, 'pending_delete')
+      )
+    )
+    .all()
+    .filter(
+      (w) =>
+        !workflowRef || w.id === workflowRef || w.remoteId === workflowRef || w.name === workflowRef
+    );
+
+  const results: FormatResult[] = [];
+
+  for (const workflow of workflows) {
+    const workflowDir = getWorkflowDir(workflow);
+    if (!existsSync(join(workflowDir, 'workflow.json'))) {
+      continue;
+    }
+
+    const result: FormatResult = { workflowId: workflow.id, workflowName: workflow.name, files: [] };
+    results.push(result);
+
+    let files: Map<string, string>;
+    try {
+      files = formatWorkflowFolder(workflowDir);
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      continue;
+    }
+
+    for (const [path, text] of files) {
+      if (readFileSync(path, 'utf-8') === text) {
+        continue;
+      }
+      result.files.push(relative(process.cwd(), path));
+      if (!options.check) {
+        writeFileSync(path, text);
+      }
+    }
+  }
+
+  return results;
+}
+
+// Canonical text of each JSON file of a workflow folder, by path
+function formatWorkflowFolder(workflowDir: string): Map<string, string> {
+  const files = new Map<string, string>();
+  const read = (name: string): Record<string, unknown> | null => {
+    const path = join(workflowDir, name);
+    if (!existsSync(path)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8')) as Record<string, unknown>;
+    } catch (error) {
+      throw new Error(`${relative(process.cwd(), path)}: ${(error as Error).message}`);
+    }
+  };
+
+  const workflow = read('workflow.json')!;
+  files.set(join(workflowDir, 'workflow.json'), formatWorkflowJson(workflow));
+
+  const base = read('.base.json');
+  if (base) {
+    files.set(join(workflowDir, '.base.json'), formatWorkflowJson(base));
+  }
+
+  const meta = read('meta.json');
+  if (meta) {
+    meta.remoteUpdatedAt ??= workflow.updatedAt;
+    meta.remoteVersionId ??= workflow.versionId;
+    files.set(join(workflowDir, 'meta.json'), formatJson(meta));
+  }
+
+  return files;
+}
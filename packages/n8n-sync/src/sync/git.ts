@@ -0,0 +1,82 @@
+import { eq } from 'drizzle-orm';
+import { commitFiles, getConfig, getDb, isGitRepository, logger, schema } from '@flowsfarm/core';
+import { getConnection } from '../connection';
+import { getConnectionDir, getWorkflowDir } from './files';
+
+export interface PulledWorkflow {
+  name: string;
+  action: 'created' | 'updated' | 'merged' | 'moved' | 'pruned';
+  /** Folders the pull wrote, moved or removed */
+  paths: string[];
+  /** When the workflow was last updated on n8n */
+  remoteUpdatedAt?: string;
+}
+
+/**
+ * Commit the workflow folders written by a pull, with a message listing the
+ * workflows. Other changes in the repository are left as they are. Returns
+ * the commit hash, or null if there was nothing to commit.
+ */
+export function commitPulledWorkflows(connectionId: string, workflows: PulledWorkflow[]): string | null {
+  if (workflows.length === 0) {
+    return null;
+  }
+
+  if (!isGitRepository()) {
+    logger.warn('git.autoCommit is set, but the project is not in a git repository');
+    return null;
+  }
+
+  const connectionName = getConnection(connectionId)?.name ?? connectionId;
+  return commitFiles(
+    workflows.flatMap((w) => w.paths),
+    formatPullCommitMessage(connectionName, workflows)
+  );
+}
+
+/**
+ * Format the commit message of a pull, e.g.
+ *
+ *   Pull 2 workflow(s) from production
+ *
+ *   - Order Sync: updated, last updated on n8n 2024-05-02T09:12:44.000Z
+ *   - Slack Alerts: created, last updated on n8n 2024-05-01T17:03:10.000Z
+ *
+ * The n8n public API does not return who last edited a workflow, so the
+ * message only says when.
+ */
+export function formatPullCommitMessage(connectionName: string, workflows: PulledWorkflow[]): string {
+  const lines = [...workflows]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(
+      (w) =>
+        `- ${w.name}: ${w.action}` +
+        (w.remoteUpdatedAt ? `, last updated on n8n ${w.remoteUpdatedAt}` : '')
+    );
+
+  return `Pull ${workflows.length} workflow(s) from ${connectionName}\n\n${lines.join('\n')}`;
+}
+
+/**
+ * Commit local workflow files only, optionally of a single connection.
+ * Returns the commit hash, or null if there was nothing to commit.
+ */
+export function commitWorkflowFiles(message: string, connectionId?: string): string | null {
+  if (!isGitRepository()) {
+    throw new Error('The project is not in a git repository. Run `git init` first.');
+  }
+
+  if (!connectionId) {
+    return commitFiles([getConfig().workflowsPath], message);
+  }
+
+  // Workflows of the connection may also be outside its directory, in an older layout
+  const workflowDirs = getDb()
+    .select()
+    .from(schema.workflows)
+    .where(eq(schema.workflows.connectionId, connectionId))
+    .all()
+    .map(getWorkflowDir);
+
+  return commitFiles([getConnectionDir(connectionId), ...workflowDirs], message);
+}
@@ -0,0 +1,144 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  eq,
+  formatWorkflowJson,
+  getDb,
+  hashContent,
+  hashWorkflow,
+  schema,
+  sortObjectKeys,
+  WORKFLOW_HASH_VERSION,
+} from '@flowsfarm/core';
+import { FakeN8n, createTestProject, type TestProject } from '../testing';
+import type { N8nWorkflow } from '../types';
+import { SyncEngine } from './engine';
+import {
+  DEFAULT_HASH_IGNORE,
+  getMigratedContentHashes,
+  hashSyncedWorkflow,
+  migrateContentHashes,
+} from './hashes';
+
+// hashWorkflow before version 2
+function hashWorkflowV1(workflow: N8nWorkflow): string {
+  const normalized = { ...workflow, updatedAt: undefined, createdAt: undefined, id: undefined };
+  return hashContent(JSON.stringify(sortObjectKeys(normalized)));
+}
+
+describe('migrateContentHashes', () => {
+  let project: TestProject;
+  let workflowDir: string;
+  // Last-synced version of the workflow, as pulled
+  let base: N8nWorkflow;
+
+  const row = () => getDb().select().from(schema.workflows).get()!;
+  const connection = () =>
+    getDb()
+      .select()
+      .from(schema.connections)
+      .where(eq(schema.connections.id, project.connectionId))
+      .get()!;
+
+  // Stored state as left by an older version of FlowsFarm
+  const store = (contentHash: string, hashVersion: number | null, hashIgnore: string | null) => {
+    getDb().update(schema.workflows).set({ contentHash }).run();
+    getDb()
+      .update(schema.connections)
+      .set({ hashVersion, hashIgnore })
+      .where(eq(schema.connections.id, project.connectionId))
+      .run();
+  };
+
+  beforeEach(async () => {
+    const n8n = new FakeN8n();
+    project = await createTestProject(n8n);
+
+    // A nightly backup, uploaded to S3 once the tables are exported
+    const { id } = n8n.add({
+      name: 'Nightly backup',
+      active: true,
+      nodes: [
+        {
+          name: 'Upload to S3',
+          type: 'n8n-nodes-base.awsS3',
+          position: [440, 0],
+          parameters: { operation: 'upload', bucketName: 'backups' },
+        },
+        {
+          name: 'Export tables',
+          type: 'n8n-nodes-base.postgres',
+          position: [220, 0],
+          parameters: { operation: 'executeQuery', query: 'COPY orders TO STDOUT' },
+        },
+        {
+          name: 'Every night',
+          type: 'n8n-nodes-base.scheduleTrigger',
+          position: [0, 0],
+          parameters: {},
+        },
+      ],
+      connections: {
+        'Every night': { main: [[{ node: 'Export tables', type: 'main', index: 0 }]] },
+        'Export tables': { main: [[{ node: 'Upload to S3', type: 'main', index: 0 }]] },
+      },
+    });
+    await new SyncEngine(project.connectionId).pull();
+
+    workflowDir = join(project.workflowsPath, project.connectionId, id);
+    base = JSON.parse(readFileSync(join(workflowDir, '.base.json'), 'utf-8')) as N8nWorkflow;
+  });
+
+  afterEach(() => {
+    project.cleanup();
+  });
+
+  it('recomputes hashes made by the first version of hashWorkflow', () => {
+    store(hashWorkflowV1(base), null, null);
+
+    expect(migrateContentHashes(project.connectionId)).toBe(1);
+    expect(row().contentHash).toBe(hashSyncedWorkflow(base));
+    expect(connection()).toMatchObject({
+      hashVersion: WORKFLOW_HASH_VERSION,
+      hashIgnore: JSON.stringify(DEFAULT_HASH_IGNORE),
+    });
+  });
+
+  it('recomputes hashes made with other ignored fields from the file they were made from', () => {
+    // The upload was removed locally, and the hash made from the edited file
+    const local = { ...base, nodes: base.nodes.filter((n) => n.name !== 'Upload to S3') };
+    writeFileSync(join(workflowDir, 'workflow.json'), formatWorkflowJson(local));
+    store(hashWorkflow(local as unknown as Record<string, unknown>), WORKFLOW_HASH_VERSION, '[]');
+
+    expect(migrateContentHashes(project.connectionId)).toBe(1);
+    expect(row().contentHash).toBe(hashSyncedWorkflow(local));
+  });
+
+  it('leaves hashes of neither the base nor the local file as they are', () => {
+    store('unknown', null, null);
+
+    expect(migrateContentHashes(project.connectionId)).toBe(0);
+    expect(row().contentHash).toBe('unknown');
+    expect(connection().hashVersion).toBe(WORKFLOW_HASH_VERSION);
+  });
+
+  it('does nothing when the stored hashes are up to date', () => {
+    const ignore = JSON.stringify([...DEFAULT_HASH_IGNORE].reverse());
+    store(hashWorkflowV1(base), WORKFLOW_HASH_VERSION, ignore);
+
+    expect(getMigratedContentHashes(project.connectionId)).toBeNull();
+    expect(migrateContentHashes(project.connectionId)).toBe(0);
+    expect(row().contentHash).toBe(hashWorkflowV1(base));
+  });
+
+  it('computes the migrated hashes without writing them', () => {
+    store(hashWorkflowV1(base), null, null);
+
+    expect(getMigratedContentHashes(project.connectionId)).toEqual(
+      new Map([[row().id, hashSyncedWorkflow(base)]])
+    );
+    expect(row().contentHash).toBe(hashWorkflowV1(base));
+    expect(connection().hashVersion).toBeNull();
+  });
+});
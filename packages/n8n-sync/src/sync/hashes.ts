@@ -0,0 +1,148 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { eq } from 'drizzle-orm';
+import {
+  getConfig,
+  getDb,
+  hashContent,
+  hashWorkflow,
+  logger,
+  schema,
+  sortObjectKeys,
+  WORKFLOW_HASH_VERSION,
+} from '@flowsfarm/core';
+import type { N8nWorkflow } from '../types';
+import { getWorkflowDir, readBaseSnapshot, readLocalWorkflow } from './files';
+
+/**
+ * Fields that do not count as changes unless hash.ignore is set: moving nodes
+ * in the editor, activating the workflow, and editor and test data that n8n
+ * keeps next to the workflow.
+ */
+export const DEFAULT_HASH_IGNORE = ['active', 'meta', 'nodes.*.position', 'pinData'];
+
+/**
+ * Get the paths of fields that do not count as changes, from hash.ignore in
+ * .flowsfarm.json.
+ */
+export function getHashIgnore(): string[] {
+  return getConfig().hash?.ignore ?? DEFAULT_HASH_IGNORE;
+}
+
+/**
+ * Hash a workflow for comparing its local, remote and last-synced versions,
+ * leaving out the ignored fields.
+ */
+export function hashSyncedWorkflow(workflow: N8nWorkflow): string {
+  return hashWorkflow(workflow as unknown as Record<string, unknown>, getHashIgnore());
+}
+
+/**
+ * Recompute the stored hashes of a connection's workflows when they were
+ * made by an older version of hashWorkflow or with other ignored fields.
+ * Returns the number of hashes updated.
+ */
+export function migrateContentHashes(connectionId: string): number {
+  const db = getDb();
+  const hashes = getMigratedContentHashes(connectionId);
+
+  if (!hashes) {
+    return 0;
+  }
+
+  for (const [workflowId, contentHash] of hashes) {
+    db.update(schema.workflows)
+      .set({ contentHash })
+      .where(eq(schema.workflows.id, workflowId))
+      .run();
+  }
+
+  db.update(schema.connections)
+    .set({ hashVersion: WORKFLOW_HASH_VERSION, hashIgnore: JSON.stringify(getHashIgnore()) })
+    .where(eq(schema.connections.id, connectionId))
+    .run();
+
+  if (hashes.size > 0) {
+    logger.debug(`Recomputed ${hashes.size} stored workflow hash(es)`);
+  }
+
+  return hashes.size;
+}
+
+/**
+ * Compute the stored hashes migrateContentHashes would update, by workflow
+ * ID, without writing them. A hash is recomputed from the last-synced
+ * version or the local file, whichever it was made from; hashes of neither
+ * are left as they are. Returns null when the stored hashes are up to date.
+ */
+export function getMigratedContentHashes(connectionId: string): Map<string, string> | null {
+  const db = getDb();
+  const connection = db
+    .select()
+    .from(schema.connections)
+    .where(eq(schema.connections.id, connectionId))
+    .get();
+
+  if (!connection) {
+    return null;
+  }
+
+  const version = connection.hashVersion ?? 1;
+  const ignore = connection.hashIgnore ? (JSON.parse(connection.hashIgnore) as string[]) : [];
+
+  if (version >= WORKFLOW_HASH_VERSION && sameIgnore(ignore, getHashIgnore())) {
+    return null;
+  }
+
+  const storedHash = (workflow: N8nWorkflow) =>
+    version === 1
+      ? hashWorkflowV1(workflow)
+      : hashWorkflow(workflow as unknown as Record<string, unknown>, ignore);
+
+  const workflows = db
+    .select()
+    .from(schema.workflows)
+    .where(eq(schema.workflows.connectionId, connectionId))
+    .all();
+
+  const hashes = new Map<string, string>();
+  for (const workflow of workflows) {
+    const workflowDir = getWorkflowDir(workflow);
+    const sources: Array<() => N8nWorkflow | null> = [
+      () => readBaseSnapshot(workflowDir),
+      () =>
+        existsSync(join(workflowDir, 'workflow.json'))
+          ? readLocalWorkflow(connectionId, workflowDir)
+          : null,
+    ];
+
+    for (const read of sources) {
+      let source: N8nWorkflow | null;
+      try {
+        source = read();
+      } catch {
+        continue;
+      }
+
+      if (source && storedHash(source) === workflow.contentHash) {
+        const contentHash = hashSyncedWorkflow(source);
+        if (contentHash !== workflow.contentHash) {
+          hashes.set(workflow.id, contentHash);
+        }
+        break;
+      }
+    }
+  }
+
+  return hashes;
+}
+
+function sameIgnore(a: string[], b: string[]): boolean {
+  return JSON.stringify([...new Set(a)].sort()) === JSON.stringify([...new Set(b)].sort());
+}
+
+// hashWorkflow before version 2, which kept the order of nodes and tags
+function hashWorkflowV1(workflow: N8nWorkflow): string {
+  const normalized = { ...workflow, updatedAt: undefined, createdAt: undefined, id: undefined };
+  return hashContent(JSON.stringify(sortObjectKeys(normalized)));
+}
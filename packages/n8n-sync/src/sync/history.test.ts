@@ -0,0 +1,138 @@
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { eq, getConfig, getDb, schema } from '@flowsfarm/core';
+import { FakeN8n, createTestProject, type TestProject } from '../testing';
+import type { N8nWorkflow } from '../types';
+import { SyncEngine } from './engine';
+import { gcHistory, getWorkflowHistory, restoreWorkflowVersion } from './history';
+
+// A nightly export whose query was tuned over time
+const reportExport = (query: string): Pick<N8nWorkflow, 'name' | 'nodes' | 'connections'> => ({
+  name: 'Sales report export',
+  nodes: [
+    {
+      name: 'Nightly',
+      type: 'n8n-nodes-base.scheduleTrigger',
+      position: [0, 0],
+      parameters: {},
+    },
+    {
+      name: 'Query sales',
+      type: 'n8n-nodes-base.postgres',
+      position: [220, 0],
+      parameters: { operation: 'executeQuery', query },
+    },
+  ],
+  connections: {
+    Nightly: { main: [[{ node: 'Query sales', type: 'main', index: 0 }]] },
+  },
+});
+
+const QUERY_V1 = 'SELECT * FROM sales';
+const QUERY_V2 = 'SELECT region, sum(total) FROM sales GROUP BY region';
+
+describe('workflow history', () => {
+  let n8n: FakeN8n;
+  let project: TestProject;
+  let engine: SyncEngine;
+
+  const row = (remoteId: string) =>
+    getDb().select().from(schema.workflows).where(eq(schema.workflows.remoteId, remoteId)).get()!;
+
+  const readLocal = (remoteId: string) =>
+    JSON.parse(
+      readFileSync(join(project.workflowsPath, project.connectionId, remoteId, 'workflow.json'), 'utf-8')
+    ) as N8nWorkflow;
+
+  const query = (workflow: N8nWorkflow) =>
+    workflow.nodes.find((n) => n.name === 'Query sales')?.parameters?.query;
+
+  const objectsDir = () => join(dirname(getConfig().workflowsPath), 'history', 'objects');
+
+  beforeEach(async () => {
+    n8n = new FakeN8n();
+    project = await createTestProject(n8n);
+    engine = new SyncEngine(project.connectionId);
+  });
+
+  afterEach(() => {
+    project.cleanup();
+  });
+
+  // Two versions pulled from n8n: the first query, then the tuned one
+  const pullTwoVersions = async () => {
+    const { id } = n8n.add(reportExport(QUERY_V1));
+    await engine.pull();
+    n8n.edit(id, (w) => Object.assign(w, reportExport(QUERY_V2)));
+    engine.refreshRemote();
+    await engine.pull();
+    return id;
+  };
+
+  describe('restoreWorkflowVersion', () => {
+    it('writes an older version to the local file, ready to push', async () => {
+      const id = await pullTwoVersions();
+
+      const restored = restoreWorkflowVersion(row(id), 'v1');
+
+      expect(restored.version).toBe(1);
+      expect(query(readLocal(id))).toBe(QUERY_V1);
+      expect(row(id).syncStatus).toBe('local_modified');
+      expect(getWorkflowHistory(row(id).id).map((v) => v.action)).toEqual(['pull', 'pull', 'restore']);
+
+      const result = await engine.push();
+
+      expect(result).toMatchObject({ updated: 1, errors: [] });
+      expect(query(n8n.get(id))).toBe(QUERY_V1);
+    });
+
+    it('keeps the ID of the restored workflow when another one had the same content', async () => {
+      // A copy of the export made in the n8n editor, stored as the same snapshot
+      const original = n8n.add(reportExport(QUERY_V1));
+      const copy = n8n.add(reportExport(QUERY_V1));
+      await engine.pull();
+      expect(getWorkflowHistory(row(copy.id).id)[0].hash).toBe(
+        getWorkflowHistory(row(original.id).id)[0].hash
+      );
+      n8n.edit(copy.id, (w) => Object.assign(w, reportExport(QUERY_V2)));
+      engine.refreshRemote();
+      await engine.pull();
+
+      restoreWorkflowVersion(row(copy.id), '1');
+
+      expect(readLocal(copy.id).id).toBe(copy.id);
+      await engine.push();
+      expect(query(n8n.get(copy.id))).toBe(QUERY_V1);
+      expect(query(n8n.get(original.id))).toBe(QUERY_V1);
+    });
+
+    it('refuses versions whose snapshot was garbage-collected', async () => {
+      const id = await pullTwoVersions();
+      gcHistory({ keep: 1 });
+
+      expect(() => restoreWorkflowVersion(row(id), 'v1')).toThrow(
+        'Snapshot of version 1 was garbage-collected'
+      );
+      expect(query(readLocal(id))).toBe(QUERY_V2);
+    });
+  });
+
+  describe('gcHistory', () => {
+    it('removes the snapshots of dropped versions and keeps the latest', async () => {
+      const id = await pullTwoVersions();
+
+      expect(gcHistory({ keep: 1 })).toEqual({ prunedVersions: 1, removedObjects: 1 });
+      expect(getWorkflowHistory(row(id).id).map((v) => v.hash !== null)).toEqual([false, true]);
+    });
+
+    it('leaves files in the store that are not snapshots alone', async () => {
+      await pullTwoVersions();
+      mkdirSync(objectsDir(), { recursive: true });
+      writeFileSync(join(objectsDir(), '.DS_Store'), '');
+
+      expect(gcHistory({ keep: 1 }).removedObjects).toBe(1);
+      expect(readdirSync(objectsDir())).toContain('.DS_Store');
+    });
+  });
+});
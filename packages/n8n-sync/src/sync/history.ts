@@ -0,0 +1,289 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { userInfo } from 'os';
+import { and, asc, eq, inArray, isNotNull } from 'drizzle-orm';
+import {
+  getDb,
+  getConfig,
+  formatWorkflowJson,
+  hashWorkflow,
+  schema,
+  logger,
+  type Workflow,
+} from '@flowsfarm/core';
+import type { N8nWorkflow } from '../types';
+import { compareWorkflows } from './compare';
+import { getWorkflowDir, writeLocalWorkflow } from './files';
+import { hashSyncedWorkflow } from './hashes';
+
+// History actions that store a workflow snapshot
+const VERSION_ACTIONS = ['pull', 'push', 'restore'] as const;
+
+export interface WorkflowVersion {
+  /** Sequential version number per workflow, 1 being the oldest */
+  version: number;
+  /** Content hash of the snapshot, null once garbage-collected */
+  hash: string | null;
+  action: (typeof VERSION_ACTIONS)[number];
+  user: string | null;
+  /** Fields and nodes changed compared to the previous version */
+  changes: string[];
+  createdAt: Date;
+}
+
+export interface HistoryGcOptions {
+  /** Versions to keep per workflow */
+  keep?: number;
+  /** Drop versions older than this many days */
+  olderThanDays?: number;
+}
+
+export interface HistoryGcResult {
+  prunedVersions: number;
+  removedObjects: number;
+}
+
+function getObjectsDir(): string {
+  return join(dirname(getConfig().workflowsPath), 'history', 'objects');
+}
+
+function getObjectPath(hash: string): string {
+  return join(getObjectsDir(), hash.slice(0, 2), `${hash.slice(2)}.json`);
+}
+
+/**
+ * Store a workflow snapshot by content hash. Identical content is stored once.
+ */
+export function storeSnapshot(workflow: N8nWorkflow): string {
+  const hash = hashWorkflow(workflow as unknown as Record<string, unknown>);
+  const objectPath = getObjectPath(hash);
+
+  if (!existsSync(objectPath)) {
+    mkdirSync(dirname(objectPath), { recursive: true });
+    writeFileSync(objectPath, formatWorkflowJson(workflow));
+  }
+
+  return hash;
+}
+
+/**
+ * Read a workflow snapshot, or null if it is not in the store.
+ */
+export function readSnapshot(hash: string): N8nWorkflow | null {
+  const objectPath = getObjectPath(hash);
+
+  if (!existsSync(objectPath)) {
+    return null;
+  }
+
+  return JSON.parse(readFileSync(objectPath, 'utf-8')) as N8nWorkflow;
+}
+
+/**
+ * Snapshot a workflow version and link it from the sync history.
+ */
+export function recordWorkflowVersion(
+  workflow: Pick<Workflow, 'id' | 'connectionId'>,
+  content: N8nWorkflow,
+  action: WorkflowVersion['action'],
+  details: Record<string, unknown> = {}
+): string {
+  const hash = storeSnapshot(content);
+
+  // Summarize what changed since the previous version
+  const previous = getWorkflowHistory(workflow.id)
+    .reverse()
+    .find((v) => v.hash !== null);
+  const previousContent = previous?.hash ? readSnapshot(previous.hash) : null;
+  const changes = previousContent
+    ? compareWorkflows(content, previousContent).map((c) => c.path)
+    : [];
+
+  getDb().insert(schema.syncHistory).values({
+    connectionId: workflow.connectionId,
+    workflowId: workflow.id,
+    action,
+    hash,
+    details: JSON.stringify({ user: getCurrentUser(), changes, ...details }),
+    createdAt: new Date(),
+  }).run();
+
+  return hash;
+}
+
+/**
+ * List the stored versions of a workflow, oldest first.
+ */
+export function getWorkflowHistory(workflowId: string): WorkflowVersion[] {
+  const entries = getDb()
+    .select()
+    .from(schema.syncHistory)
+    .where(
+      and(
+        eq(schema.syncHistory.workflowId, workflowId),
+        inArray(schema.syncHistory.action, [...VERSION_ACTIONS])
+      )
+    )
+    .orderBy(asc(schema.syncHistory.id))
+    .all();
+
+  return entries.map((entry, index) => {
+    const details = entry.details ? (JSON.parse(entry.details) as Record<string, unknown>) : {};
+
+    return {
+      version: index + 1,
+      hash: entry.hash,
+      action: entry.action as WorkflowVersion['action'],
+      user: typeof details.user === 'string' ? details.user : null,
+      changes: Array.isArray(details.changes) ? (details.changes as string[]) : [],
+      createdAt: entry.createdAt,
+    };
+  });
+}
+
+/**
+ * Find a version by number ("3" or "v3") or by hash prefix.
+ */
+export function findWorkflowVersion(workflowId: string, ref: string): WorkflowVersion | null {
+  const versions = getWorkflowHistory(workflowId);
+  const number = /^v?(\d+)$/i.exec(ref);
+
+  if (number) {
+    return versions.find((v) => v.version === Number(number[1])) ?? null;
+  }
+
+  const matches = versions.filter((v) => v.hash?.startsWith(ref.toLowerCase()));
+  if (matches.length > 1 && new Set(matches.map((v) => v.hash)).size > 1) {
+    throw new Error(`Ambiguous version "${ref}", use a longer hash or the version number`);
+  }
+
+  return matches[matches.length - 1] ?? null;
+}
+
+/**
+ * Roll the local workflow file back to a stored version. The restored
+ * workflow is pushed like any other local change.
+ */
+export function restoreWorkflowVersion(workflow: Workflow, ref: string): WorkflowVersion {
+  const version = findWorkflowVersion(workflow.id, ref);
+
+  if (!version) {
+    throw new Error(`Version not found: ${ref}`);
+  }
+
+  const snapshot = version.hash ? readSnapshot(version.hash) : null;
+  if (!snapshot) {
+    throw new Error(`Snapshot of version ${version.version} was garbage-collected`);
+  }
+
+  // Snapshots are stored once per content, whichever workflow's ID they were stored with
+  const content: N8nWorkflow = { ...snapshot, id: workflow.remoteId };
+
+  const workflowDir = getWorkflowDir(workflow);
+  mkdirSync(workflowDir, { recursive: true });
+  writeLocalWorkflow(workflow.connectionId, workflowDir, content);
+
+  // A workflow deleted locally is tracked again
+  if (workflow.syncStatus === 'synced' || workflow.syncStatus === 'pending_delete') {
+    const restoredHash = hashSyncedWorkflow(content);
+    getDb()
+      .update(schema.workflows)
+      .set({
+        syncStatus: restoredHash === workflow.contentHash ? 'synced' : 'local_modified',
+        localUpdatedAt: new Date(),
+      })
+      .where(eq(schema.workflows.id, workflow.id))
+      .run();
+  }
+
+  recordWorkflowVersion(workflow, content, 'restore', { restoredVersion: version.version });
+  logger.info(`Restored workflow ${workflow.name} to version ${version.version}`);
+
+  return version;
+}
+
+/**
+ * Drop old versions by count and/or age, then remove snapshots no longer
+ * referenced. The latest version of every workflow is always kept.
+ */
+export function gcHistory(options: HistoryGcOptions): HistoryGcResult {
+  const db = getDb();
+  const cutoff =
+    options.olderThanDays !== undefined
+      ? Date.now() - options.olderThanDays * 24 * 60 * 60 * 1000
+      : null;
+
+  const entries = db
+    .select()
+    .from(schema.syncHistory)
+    .where(isNotNull(schema.syncHistory.hash))
+    .orderBy(asc(schema.syncHistory.id))
+    .all();
+
+  // Newest first per workflow
+  const byWorkflow = new Map<string, typeof entries>();
+  for (const entry of [...entries].reverse()) {
+    const key = entry.workflowId ?? '';
+    byWorkflow.set(key, [...(byWorkflow.get(key) ?? []), entry]);
+  }
+
+  const pruneIds: number[] = [];
+  for (const versions of byWorkflow.values()) {
+    versions.forEach((entry, index) => {
+      if (index === 0) return;
+
+      const tooMany = options.keep !== undefined && index >= options.keep;
+      const tooOld = cutoff !== null && entry.createdAt.getTime() < cutoff;
+      if (tooMany || tooOld) {
+        pruneIds.push(entry.id);
+      }
+    });
+  }
+
+  if (pruneIds.length > 0) {
+    db.update(schema.syncHistory)
+      .set({ hash: null })
+      .where(inArray(schema.syncHistory.id, pruneIds))
+      .run();
+  }
+
+  // Remove snapshots no longer referenced from the history
+  const pruned = new Set(pruneIds);
+  const referenced = new Set(
+    entries.filter((e) => !pruned.has(e.id)).map((e) => e.hash as string)
+  );
+
+  let removedObjects = 0;
+  const objectsDir = getObjectsDir();
+
+  if (existsSync(objectsDir)) {
+    for (const prefix of readdirSync(objectsDir, { withFileTypes: true })) {
+      if (!prefix.isDirectory()) continue;
+      const prefixDir = join(objectsDir, prefix.name);
+
+      for (const file of readdirSync(prefixDir, { withFileTypes: true })) {
+        if (!file.isFile() || !file.name.endsWith('.json')) continue;
+
+        const hash = prefix.name + file.name.replace(/\.json$/, '');
+        if (!referenced.has(hash)) {
+          rmSync(join(prefixDir, file.name));
+          removedObjects++;
+        }
+      }
+
+      if (readdirSync(prefixDir).length === 0) {
+        rmSync(prefixDir, { recursive: true });
+      }
+    }
+  }
+
+  return { prunedVersions: pruneIds.length, removedObjects };
+}
+
+function getCurrentUser(): string | null {
+  try {
+    return userInfo().username;
+  } catch {
+    return process.env.USER ?? null;
+  }
+}
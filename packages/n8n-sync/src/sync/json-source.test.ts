@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { JsonSyntaxError, mapJsonPointers, toJsonPointer } from './json-source';
+
+function syntaxError(text: string): JsonSyntaxError {
+  try {
+    mapJsonPointers(text);
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) return error;
+    throw error;
+  }
+  throw new Error('Expected a JsonSyntaxError');
+}
+
+describe('mapJsonPointers', () => {
+  const text = [
+    '{',
+    '  "name": "Orders",',
+    '  "nodes": [',
+    '    { "id": "1", "a/b": 2 }',
+    '  ],',
+    '  "active": false',
+    '}',
+  ].join('\n');
+
+  it('maps every value to the position where it starts', () => {
+    expect(Object.fromEntries(mapJsonPointers(text))).toEqual({
+      '': { line: 1, column: 1 },
+      '/name': { line: 2, column: 11 },
+      '/nodes': { line: 3, column: 12 },
+      '/nodes/0': { line: 4, column: 5 },
+      '/nodes/0/id': { line: 4, column: 13 },
+      '/nodes/0/a~1b': { line: 4, column: 25 },
+      '/active': { line: 6, column: 13 },
+    });
+  });
+
+  it('accepts numbers, literals and escapes', () => {
+    const pointers = mapJsonPointers('[-1.5e3, true, null, "a\\"b", {}, []]');
+
+    expect([...pointers.keys()]).toEqual(['', '/0', '/1', '/2', '/3', '/4', '/5']);
+  });
+
+  it('reports a trailing comma', () => {
+    const error = syntaxError('{"a": 1,}');
+
+    expect(error.message).toBe('Expected a property name');
+    expect(error.position).toEqual({ line: 1, column: 9 });
+  });
+
+  it('reports a missing closing bracket', () => {
+    const error = syntaxError('{"a": 1');
+
+    expect(error.message).toBe("Expected '}' before end of JSON");
+    expect(error.position).toEqual({ line: 1, column: 8 });
+  });
+
+  it('reports an unterminated string at the line break', () => {
+    const error = syntaxError('{"a": "abc\n}');
+
+    expect(error.message).toBe('Unterminated string');
+    expect(error.position).toEqual({ line: 1, column: 11 });
+  });
+
+  it('reports content after the document', () => {
+    const error = syntaxError('[1, 2]\nx');
+
+    expect(error.message).toBe("Unexpected character 'x'");
+    expect(error.position).toEqual({ line: 2, column: 1 });
+  });
+
+  it('reports an empty document', () => {
+    expect(syntaxError('  ').message).toBe('Unexpected end of JSON');
+  });
+});
+
+describe('toJsonPointer', () => {
+  it('escapes keys and joins them', () => {
+    expect(toJsonPointer(['nodes', 0, 'a/b~'])).toBe('/nodes/0/a~1b~0');
+  });
+
+  it('returns the root pointer for an empty path', () => {
+    expect(toJsonPointer([])).toBe('');
+  });
+});
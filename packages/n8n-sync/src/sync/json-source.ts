@@ -0,0 +1,182 @@
+export interface JsonPosition {
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+}
+
+export class JsonSyntaxError extends Error {
+  constructor(
+    message: string,
+    public position: JsonPosition
+  ) {
+    super(message);
+    this.name = 'JsonSyntaxError';
+  }
+}
+
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/**
+ * Map the JSON pointer of every value in a JSON document to the position
+ * where the value starts. Throws a JsonSyntaxError with the position of the
+ * first syntax error.
+ */
+export function mapJsonPointers(text: string): Map<string, JsonPosition> {
+  const pointers = new Map<string, JsonPosition>();
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  let offset = 0;
+
+  const positionAt = (at: number): JsonPosition => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= at) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: at - lineStarts[low] + 1 };
+  };
+
+  const fail = (message: string, at = offset): never => {
+    throw new JsonSyntaxError(message, positionAt(at));
+  };
+
+  const unexpected = (): never =>
+    offset >= text.length
+      ? fail('Unexpected end of JSON')
+      : fail(`Unexpected character '${text[offset]}'`);
+
+  const skipWhitespace = () => {
+    while (offset < text.length && /\s/.test(text[offset])) offset++;
+  };
+
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (text[offset] !== char) {
+      fail(offset >= text.length ? `Expected '${char}' before end of JSON` : `Expected '${char}'`);
+    }
+    offset++;
+  };
+
+  const readString = (): string => {
+    const start = offset;
+    offset++;
+    while (offset < text.length && text[offset] !== '"') {
+      if (text[offset] === '\\') offset++;
+      else if (text[offset] === '\n') fail('Unterminated string');
+      offset++;
+    }
+    if (offset >= text.length) fail('Unterminated string', start);
+    offset++;
+
+    try {
+      return JSON.parse(text.slice(start, offset)) as string;
+    } catch {
+      return fail('Invalid escape in string', start);
+    }
+  };
+
+  const readValue = (pointer: string) => {
+    skipWhitespace();
+    pointers.set(pointer, positionAt(offset));
+
+    const char = text[offset];
+    if (char === '{') {
+      offset++;
+      skipWhitespace();
+      if (text[offset] === '}') {
+        offset++;
+        return;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[offset] !== '"') fail('Expected a property name');
+        const key = readString();
+        expect(':');
+        readValue(`${pointer}/${escapePointer(key)}`);
+        skipWhitespace();
+        if (text[offset] === ',') {
+          offset++;
+          continue;
+        }
+        expect('}');
+        return;
+      }
+    }
+
+    if (char === '[') {
+      offset++;
+      skipWhitespace();
+      if (text[offset] === ']') {
+        offset++;
+        return;
+      }
+      for (let index = 0; ; index++) {
+        readValue(`${pointer}/${index}`);
+        skipWhitespace();
+        if (text[offset] === ',') {
+          offset++;
+          continue;
+        }
+        expect(']');
+        return;
+      }
+    }
+
+    if (char === '"') {
+      readString();
+      return;
+    }
+
+    for (const literal of ['true', 'false', 'null']) {
+      if (text.startsWith(literal, offset)) {
+        offset += literal.length;
+        return;
+      }
+    }
+
+    NUMBER.lastIndex = offset;
+    const number = NUMBER.exec(text);
+    if (number) {
+      offset += number[0].length;
+      return;
+    }
+
+    unexpected();
+  };
+
+  readValue('');
+  skipWhitespace();
+  if (offset < text.length) {
+    unexpected();
+  }
+
+  return pointers;
+}
+
+/**
+ * Find the position of a JSON pointer, or of its closest existing parent when
+ * the value is missing.
+ */
+export function locateJsonPointer(pointers: Map<string, JsonPosition>, pointer: string): JsonPosition {
+  for (let current = pointer; ; current = current.slice(0, current.lastIndexOf('/'))) {
+    const position = pointers.get(current);
+    if (position || current === '') return position ?? { line: 1, column: 1 };
+  }
+}
+
+/**
+ * Build a JSON pointer from a path of keys and indexes.
+ */
+export function toJsonPointer(path: ReadonlyArray<PropertyKey>): string {
+  return path.map((key) => `/${escapePointer(String(key))}`).join('');
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
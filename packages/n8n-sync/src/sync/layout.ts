@@ -0,0 +1,74 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { eq } from 'drizzle-orm';
+import { getDb, schema, logger } from '@flowsfarm/core';
+import type { N8nWorkflow } from '../types';
+import {
+  getLayoutPath,
+  getWorkflowDir,
+  getWorkflowPath,
+  moveWorkflowDir,
+  readBaseSnapshot,
+  readWorkflowFile,
+} from './files';
+import { trackMovedWorkflows } from './local';
+
+export interface LayoutMove {
+  workflowId: string;
+  workflowName: string;
+  /** Folders relative to workflowsPath */
+  from: string;
+  to: string;
+}
+
+/**
+ * Move the workflow folders of a connection to the paths of the layout
+ * configured in .flowsfarm.json. With `dryRun`, only report the moves.
+ */
+export function migrateLayout(connectionId: string, options: { dryRun?: boolean } = {}): LayoutMove[] {
+  trackMovedWorkflows(connectionId);
+
+  const workflows = getDb()
+    .select()
+    .from(schema.workflows)
+    .where(eq(schema.workflows.connectionId, connectionId))
+    .all();
+
+  const moves: LayoutMove[] = [];
+  const planned = new Set<string>();
+
+  for (const workflow of workflows) {
+    const workflowDir = getWorkflowDir(workflow);
+    if (!existsSync(join(workflowDir, 'workflow.json'))) {
+      continue;
+    }
+
+    // Tags come from the last-synced version, like on pull
+    let tags: N8nWorkflow['tags'];
+    try {
+      tags = (readBaseSnapshot(workflowDir) ?? readWorkflowFile(workflowDir)).tags;
+    } catch {
+      logger.warn(`Could not read tags of ${workflow.name}, placing it without them`);
+    }
+
+    const from = getWorkflowPath(workflow);
+    let to = getLayoutPath(connectionId, { id: workflow.remoteId, name: workflow.name, tags }, workflow.id);
+    // In a dry run, earlier moves do not take their folders
+    if (planned.has(to)) {
+      to = `${to}-${workflow.remoteId}`;
+    }
+    planned.add(to);
+
+    if (from === to) {
+      continue;
+    }
+
+    if (!options.dryRun) {
+      moveWorkflowDir(workflow, to);
+    }
+
+    moves.push({ workflowId: workflow.id, workflowName: workflow.name, from, to });
+  }
+
+  return moves;
+}
@@ -0,0 +1,63 @@
+import { and, eq, or } from 'drizzle-orm';
+import { getDb, schema } from '@flowsfarm/core';
+
+/**
+ * Get the workflows linked between two connections, as remote IDs on the
+ * first connection mapped to remote IDs on the second. Links apply both ways.
+ */
+export function getWorkflowLinks(connectionId: string, otherConnectionId: string): Map<string, string> {
+  const links = getDb()
+    .select()
+    .from(schema.workflowLinks)
+    .where(
+      or(
+        and(
+          eq(schema.workflowLinks.sourceConnectionId, connectionId),
+          eq(schema.workflowLinks.targetConnectionId, otherConnectionId)
+        ),
+        and(
+          eq(schema.workflowLinks.sourceConnectionId, otherConnectionId),
+          eq(schema.workflowLinks.targetConnectionId, connectionId)
+        )
+      )
+    )
+    .all();
+
+  return new Map(
+    links.map((link) =>
+      link.sourceConnectionId === connectionId
+        ? [link.sourceRemoteId, link.targetRemoteId]
+        : [link.targetRemoteId, link.sourceRemoteId]
+    )
+  );
+}
+
+/**
+ * Link a workflow to its copy on another connection, replacing an earlier link.
+ */
+export function linkWorkflows(
+  sourceConnectionId: string,
+  sourceRemoteId: string,
+  targetConnectionId: string,
+  targetRemoteId: string
+): void {
+  const db = getDb();
+
+  db.delete(schema.workflowLinks)
+    .where(
+      and(
+        eq(schema.workflowLinks.sourceConnectionId, sourceConnectionId),
+        eq(schema.workflowLinks.sourceRemoteId, sourceRemoteId),
+        eq(schema.workflowLinks.targetConnectionId, targetConnectionId)
+      )
+    )
+    .run();
+
+  db.insert(schema.workflowLinks).values({
+    sourceConnectionId,
+    sourceRemoteId,
+    targetConnectionId,
+    targetRemoteId,
+    createdAt: new Date(),
+  }).run();
+}
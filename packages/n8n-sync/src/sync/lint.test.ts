@@ -0,0 +1,66 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FakeN8n, createTestProject, type TestProject } from '../testing';
+import { SyncEngine } from './engine';
+import { lintLocalWorkflows } from './lint';
+
+describe('lintLocalWorkflows', () => {
+  let n8n: FakeN8n;
+  let project: TestProject;
+
+  beforeEach(async () => {
+    n8n = new FakeN8n();
+    project = await createTestProject(n8n);
+  });
+
+  afterEach(() => {
+    project.cleanup();
+  });
+
+  it('locates each issue in workflow.json', async () => {
+    // A weather lookup with the API key pasted into the request
+    const { id } = n8n.add({
+      name: 'Weather alert',
+      nodes: [
+        {
+          name: 'Every hour',
+          type: 'n8n-nodes-base.scheduleTrigger',
+          position: [0, 0],
+          parameters: {},
+        },
+        {
+          name: 'Forecast',
+          type: 'n8n-nodes-base.httpRequest',
+          position: [220, 0],
+          parameters: { url: 'https://api.weather.test/forecast', apiKey: 'f3a9c2d17b5e4e08' },
+        },
+      ],
+      connections: {
+        'Every hour': { main: [[{ node: 'Forecast', type: 'main', index: 0 }]] },
+      },
+    });
+    await new SyncEngine(project.connectionId).pull();
+
+    const [result] = lintLocalWorkflows(project.connectionId);
+
+    const lines = readFileSync(
+      join(project.workflowsPath, project.connectionId, id, 'workflow.json'),
+      'utf-8'
+    ).split('\n');
+    // Position of the value of a key in the file
+    const locate = (key: string) => {
+      const property = `"${key}": `;
+      const line = lines.findIndex((l) => l.includes(property)) + 1;
+      return { line, column: lines[line - 1].indexOf(property) + property.length + 1 };
+    };
+    expect(result.issues).toEqual([
+      expect.objectContaining({ rule: 'missing-error-workflow', path: 'settings', ...locate('settings') }),
+      expect.objectContaining({
+        rule: 'hardcoded-secret',
+        path: 'nodes[1].parameters.apiKey',
+        ...locate('apiKey'),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,380 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import { and, eq, ne } from 'drizzle-orm';
+import { getConfig, getDb, schema, type LintSettings } from '@flowsfarm/core';
+import type { N8nNode, N8nWorkflow } from '../types';
+import { getWorkflowDir, readWorkflowFile } from './files';
+import { locateJsonPointer, mapJsonPointers, toJsonPointer } from './json-source';
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  /** Node the issue is about, if any */
+  node?: string;
+  /** Path of the offending value in workflow.json, e.g. nodes[2].parameters.apiKey */
+  path?: string;
+  /** Position of the value in workflow.json, or of its closest parent; set for local files */
+  line?: number;
+  column?: number;
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  /** Severity unless configured otherwise in the lint section of .flowsfarm.json */
+  severity: LintSeverity;
+  check(workflow: N8nWorkflow): Array<Omit<LintIssue, 'rule' | 'severity'>>;
+}
+
+export interface LintResult {
+  workflowId: string;
+  workflowName: string;
+  filePath: string;
+  issues: LintIssue[];
+}
+
+const STICKY_NOTE = 'n8n-nodes-base.stickyNote';
+
+const TRIGGER_TYPES = new Set(['n8n-nodes-base.webhook', 'n8n-nodes-base.cron', 'n8n-nodes-base.interval']);
+
+// Parameter names holding credentials, matched at the end of the name
+const SECRET_KEY = /(api[-_]?key|secret|password|passwd|token|private[-_]?key|access[-_]?key|authorization)$/i;
+
+// Well-known token formats, matched anywhere in a parameter
+const SECRET_VALUES = [
+  /\bsk-[A-Za-z0-9_-]{20,}/,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/,
+  /\bgh[pousr]_[A-Za-z0-9]{30,}/,
+  /\bAKIA[0-9A-Z]{16}\b/,
+  /\bAIza[0-9A-Za-z_-]{35}/,
+  /\bBearer\s+[A-Za-z0-9._~+/-]{20,}/,
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----/,
+];
+
+const rules: LintRule[] = [
+  {
+    id: 'disconnected-node',
+    description: 'Nodes that are not connected to any other node',
+    severity: 'warning',
+    check(workflow) {
+      const nodes = (workflow.nodes ?? []).filter((n) => n.type !== STICKY_NOTE);
+      if (nodes.length < 2) return [];
+
+      const connected = new Set<string>();
+      for (const { from, to } of listConnections(workflow)) {
+        connected.add(from);
+        connected.add(to);
+      }
+
+      return nodes
+        .filter((node) => !connected.has(node.name))
+        .map((node) => ({
+          message: `Node "${node.name}" is not connected`,
+          node: node.name,
+          path: nodePath(workflow, node),
+        }));
+    },
+  },
+  {
+    id: 'unknown-connection-node',
+    description: 'Connections from or to node names that do not exist',
+    severity: 'error',
+    check(workflow) {
+      const names = new Set((workflow.nodes ?? []).map((n) => n.name));
+      const issues: Array<Omit<LintIssue, 'rule' | 'severity'>> = [];
+
+      for (const source of Object.keys(workflow.connections ?? {})) {
+        if (!names.has(source)) {
+          issues.push({
+            message: `Connection from unknown node "${source}"`,
+            path: `connections.${source}`,
+          });
+        }
+      }
+
+      for (const { from, to } of listConnections(workflow)) {
+        if (names.has(from) && !names.has(to)) {
+          issues.push({
+            message: `Connection from "${from}" to unknown node "${to}"`,
+            node: from,
+            path: `connections.${from}`,
+          });
+        }
+      }
+
+      return issues;
+    },
+  },
+  {
+    id: 'duplicate-node-name',
+    description: 'Several nodes with the same name',
+    severity: 'error',
+    check(workflow) {
+      const seen = new Set<string>();
+      return (workflow.nodes ?? [])
+        .filter((node) => seen.has(node.name) || !seen.add(node.name))
+        .map((node) => ({
+          message: `Duplicate node name "${node.name}"`,
+          node: node.name,
+          path: nodePath(workflow, node),
+        }));
+    },
+  },
+  {
+    id: 'missing-error-workflow',
+    description: 'No error workflow set in settings.errorWorkflow',
+    severity: 'warning',
+    check(workflow) {
+      return workflow.settings?.errorWorkflow
+        ? []
+        : [{ message: 'No error workflow set in settings.errorWorkflow', path: 'settings' }];
+    },
+  },
+  {
+    id: 'hardcoded-secret',
+    description: 'API keys, tokens and passwords written in node parameters',
+    severity: 'error',
+    check(workflow) {
+      const issues: Array<Omit<LintIssue, 'rule' | 'severity'>> = [];
+
+      for (const node of workflow.nodes ?? []) {
+        const basePath = `${nodePath(workflow, node)}.parameters`;
+        walkStrings(node.parameters ?? {}, basePath, (value, path, key) => {
+          const secret = findSecret(value, key);
+          if (secret !== null) {
+            issues.push({
+              message: `Hard-coded secret in node "${node.name}" (${mask(secret)}), use a credential instead`,
+              node: node.name,
+              path,
+            });
+          }
+        });
+      }
+
+      return issues;
+    },
+  },
+  {
+    id: 'disabled-node-in-active-workflow',
+    description: 'Disabled nodes left in an active workflow',
+    severity: 'warning',
+    check(workflow) {
+      if (!workflow.active) return [];
+
+      return (workflow.nodes ?? [])
+        .filter((node) => node.disabled)
+        .map((node) => ({
+          message: `Node "${node.name}" is disabled in an active workflow`,
+          node: node.name,
+          path: `${nodePath(workflow, node)}.disabled`,
+        }));
+    },
+  },
+  {
+    id: 'missing-trigger',
+    description: 'Workflows without a trigger node',
+    severity: 'warning',
+    check(workflow) {
+      return (workflow.nodes ?? []).some(isTrigger)
+        ? []
+        : [{ message: 'Workflow has no trigger node and cannot be activated', path: 'nodes' }];
+    },
+  },
+];
+
+/**
+ * Add a rule to the linter. Rules run in the order they were registered.
+ */
+export function registerLintRule(rule: LintRule): void {
+  if (rules.some((r) => r.id === rule.id)) {
+    throw new Error(`Lint rule already registered: ${rule.id}`);
+  }
+  rules.push(rule);
+}
+
+/**
+ * Get the enabled rules, with severities from the lint settings.
+ */
+export function getLintRules(settings: LintSettings | undefined = getConfig().lint): LintRule[] {
+  const configured = settings?.rules ?? {};
+
+  return rules
+    .filter((rule) => configured[rule.id] !== 'off')
+    .map((rule) => {
+      const severity = configured[rule.id];
+      return severity && severity !== 'off' ? { ...rule, severity } : rule;
+    });
+}
+
+/**
+ * List all registered rules, including disabled ones.
+ */
+export function listLintRules(): LintRule[] {
+  return [...rules];
+}
+
+/**
+ * Run the rules on a workflow.
+ */
+export function lintWorkflow(workflow: N8nWorkflow, lintRules: LintRule[] = getLintRules()): LintIssue[] {
+  return lintRules.flatMap((rule) =>
+    rule.check(workflow).map((issue) => ({ rule: rule.id, severity: rule.severity, ...issue }))
+  );
+}
+
+/**
+ * Lint a workflow file, with its node files. Placeholders are linted as
+ * written, not rendered.
+ */
+export function lintWorkflowFile(workflowPath: string, lintRules?: LintRule[]): LintIssue[] {
+  return lintWorkflow(readWorkflowFile(dirname(workflowPath)), lintRules);
+}
+
+/**
+ * Lint the local workflow files of a connection, optionally a single
+ * workflow by name, ID or remote ID.
+ */
+export function lintLocalWorkflows(connectionId: string, workflowRef?: string): LintResult[] {
+  const lintRules = getLintRules();
+
+  const workflows = getDb()
+    .select()
+    .from(schema.workflows)
+    .where(
+      and(
+        eq(schema.workflows.connectionId, connectionId),
+        ne(schema.workflows.syncStatus, 'pending_delete')
+      )
+    )
+    .all()
+    .filter(
+      (w) =>
+        !workflowRef || w.id === workflowRef || w.remoteId === workflowRef || w.name === workflowRef
+    );
+
+  const results: LintResult[] = [];
+
+  for (const workflow of workflows) {
+    const workflowPath = join(getWorkflowDir(workflow), 'workflow.json');
+    if (!existsSync(workflowPath)) {
+      continue;
+    }
+
+    let issues: LintIssue[];
+    try {
+      issues = locateIssues(lintWorkflowFile(workflowPath, lintRules), readFileSync(workflowPath, 'utf-8'));
+    } catch (error) {
+      issues = [
+        {
+          rule: 'parse-error',
+          severity: 'error',
+          message: error instanceof Error ? error.message : String(error),
+        },
+      ];
+    }
+
+    results.push({
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      filePath: relative(process.cwd(), workflowPath),
+      issues,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Add the position of each issue's path in the text of workflow.json.
+ */
+function locateIssues(issues: LintIssue[], text: string): LintIssue[] {
+  const pointers = mapJsonPointers(text);
+
+  return issues.map((issue) =>
+    issue.path
+      ? { ...issue, ...locateJsonPointer(pointers, pathToPointer(issue.path)) }
+      : issue
+  );
+}
+
+// nodes[2].parameters.apiKey -> /nodes/2/parameters/apiKey
+function pathToPointer(path: string): string {
+  return toJsonPointer([...path.matchAll(/([^.[\]]+)|\[(\d+)\]/g)].map((m) => m[1] ?? m[2]));
+}
+
+function listConnections(workflow: N8nWorkflow): Array<{ from: string; to: string }> {
+  const connections: Array<{ from: string; to: string }> = [];
+
+  for (const [from, outputs] of Object.entries(workflow.connections ?? {})) {
+    for (const slots of Object.values(outputs ?? {})) {
+      for (const targets of slots ?? []) {
+        for (const target of targets ?? []) {
+          connections.push({ from, to: target.node });
+        }
+      }
+    }
+  }
+
+  return connections;
+}
+
+function nodePath(workflow: N8nWorkflow, node: N8nNode): string {
+  return `nodes[${workflow.nodes.indexOf(node)}]`;
+}
+
+/**
+ * Whether a node can start the workflow.
+ */
+export function isTrigger(node: N8nNode): boolean {
+  return TRIGGER_TYPES.has(node.type) || /trigger$/i.test(node.type);
+}
+
+/**
+ * Find a secret in a parameter value: a well-known token format anywhere, or
+ * any literal value of a parameter named like a credential.
+ */
+function findSecret(value: string, key: string | undefined): string | null {
+  // Expressions and placeholders are resolved elsewhere
+  const literal =
+    value.startsWith('=') || value.includes('{{') ? value.replace(/\{\{.*?\}\}/g, '') : value;
+
+  for (const pattern of SECRET_VALUES) {
+    const match = literal.match(pattern);
+    if (match) return match[0];
+  }
+
+  if (literal === value && key !== undefined && SECRET_KEY.test(key) && value.trim().length >= 8) {
+    return value;
+  }
+
+  return null;
+}
+
+function walkStrings(
+  value: unknown,
+  path: string,
+  visit: (value: string, path: string, key: string | undefined) => void,
+  key?: string
+): void {
+  if (typeof value === 'string') {
+    visit(value, path, key);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => walkStrings(item, `${path}[${i}]`, visit, key));
+  } else if (value !== null && typeof value === 'object') {
+    // Header and query lists hold { name, value } pairs
+    const entry = value as Record<string, unknown>;
+    const pairName = typeof entry.name === 'string' && 'value' in entry ? entry.name : undefined;
+
+    for (const [k, v] of Object.entries(entry)) {
+      walkStrings(v, `${path}.${k}`, visit, k === 'value' && pairName ? pairName : k);
+    }
+  }
+}
+
+function mask(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.length <= 8 ? '****' : `${trimmed.slice(0, 4)}****`;
+}
@@ -0,0 +1,83 @@
+import { mkdirSync, renameSync } from 'fs';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getDb, schema } from '@flowsfarm/core';
+import { FakeN8n, createTestProject, type TestProject } from '../testing';
+import { SyncEngine } from './engine';
+import { findMovedWorkflows, findUntrackedWorkflows } from './local';
+
+describe('workflow folders moved by hand', () => {
+  let n8n: FakeN8n;
+  let project: TestProject;
+  let engine: SyncEngine;
+  let movedPath: string;
+
+  const row = () => getDb().select().from(schema.workflows).get()!;
+
+  beforeEach(async () => {
+    n8n = new FakeN8n();
+    project = await createTestProject(n8n);
+    engine = new SyncEngine(project.connectionId);
+
+    const { id } = n8n.add({
+      name: 'Lead enrichment',
+      nodes: [
+        {
+          name: 'New lead',
+          type: 'n8n-nodes-base.hubspotTrigger',
+          position: [0, 0],
+          parameters: { eventsUi: { eventValues: [{ name: 'contact.creation' }] } },
+        },
+      ],
+    });
+    await engine.pull();
+
+    // Sorted into a team folder
+    movedPath = join(project.connectionId, 'sales', 'lead-enrichment');
+    mkdirSync(join(project.workflowsPath, project.connectionId, 'sales'));
+    renameSync(
+      join(project.workflowsPath, project.connectionId, id),
+      join(project.workflowsPath, movedPath)
+    );
+  });
+
+  afterEach(() => {
+    project.cleanup();
+  });
+
+  it('are found by the remote ID in their meta.json', () => {
+    const before = row();
+
+    expect(findMovedWorkflows(project.connectionId)).toEqual([{ ...before, localPath: movedPath }]);
+    expect(findUntrackedWorkflows(project.connectionId)).toEqual([]);
+    expect(row()).toEqual(before);
+  });
+
+  it('are shown by status at their new path without recording the move', () => {
+    const before = row();
+
+    const status = engine.getStatus();
+
+    expect(status.moved).toEqual([expect.objectContaining({ name: 'Lead enrichment' })]);
+    expect(status.moved[0].path).toContain(join('sales', 'lead-enrichment', 'workflow.json'));
+    expect(status.synced).toHaveLength(1);
+    expect(status.pendingDelete).toEqual([]);
+    expect(status.newLocal).toEqual([]);
+    expect(row()).toEqual(before);
+  });
+
+  it('are recorded by the next push', async () => {
+    const result = await engine.push();
+
+    expect(result).toMatchObject({ total: 0, created: 0, deleted: 0 });
+    expect(row()).toMatchObject({ localPath: movedPath, syncStatus: 'synced' });
+    expect(engine.getStatus().moved).toEqual([]);
+  });
+
+  it('are recorded by the next pull instead of being restored', async () => {
+    const result = await engine.pull();
+
+    expect(result).toMatchObject({ created: 0, updated: 0, unchanged: 1 });
+    expect(row()).toMatchObject({ localPath: movedPath, syncStatus: 'synced' });
+  });
+});
@@ -0,0 +1,314 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { basename, join, relative } from 'path';
+import { and, eq } from 'drizzle-orm';
+import {
+  getDb,
+  getConfig,
+  formatWorkflowJson,
+  generateId,
+  schema,
+  logger,
+  type Workflow,
+} from '@flowsfarm/core';
+import type { CreateWorkflowInput } from '../types';
+import {
+  getConnectionDir,
+  getLayoutPath,
+  getWorkflowDir,
+  getWorkflowPath,
+  readLocalWorkflow,
+  readWorkflowMeta,
+} from './files';
+import { hashSyncedWorkflow } from './hashes';
+
+export interface UntrackedWorkflow {
+  /** Folder relative to workflowsPath */
+  localPath: string;
+  name: string;
+  path: string;
+}
+
+/**
+ * Find workflow folders in a connection's directory that are not tracked yet.
+ * These are workflows authored locally that do not exist on the remote.
+ * Folders of tracked workflows that were moved by hand are left out, see
+ * findMovedWorkflows().
+ */
+export function findUntrackedWorkflows(connectionId: string): UntrackedWorkflow[] {
+  const moved = new Set(findMovedWorkflows(connectionId).map((w) => w.localPath));
+  const untracked: UntrackedWorkflow[] = [];
+
+  for (const localPath of findWorkflowFolders(connectionId)) {
+    if (moved.has(localPath)) {
+      continue;
+    }
+
+    const workflowPath = join(getConfig().workflowsPath, localPath, 'workflow.json');
+
+    try {
+      const data = JSON.parse(readFileSync(workflowPath, 'utf-8')) as { name?: unknown };
+      untracked.push({
+        localPath,
+        name: typeof data.name === 'string' ? data.name : basename(localPath),
+        path: relative(process.cwd(), workflowPath),
+      });
+    } catch {
+      logger.warn(`Skipping invalid workflow file: ${workflowPath}`);
+    }
+  }
+
+  return untracked;
+}
+
+/**
+ * Find tracked workflows whose folder was moved or renamed by hand,
+ * recognized by the remote ID in their meta.json. Returns them with their
+ * new folder, without updating the database.
+ */
+export function findMovedWorkflows(connectionId: string): Workflow[] {
+  const missing = getDb()
+    .select()
+    .from(schema.workflows)
+    .where(eq(schema.workflows.connectionId, connectionId))
+    .all()
+    .filter((w) => !existsSync(join(getWorkflowDir(w), 'workflow.json')));
+
+  if (missing.length === 0) {
+    return [];
+  }
+
+  const moved: Workflow[] = [];
+
+  for (const localPath of findWorkflowFolders(connectionId)) {
+    const meta = readWorkflowMeta(join(getConfig().workflowsPath, localPath));
+    const workflow = missing.find(
+      (w) =>
+        w.remoteId === meta?.remoteId &&
+        (!meta.connectionId || meta.connectionId === connectionId) &&
+        !moved.some((m) => m.id === w.id)
+    );
+    if (!workflow) {
+      continue;
+    }
+
+    moved.push({ ...workflow, localPath });
+  }
+
+  return moved;
+}
+
+/**
+ * Update the folder of tracked workflows that were moved or renamed by hand.
+ * Returns the moved workflows.
+ */
+export function trackMovedWorkflows(connectionId: string): Workflow[] {
+  const db = getDb();
+  const moved = findMovedWorkflows(connectionId);
+
+  for (const workflow of moved) {
+    db.update(schema.workflows)
+      .set({ localPath: workflow.localPath })
+      .where(eq(schema.workflows.id, workflow.id))
+      .run();
+
+    logger.info(`Workflow moved: ${workflow.name} is now in ${workflow.localPath}`);
+  }
+
+  return moved;
+}
+
+/**
+ * List untracked folders with a workflow.json under a connection's directory,
+ * relative to workflowsPath. Workflow folders are not searched further.
+ */
+function findWorkflowFolders(connectionId: string): string[] {
+  const root = getConfig().workflowsPath;
+  const connectionDir = getConnectionDir(connectionId);
+
+  if (!existsSync(connectionDir)) {
+    return [];
+  }
+
+  const tracked = new Set(
+    getDb()
+      .select()
+      .from(schema.workflows)
+      .where(eq(schema.workflows.connectionId, connectionId))
+      .all()
+      .map(getWorkflowPath)
+  );
+
+  const folders: string[] = [];
+
+  const visit = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (!entry.isDirectory() || entry.name.startsWith('.')) {
+        continue;
+      }
+
+      const folder = join(dir, entry.name);
+      const localPath = relative(root, folder);
+
+      if (existsSync(join(folder, 'workflow.json'))) {
+        if (!tracked.has(localPath)) {
+          folders.push(localPath);
+        }
+      } else if (!tracked.has(localPath)) {
+        visit(folder);
+      }
+    }
+  };
+
+  visit(connectionDir);
+
+  return folders;
+}
+
+/**
+ * Track untracked local workflow folders as new workflows to be created on push.
+ */
+export function registerNewLocalWorkflows(connectionId: string): Workflow[] {
+  trackMovedWorkflows(connectionId);
+
+  return findUntrackedWorkflows(connectionId).map((untracked) =>
+    trackNewLocalWorkflow(connectionId, untracked.localPath, untracked.name)
+  );
+}
+
+/**
+ * Create a workflow locally only. It is created on the remote on the next push.
+ */
+export function createDraftWorkflow(
+  connectionId: string,
+  workflow: CreateWorkflowInput
+): Workflow {
+  const draftId = generateId();
+  const localPath = getLayoutPath(connectionId, { id: draftId, name: workflow.name });
+  const workflowDir = join(getConfig().workflowsPath, localPath);
+
+  mkdirSync(workflowDir, { recursive: true });
+  writeFileSync(
+    join(workflowDir, 'workflow.json'),
+    formatWorkflowJson({
+      name: workflow.name,
+      active: workflow.active ?? false,
+      nodes: workflow.nodes,
+      connections: workflow.connections,
+      settings: workflow.settings ?? {},
+    })
+  );
+
+  return trackNewLocalWorkflow(connectionId, localPath, workflow.name, draftId);
+}
+
+/**
+ * Mark tracked workflows whose local folder was deleted as pending deletion.
+ * Workflows that were never created on the remote are simply untracked.
+ */
+export function markLocalDeletions(connectionId: string): Workflow[] {
+  const db = getDb();
+  trackMovedWorkflows(connectionId);
+
+  const workflows = db
+    .select()
+    .from(schema.workflows)
+    .where(eq(schema.workflows.connectionId, connectionId))
+    .all();
+
+  const marked: Workflow[] = [];
+
+  for (const workflow of workflows) {
+    if (
+      workflow.syncStatus === 'deleted_remote' ||
+      workflow.syncStatus === 'pending_delete' ||
+      existsSync(join(getWorkflowDir(workflow), 'workflow.json'))
+    ) {
+      continue;
+    }
+
+    if (workflow.syncStatus === 'new_local') {
+      db.delete(schema.workflows).where(eq(schema.workflows.id, workflow.id)).run();
+      logger.info(`Untracked deleted local workflow: ${workflow.name}`);
+      continue;
+    }
+
+    db.update(schema.workflows)
+      .set({ syncStatus: 'pending_delete', localUpdatedAt: new Date() })
+      .where(eq(schema.workflows.id, workflow.id))
+      .run();
+
+    marked.push({ ...workflow, syncStatus: 'pending_delete' });
+    logger.info(`Workflow deleted locally: ${workflow.name}`);
+  }
+
+  return marked;
+}
+
+/**
+ * Delete a workflow locally and mark it for deletion on the next push.
+ * Returns false if the workflow only existed locally and was removed outright.
+ */
+export function markWorkflowForDeletion(workflow: Workflow): boolean {
+  const db = getDb();
+
+  rmSync(getWorkflowDir(workflow), { recursive: true, force: true });
+
+  if (workflow.syncStatus === 'new_local') {
+    db.delete(schema.workflows).where(eq(schema.workflows.id, workflow.id)).run();
+    return false;
+  }
+
+  db.update(schema.workflows)
+    .set({ syncStatus: 'pending_delete', localUpdatedAt: new Date() })
+    .where(eq(schema.workflows.id, workflow.id))
+    .run();
+
+  return true;
+}
+
+/**
+ * Get workflows waiting to be deleted on the remote, including folders deleted by hand.
+ */
+export function getPendingDeletions(connectionId: string): Workflow[] {
+  markLocalDeletions(connectionId);
+
+  return getDb()
+    .select()
+    .from(schema.workflows)
+    .where(
+      and(
+        eq(schema.workflows.connectionId, connectionId),
+        eq(schema.workflows.syncStatus, 'pending_delete')
+      )
+    )
+    .all();
+}
+
+function trackNewLocalWorkflow(
+  connectionId: string,
+  localPath: string,
+  name: string,
+  draftId: string = generateId()
+): Workflow {
+  const content = readLocalWorkflow(connectionId, join(getConfig().workflowsPath, localPath));
+
+  const workflow: Workflow = {
+    id: generateId(),
+    connectionId,
+    // A generated ID stands in for the remote ID until the workflow is created
+    remoteId: draftId,
+    localPath,
+    name,
+    active: false,
+    contentHash: hashSyncedWorkflow(content),
+    localUpdatedAt: new Date(),
+    remoteUpdatedAt: null,
+    syncStatus: 'new_local',
+    createdAt: new Date(),
+  };
+
+  getDb().insert(schema.workflows).values(workflow).run();
+  logger.info(`Tracking new local workflow: ${name}`);
+
+  return workflow;
+}
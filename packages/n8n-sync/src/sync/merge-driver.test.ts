@@ -0,0 +1,169 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { formatWorkflowJson } from '@flowsfarm/core';
+import type { N8nWorkflow } from '../types';
+import { formatMergeConflict, mergeWorkflowFiles } from './merge-driver';
+import { WorkflowValidationError } from './validate';
+
+// Invoices above a limit wait for approval in Slack, as committed on main
+const approval: N8nWorkflow = {
+  id: 'inv7',
+  name: 'Invoice approval',
+  active: true,
+  nodes: [
+    {
+      id: 'i1',
+      name: 'New invoice',
+      type: 'n8n-nodes-base.webhook',
+      typeVersion: 2,
+      position: [0, 0],
+      parameters: { path: 'invoices', httpMethod: 'POST' },
+    },
+    {
+      id: 'i2',
+      name: 'Over limit?',
+      type: 'n8n-nodes-base.if',
+      typeVersion: 2,
+      position: [220, 0],
+      parameters: { conditions: { number: [{ value1: '={{ $json.total }}', operation: 'larger', value2: 5000 }] } },
+    },
+    {
+      id: 'i3',
+      name: 'Ask approval',
+      type: 'n8n-nodes-base.slack',
+      typeVersion: 2,
+      position: [440, 0],
+      parameters: { channel: '#finance', text: 'Invoice needs approval' },
+    },
+  ],
+  connections: {
+    'New invoice': { main: [[{ node: 'Over limit?', type: 'main', index: 0 }]] },
+    'Over limit?': { main: [[{ node: 'Ask approval', type: 'main', index: 0 }], []] },
+  },
+  createdAt: '2024-03-04T09:00:00.000Z',
+  updatedAt: '2024-03-04T09:00:00.000Z',
+};
+
+// A branch's version of the workflow, changing the node with the given name
+function onBranch(name: string, parameters: Record<string, unknown>): N8nWorkflow {
+  const workflow = structuredClone(approval);
+  workflow.nodes.find((n) => n.name === name)!.parameters = parameters;
+  return workflow;
+}
+
+const withLimit = (limit: number) =>
+  onBranch('Over limit?', {
+    conditions: { number: [{ value1: '={{ $json.total }}', operation: 'larger', value2: limit }] },
+  });
+
+describe('mergeWorkflowFiles', () => {
+  let dir: string;
+  const path = (name: string) => join(dir, name);
+
+  const write = (files: Record<string, N8nWorkflow | string>) => {
+    for (const [name, content] of Object.entries(files)) {
+      writeFileSync(path(name), typeof content === 'string' ? content : JSON.stringify(content));
+    }
+  };
+
+  const merge = () =>
+    mergeWorkflowFiles(path('ancestor'), path('ours'), path('theirs'), 'workflow.json');
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'flowsfarm-merge-driver-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes the merged workflow to ours in canonical form', () => {
+    write({
+      ancestor: approval,
+      ours: withLimit(10000),
+      theirs: onBranch('Ask approval', { channel: '#finance-approvals', text: 'Invoice needs approval' }),
+    });
+
+    const { merged, conflicts } = merge();
+
+    expect(conflicts).toEqual([]);
+    expect(readFileSync(path('ours'), 'utf-8')).toBe(formatWorkflowJson(merged));
+    expect(merged.nodes.map((n) => n.parameters)).toEqual([
+      approval.nodes[0].parameters,
+      withLimit(10000).nodes[1].parameters,
+      { channel: '#finance-approvals', text: 'Invoice needs approval' },
+    ]);
+  });
+
+  it('keeps the ours value of a conflict', () => {
+    write({ ancestor: approval, ours: withLimit(10000), theirs: withLimit(2500) });
+
+    const { conflicts } = merge();
+    const written = JSON.parse(readFileSync(path('ours'), 'utf-8')) as N8nWorkflow;
+
+    expect(conflicts.map((c) => c.path)).toEqual(['node "Over limit?".parameters.conditions']);
+    expect(written.nodes.find((n) => n.name === 'Over limit?')).toMatchObject(
+      withLimit(10000).nodes[1]
+    );
+  });
+
+  it('merges a file added on both branches against an empty ancestor', () => {
+    // The rejected branch of "Over limit?" was added on one branch only
+    const withAutoApprove = structuredClone(approval);
+    withAutoApprove.nodes.push({
+      id: 'i4',
+      name: 'Auto approve',
+      type: 'n8n-nodes-base.httpRequest',
+      typeVersion: 4,
+      position: [440, 200],
+      parameters: { url: 'https://erp.example.com/invoices/approve', method: 'POST' },
+    });
+    write({ ancestor: '', ours: approval, theirs: withAutoApprove });
+
+    const { merged, conflicts } = merge();
+
+    expect(conflicts).toEqual([]);
+    expect(merged.nodes.map((n) => n.name)).toEqual([
+      'New invoice',
+      'Over limit?',
+      'Ask approval',
+      'Auto approve',
+    ]);
+  });
+
+  it('throws for an invalid file and leaves ours as it is', () => {
+    write({ ancestor: approval, ours: approval, theirs: '{"name": "Invoice approval",' });
+    const before = readFileSync(path('ours'), 'utf-8');
+
+    expect(merge).toThrow(WorkflowValidationError);
+    expect(merge).toThrow(/workflow\.json \(theirs\)/);
+    expect(readFileSync(path('ours'), 'utf-8')).toBe(before);
+  });
+});
+
+describe('formatMergeConflict', () => {
+  it('describes a value changed on both sides with short values', () => {
+    expect(
+      formatMergeConflict({ path: 'name', base: 'Invoice approval', local: 'A', remote: 'B' })
+    ).toBe('name: changed on both sides (ours "A", theirs "B")');
+  });
+
+  it('describes a node deleted on one side without its value', () => {
+    expect(
+      formatMergeConflict({
+        path: 'node "Ask approval"',
+        base: {},
+        local: undefined,
+        remote: { name: 'Ask approval' },
+      })
+    ).toBe('node "Ask approval": deleted in ours, changed in theirs');
+  });
+
+  it('describes a value added on both sides', () => {
+    expect(
+      formatMergeConflict({ path: 'settings.timezone', local: 'UTC', remote: 'Europe/Berlin' })
+    ).toBe('settings.timezone: added on both sides (ours "UTC", theirs "Europe/Berlin")');
+  });
+});
@@ -0,0 +1,69 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { formatWorkflowJson } from '@flowsfarm/core';
+import type { N8nWorkflow } from '../types';
+import { mergeWorkflows, type MergeConflict, type MergeResult } from './merge';
+import { validateWorkflowText, WorkflowValidationError } from './validate';
+
+// Ancestor of a file added on both branches
+const EMPTY_WORKFLOW = { name: '', nodes: [], connections: {} } as unknown as N8nWorkflow;
+
+/**
+ * Merge two versions of a workflow file against their common ancestor, as a
+ * git merge driver: the result is written to the `ours` file, with the `ours`
+ * value wherever both versions changed the same thing. Invalid files are not
+ * merged and throw a WorkflowValidationError.
+ */
+export function mergeWorkflowFiles(
+  ancestorPath: string,
+  oursPath: string,
+  theirsPath: string,
+  filePath: string = oursPath
+): MergeResult {
+  const read = (path: string, label: string, allowEmpty = false): N8nWorkflow => {
+    const text = readFileSync(path, 'utf-8');
+    if (allowEmpty && text.trim() === '') {
+      return EMPTY_WORKFLOW;
+    }
+
+    const issues = validateWorkflowText(text);
+    if (issues.length > 0) {
+      throw new WorkflowValidationError(`${filePath} (${label})`, issues);
+    }
+    return JSON.parse(text) as N8nWorkflow;
+  };
+
+  const ancestor = read(ancestorPath, 'ancestor', true);
+  const ours = read(oursPath, 'ours');
+  const theirs = read(theirsPath, 'theirs');
+
+  const result = mergeWorkflows(ancestor, ours, theirs);
+  writeFileSync(oursPath, formatWorkflowJson(result.merged));
+
+  return result;
+}
+
+/**
+ * Describe a merge conflict in one line, e.g.
+ * `node "Code".parameters.jsCode: changed on both sides`.
+ */
+export function formatMergeConflict(conflict: MergeConflict): string {
+  const change = (value: unknown) => {
+    if (conflict.base === undefined) return value === undefined ? 'absent' : 'added';
+    return value === undefined ? 'deleted' : 'changed';
+  };
+
+  const [local, remote] = [change(conflict.local), change(conflict.remote)];
+  const description =
+    local === remote ? `${local} on both sides` : `${local} in ours, ${remote} in theirs`;
+
+  // Short values are shown as they are
+  const values = [conflict.local, conflict.remote].map((value) => JSON.stringify(value));
+  const shown =
+    typeof conflict.local !== 'object' &&
+    typeof conflict.remote !== 'object' &&
+    values.every((value) => (value ?? '').length <= 40)
+      ? ` (ours ${values[0] ?? 'none'}, theirs ${values[1] ?? 'none'})`
+      : '';
+
+  return `${conflict.path}: ${description}${shown}`;
+}
@@ -0,0 +1,216 @@
+import { describe, expect, it } from 'vitest';
+import type { N8nWorkflow } from '../types';
+import { mergeWorkflows } from './merge';
+
+// Base version of a small order workflow: Webhook -> Validate -> Save
+const base: N8nWorkflow = {
+  id: 'orders',
+  name: 'Orders',
+  active: false,
+  nodes: [
+    {
+      id: 'n-webhook',
+      name: 'Webhook',
+      type: 'n8n-nodes-base.webhook',
+      position: [0, 0],
+      parameters: { path: 'orders', httpMethod: 'POST' },
+    },
+    {
+      id: 'n-validate',
+      name: 'Validate',
+      type: 'n8n-nodes-base.code',
+      position: [220, 0],
+      parameters: { jsCode: 'return items.filter((i) => i.json.total > 0);' },
+    },
+    {
+      id: 'n-save',
+      name: 'Save',
+      type: 'n8n-nodes-base.postgres',
+      position: [440, 0],
+      parameters: { table: 'orders', operation: 'insert' },
+    },
+  ],
+  connections: {
+    Webhook: { main: [[{ node: 'Validate', type: 'main', index: 0 }]] },
+    Validate: { main: [[{ node: 'Save', type: 'main', index: 0 }]] },
+  },
+  settings: { executionOrder: 'v1' },
+  createdAt: '2024-03-01T10:00:00.000Z',
+  updatedAt: '2024-03-01T10:00:00.000Z',
+};
+
+// A copy of the base with the given nodes' parameters replaced
+function withParameters(parameters: Record<string, Record<string, unknown>>): N8nWorkflow {
+  return {
+    ...base,
+    nodes: base.nodes.map((node) =>
+      node.name in parameters ? { ...node, parameters: parameters[node.name] } : node
+    ),
+  };
+}
+
+describe('mergeWorkflows', () => {
+  it('combines edits to different nodes', () => {
+    const local = withParameters({ Validate: { jsCode: 'return items;' } });
+    const remote = withParameters({ Save: { table: 'orders_v2', operation: 'insert' } });
+
+    const { merged, conflicts } = mergeWorkflows(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.nodes.map((n) => n.parameters)).toEqual([
+      { path: 'orders', httpMethod: 'POST' },
+      { jsCode: 'return items;' },
+      { table: 'orders_v2', operation: 'insert' },
+    ]);
+  });
+
+  it('combines edits to different parameters of the same node', () => {
+    const local = withParameters({ Webhook: { path: 'orders/new', httpMethod: 'POST' } });
+    const remote = withParameters({ Webhook: { path: 'orders', httpMethod: 'PUT' } });
+
+    const { merged, conflicts } = mergeWorkflows(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.nodes[0].parameters).toEqual({ path: 'orders/new', httpMethod: 'PUT' });
+  });
+
+  it('reports edits to the same parameter as a conflict, keeping the local value', () => {
+    const local = withParameters({ Save: { table: 'orders_local', operation: 'insert' } });
+    const remote = withParameters({ Save: { table: 'orders_remote', operation: 'insert' } });
+
+    const { merged, conflicts } = mergeWorkflows(base, local, remote);
+
+    expect(conflicts).toEqual([
+      {
+        path: 'node "Save".parameters.table',
+        base: 'orders',
+        local: 'orders_local',
+        remote: 'orders_remote',
+      },
+    ]);
+    expect(merged.nodes[2].parameters?.table).toBe('orders_local');
+  });
+
+  it('reports a node deleted locally and edited remotely as a conflict', () => {
+    const local: N8nWorkflow = {
+      ...base,
+      nodes: base.nodes.filter((n) => n.name !== 'Validate'),
+      connections: { Webhook: { main: [[{ node: 'Save', type: 'main', index: 0 }]] } },
+    };
+    const remote = withParameters({ Validate: { jsCode: 'return [];' } });
+
+    const { merged, conflicts } = mergeWorkflows(base, local, remote);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      path: 'node "Validate"',
+      local: undefined,
+      remote: { parameters: { jsCode: 'return [];' } },
+    });
+    expect(merged.nodes.map((n) => n.name)).toEqual(['Webhook', 'Save']);
+  });
+
+  it('keeps a node renamed locally together with an edge added remotely', () => {
+    // n8n renames the node in the connections too
+    const local: N8nWorkflow = {
+      ...base,
+      nodes: base.nodes.map((n) => (n.name === 'Validate' ? { ...n, name: 'Check total' } : n)),
+      connections: {
+        Webhook: { main: [[{ node: 'Check total', type: 'main', index: 0 }]] },
+        'Check total': { main: [[{ node: 'Save', type: 'main', index: 0 }]] },
+      },
+    };
+    // A second branch from the webhook straight to Save
+    const remote: N8nWorkflow = {
+      ...base,
+      connections: {
+        ...base.connections,
+        Webhook: {
+          main: [
+            [
+              { node: 'Validate', type: 'main', index: 0 },
+              { node: 'Save', type: 'main', index: 0 },
+            ],
+          ],
+        },
+      },
+    };
+
+    const { merged, conflicts } = mergeWorkflows(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.nodes[1].name).toBe('Check total');
+    expect(merged.connections).toEqual({
+      Webhook: {
+        main: [
+          [
+            { node: 'Check total', type: 'main', index: 0 },
+            { node: 'Save', type: 'main', index: 0 },
+          ],
+        ],
+      },
+      'Check total': { main: [[{ node: 'Save', type: 'main', index: 0 }]] },
+    });
+  });
+
+  it('reports a remote edge to a node that was renamed locally', () => {
+    const local: N8nWorkflow = {
+      ...base,
+      nodes: base.nodes.map((n) => (n.name === 'Save' ? { ...n, name: 'Store' } : n)),
+      connections: {
+        Webhook: base.connections.Webhook,
+        Validate: { main: [[{ node: 'Store', type: 'main', index: 0 }]] },
+      },
+    };
+    const remote: N8nWorkflow = {
+      ...base,
+      connections: {
+        ...base.connections,
+        Webhook: {
+          main: [
+            [
+              { node: 'Validate', type: 'main', index: 0 },
+              { node: 'Save', type: 'main', index: 0 },
+            ],
+          ],
+        },
+      },
+    };
+
+    const { conflicts } = mergeWorkflows(base, local, remote);
+
+    expect(conflicts.map((c) => c.path)).toEqual([
+      'connection "Webhook" -> "Save" (no node "Save")',
+    ]);
+  });
+
+  describe('workflows added on both sides without a common version', () => {
+    const empty = { name: '', nodes: [], connections: {} } as unknown as N8nWorkflow;
+
+    it('merges identical nodes and keeps the nodes only one side added', () => {
+      const local: N8nWorkflow = { ...base, nodes: base.nodes.slice(0, 2) };
+      const remote: N8nWorkflow = { ...base, nodes: [base.nodes[0], base.nodes[2]] };
+
+      const { merged, conflicts } = mergeWorkflows(empty, local, remote);
+
+      expect(conflicts).toEqual([]);
+      expect(merged.nodes.map((n) => n.name)).toEqual(['Webhook', 'Validate', 'Save']);
+    });
+
+    it('reports a node added differently on both sides as a conflict', () => {
+      const local = withParameters({ Webhook: { path: 'orders-a' } });
+      const remote = withParameters({ Webhook: { path: 'orders-b' } });
+
+      const { conflicts } = mergeWorkflows(empty, local, remote);
+
+      expect(conflicts).toEqual([
+        {
+          path: 'node "Webhook"',
+          base: undefined,
+          local: local.nodes[0],
+          remote: remote.nodes[0],
+        },
+      ]);
+    });
+  });
+});
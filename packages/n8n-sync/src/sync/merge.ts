@@ -0,0 +1,273 @@
+import { sortObjectKeys } from '@flowsfarm/core';
+import type { N8nNode, N8nWorkflow } from '../types';
+
+export interface MergeConflict {
+  path: string;
+  base?: unknown;
+  local?: unknown;
+  remote?: unknown;
+}
+
+export interface MergeResult {
+  merged: N8nWorkflow;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Three-way merge of a workflow.
+ * Nodes are matched by id (or name for nodes without one) and merged field by
+ * field, parameters one by one, so edits to different nodes or settings of a
+ * node combine cleanly. Connections are merged edge by edge. Overlapping edits
+ * keep the local value in the merged workflow and are reported as conflicts.
+ */
+export function mergeWorkflows(
+  base: N8nWorkflow,
+  local: N8nWorkflow,
+  remote: N8nWorkflow
+): MergeResult {
+  const conflicts: MergeConflict[] = [];
+
+  // Start from remote so server-managed fields (id, timestamps) are current
+  const merged: N8nWorkflow = { ...remote };
+
+  merged.name = mergeValue('name', base.name, local.name, remote.name, conflicts) ?? remote.name;
+  merged.active =
+    mergeValue('active', base.active, local.active, remote.active, conflicts) ?? remote.active;
+  merged.staticData = mergeValue(
+    'staticData',
+    base.staticData,
+    local.staticData,
+    remote.staticData,
+    conflicts
+  );
+  merged.tags = mergeValue('tags', base.tags, local.tags, remote.tags, conflicts);
+
+  merged.nodes = mergeNodes(base.nodes, local.nodes, remote.nodes, conflicts);
+
+  merged.connections = mergeConnections(
+    base.connections,
+    local.connections,
+    remote.connections,
+    new Set(merged.nodes.map((n) => n.name)),
+    conflicts
+  );
+
+  const settings = mergeRecord(
+    (key) => `settings.${key}`,
+    base.settings ?? {},
+    local.settings ?? {},
+    remote.settings ?? {},
+    conflicts
+  );
+  merged.settings =
+    local.settings === undefined && remote.settings === undefined ? undefined : settings;
+
+  return { merged, conflicts };
+}
+
+function nodeKey(node: N8nNode): string {
+  return node.id || node.name;
+}
+
+function mergeNodes(
+  base: N8nNode[],
+  local: N8nNode[],
+  remote: N8nNode[],
+  conflicts: MergeConflict[]
+): N8nNode[] {
+  const toMap = (nodes: N8nNode[]) => new Map(nodes.map((n) => [nodeKey(n), n]));
+  const baseMap = toMap(base);
+  const localMap = toMap(local);
+  const remoteMap = toMap(remote);
+
+  // Keep local ordering, then append nodes that only exist remotely
+  const keys = [
+    ...localMap.keys(),
+    ...[...remoteMap.keys()].filter((key) => !localMap.has(key)),
+  ];
+
+  const nodes: N8nNode[] = [];
+  for (const key of keys) {
+    const label = localMap.get(key)?.name ?? remoteMap.get(key)?.name ?? key;
+    const node = mergeNode(
+      `node "${label}"`,
+      baseMap.get(key),
+      localMap.get(key),
+      remoteMap.get(key),
+      conflicts
+    );
+    if (node) {
+      nodes.push(node);
+    }
+  }
+
+  return nodes;
+}
+
+function mergeNode(
+  path: string,
+  base: N8nNode | undefined,
+  local: N8nNode | undefined,
+  remote: N8nNode | undefined,
+  conflicts: MergeConflict[]
+): N8nNode | undefined {
+  // Added or deleted on a side, the node is merged as a whole
+  if (!base || !local || !remote) {
+    return mergeValue(path, base, local, remote, conflicts);
+  }
+
+  const fields = mergeRecord<unknown>(
+    (key) => `${path}.${key}`,
+    { ...base, parameters: undefined },
+    { ...local, parameters: undefined },
+    { ...remote, parameters: undefined },
+    conflicts
+  );
+  const parameters = mergeRecord(
+    (key) => `${path}.parameters.${key}`,
+    base.parameters ?? {},
+    local.parameters ?? {},
+    remote.parameters ?? {},
+    conflicts
+  );
+
+  // Keep the local field order, so unchanged nodes serialize the same
+  const node: Record<string, unknown> = { ...local, ...fields, parameters };
+  for (const key of Object.keys(local)) {
+    if (key !== 'parameters' && !(key in fields)) {
+      delete node[key];
+    }
+  }
+  if (local.parameters === undefined && remote.parameters === undefined) {
+    delete node.parameters;
+  }
+  return node as N8nNode;
+}
+
+type Connections = N8nWorkflow['connections'];
+type ConnectionTarget = Connections[string][string][number][number];
+
+interface Edge {
+  key: string;
+  source: string;
+  type: string;
+  output: number;
+  target: ConnectionTarget;
+}
+
+/**
+ * Merge connections edge by edge. An edge stays when both sides have it or one
+ * side added it, and goes when one side removed it. Edges from or to nodes
+ * that are not in the merged workflow are conflicts.
+ */
+function mergeConnections(
+  base: Connections,
+  local: Connections,
+  remote: Connections,
+  nodeNames: Set<string>,
+  conflicts: MergeConflict[]
+): Connections {
+  const baseKeys = new Set(listEdges(base).map((e) => e.key));
+  const localEdges = listEdges(local);
+  const remoteEdges = listEdges(remote);
+  const localKeys = new Set(localEdges.map((e) => e.key));
+  const remoteKeys = new Set(remoteEdges.map((e) => e.key));
+
+  const keep = (edge: Edge) =>
+    (localKeys.has(edge.key) && remoteKeys.has(edge.key)) || !baseKeys.has(edge.key);
+  const edges = [
+    ...localEdges.filter(keep),
+    ...remoteEdges.filter((e) => !localKeys.has(e.key) && keep(e)),
+  ];
+
+  // Sources and outputs on both sides keep their (possibly empty) slots
+  const result: Connections = {};
+  for (const source of Object.keys(local).filter((s) => s in remote)) {
+    for (const type of Object.keys(local[source]).filter((t) => t in remote[source])) {
+      const slots = Math.max(local[source][type].length, remote[source][type].length);
+      result[source] = { ...result[source], [type]: Array.from({ length: slots }, () => []) };
+    }
+  }
+
+  for (const edge of edges) {
+    const outputs = (result[edge.source] ??= {});
+    const slots = (outputs[edge.type] ??= []);
+    while (slots.length <= edge.output) slots.push([]);
+    (slots[edge.output] ??= []).push(edge.target);
+
+    for (const name of [edge.source, edge.target.node]) {
+      if (!nodeNames.has(name)) {
+        conflicts.push({
+          path: `connection "${edge.source}" -> "${edge.target.node}" (no node "${name}")`,
+          base: baseKeys.has(edge.key) ? edge.target : undefined,
+          local: localKeys.has(edge.key) ? edge.target : undefined,
+          remote: remoteKeys.has(edge.key) ? edge.target : undefined,
+        });
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+function listEdges(connections: Connections): Edge[] {
+  return Object.entries(connections).flatMap(([source, outputs]) =>
+    Object.entries(outputs).flatMap(([type, slots]) =>
+      slots.flatMap((targets, output) =>
+        (targets ?? []).map((target) => ({
+          key: JSON.stringify([source, type, output, target.node, target.type, target.index]),
+          source,
+          type,
+          output,
+          target,
+        }))
+      )
+    )
+  );
+}
+
+function mergeRecord<T>(
+  pathFor: (key: string) => string,
+  base: Record<string, T>,
+  local: Record<string, T>,
+  remote: Record<string, T>,
+  conflicts: MergeConflict[]
+): Record<string, T> {
+  const keys = [
+    ...Object.keys(local),
+    ...Object.keys(remote).filter((key) => !(key in local)),
+  ];
+
+  const result: Record<string, T> = {};
+  for (const key of keys) {
+    const value = mergeValue(pathFor(key), base[key], local[key], remote[key], conflicts);
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Merge a single value. `undefined` means the value is absent (e.g. a deleted node).
+ */
+function mergeValue<T>(
+  path: string,
+  base: T | undefined,
+  local: T | undefined,
+  remote: T | undefined,
+  conflicts: MergeConflict[]
+): T | undefined {
+  if (isEqual(local, remote)) return local;
+  if (isEqual(base, local)) return remote;
+  if (isEqual(base, remote)) return local;
+
+  conflicts.push({ path, base, local, remote });
+  return local;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(sortObjectKeys(a)) === JSON.stringify(sortObjectKeys(b));
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { N8nWorkflow } from '../types';
+import { extractNodeFiles } from './node-files';
+
+// An old Function node migrated to a Code node, still holding both scripts
+const dedupe: N8nWorkflow = {
+  id: 'dedupe',
+  name: 'Contact dedupe',
+  active: false,
+  nodes: [
+    {
+      name: 'Merge duplicates',
+      type: 'n8n-nodes-base.code',
+      position: [0, 0],
+      parameters: {
+        jsCode: 'return mergeByEmail($input.all());',
+        functionCode: 'return mergeByEmail(items);',
+      },
+    },
+    {
+      name: 'Find contacts',
+      type: 'n8n-nodes-base.postgres',
+      position: [-220, 0],
+      parameters: { operation: 'executeQuery', query: '=SELECT * FROM contacts WHERE list = {{ $json.list }}' },
+    },
+  ],
+  connections: {},
+  createdAt: '2024-07-08T10:00:00.000Z',
+  updatedAt: '2024-07-08T10:00:00.000Z',
+};
+
+describe('extractNodeFiles', () => {
+  it('names code and queries after the node', () => {
+    const { workflow, files } = extractNodeFiles(dedupe);
+
+    expect(workflow.nodes[1].parameters?.query).toEqual({ $file: 'find-contacts.sql', expression: true });
+    expect(files.get('find-contacts.sql')).toBe('SELECT * FROM contacts WHERE list = {{ $json.list }}');
+  });
+
+  it('adds the parameter to the name when the node already has a file with that name', () => {
+    const { workflow, files } = extractNodeFiles(dedupe);
+
+    expect(workflow.nodes[0].parameters).toEqual({
+      jsCode: { $file: 'merge-duplicates.js' },
+      functionCode: { $file: 'merge-duplicates.functioncode.js' },
+    });
+    expect(files.get('merge-duplicates.js')).toBe('return mergeByEmail($input.all());');
+    expect(files.get('merge-duplicates.functioncode.js')).toBe('return mergeByEmail(items);');
+  });
+});
@@ -0,0 +1,166 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve, sep } from 'path';
+import { slugify } from '@flowsfarm/core';
+import type { N8nNode, N8nWorkflow } from '../types';
+
+/**
+ * Reference to a node parameter stored in its own file, in place of the
+ * parameter value in workflow.json. Expressions are stored without their
+ * leading '='.
+ */
+export interface NodeFileRef {
+  $file: string;
+  expression?: boolean;
+}
+
+// Code parameters and the extension of their files
+const CODE_PARAMETERS: Record<string, string> = {
+  jsCode: 'js',
+  functionCode: 'js',
+  pythonCode: 'py',
+};
+
+const SQL_NODE = /sql|postgres|snowflake|bigquery|oracle|clickhouse|questdb|timescale|crate/i;
+
+// Other text is written to a file from this length, if it spans several lines
+const MIN_TEXT_LENGTH = 200;
+
+/**
+ * Move node code, SQL queries and long text out of a workflow. Returns the
+ * workflow with file references in their place, and the file contents by name.
+ */
+export function extractNodeFiles(workflow: N8nWorkflow): {
+  workflow: N8nWorkflow;
+  files: Map<string, string>;
+} {
+  const files = new Map<string, string>();
+  const bases = new Set<string>();
+
+  const nodes = (workflow.nodes ?? []).map((node) => {
+    if (!node.parameters) return node;
+
+    // Files are named after the node, numbered when names only differ in case or punctuation
+    const slug = slugify(node.name) || 'node';
+    let base = slug;
+    for (let i = 2; bases.has(base); i++) {
+      base = `${slug}-${i}`;
+    }
+    bases.add(base);
+
+    const parameters = Object.fromEntries(
+      Object.entries(node.parameters).map(([key, value]) => {
+        const extension = getFileExtension(node, key, value);
+        if (!extension || typeof value !== 'string') {
+          return [key, value];
+        }
+
+        const expression = value.startsWith('=');
+        // Code and queries are named after the node alone, other text after the parameter too,
+        // as is code when the node has another parameter with the same file name
+        let name = `${base}.${extension}`;
+        if (extension === 'md' || files.has(name)) {
+          name = `${base}.${slugify(key)}.${extension}`;
+        }
+        files.set(name, expression ? value.slice(1) : value);
+
+        const ref: NodeFileRef = expression ? { $file: name, expression } : { $file: name };
+        return [key, ref];
+      })
+    );
+
+    return { ...node, parameters };
+  });
+
+  return { workflow: { ...workflow, nodes }, files };
+}
+
+/**
+ * Replace file references in a workflow with the content of the files,
+ * relative to the workflow folder.
+ */
+export function inlineNodeFiles(workflow: N8nWorkflow, workflowDir: string): N8nWorkflow {
+  if (listNodeFiles(workflow).length === 0) {
+    return workflow;
+  }
+
+  const nodes = (workflow.nodes ?? []).map((node) => {
+    if (!node.parameters) return node;
+
+    const parameters = Object.fromEntries(
+      Object.entries(node.parameters).map(([key, value]) => {
+        if (!isNodeFileRef(value)) {
+          return [key, value];
+        }
+
+        const filePath = resolveNodeFile(workflowDir, value.$file);
+        if (!existsSync(filePath)) {
+          throw new Error(`File of node "${node.name}" not found: ${value.$file}`);
+        }
+
+        const content = readFileSync(filePath, 'utf-8');
+        return [key, value.expression ? `=${content}` : content];
+      })
+    );
+
+    return { ...node, parameters };
+  });
+
+  return { ...workflow, nodes };
+}
+
+/**
+ * List the files referenced by a workflow.
+ */
+export function listNodeFiles(workflow: N8nWorkflow): string[] {
+  return (workflow.nodes ?? []).flatMap((node) =>
+    Object.values(node.parameters ?? {})
+      .filter(isNodeFileRef)
+      .map((ref) => ref.$file)
+  );
+}
+
+/**
+ * Resolve a referenced file in the workflow folder, refusing paths outside it.
+ */
+export function resolveNodeFile(workflowDir: string, name: string): string {
+  const root = resolve(workflowDir);
+  const filePath = resolve(root, name);
+
+  if (!filePath.startsWith(root + sep)) {
+    throw new Error(`Node file outside the workflow folder: ${name}`);
+  }
+
+  return filePath;
+}
+
+export function isNodeFileRef(value: unknown): value is NodeFileRef {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    typeof (value as NodeFileRef).$file === 'string'
+  );
+}
+
+/**
+ * Whether a node parameter holds code or an SQL query.
+ */
+export function isCodeParameter(node: N8nNode, key: string): boolean {
+  return key in CODE_PARAMETERS || (key === 'query' && SQL_NODE.test(node.type));
+}
+
+function getFileExtension(node: N8nNode, key: string, value: unknown): string | null {
+  if (typeof value !== 'string' || value.length === 0) {
+    return null;
+  }
+
+  if (isCodeParameter(node, key)) {
+    return CODE_PARAMETERS[key] ?? 'sql';
+  }
+
+  if (value.includes('\n') && value.length >= MIN_TEXT_LENGTH) {
+    return 'md';
+  }
+
+  return null;
+}
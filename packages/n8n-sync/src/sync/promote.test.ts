@@ -0,0 +1,135 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FakeN8n, createTestProject, type TestProject } from '../testing';
+import type { N8nWorkflow } from '../types';
+import { getEnvironmentPath } from './environment';
+import { promoteWorkflow } from './promote';
+
+// Open support tickets are posted to Slack every morning
+const digest = (slack: { id: string; name: string }): Pick<N8nWorkflow, 'name' | 'nodes' | 'connections'> => ({
+  name: 'Support digest',
+  nodes: [
+    {
+      id: 'd1',
+      name: 'Every morning',
+      type: 'n8n-nodes-base.scheduleTrigger',
+      position: [0, 0],
+      parameters: {},
+    },
+    {
+      id: 'd2',
+      name: 'Open tickets',
+      type: 'n8n-nodes-base.zendesk',
+      position: [220, 0],
+      parameters: { operation: 'getAll', filters: { status: 'open' } },
+      credentials: { zendeskApi: { id: '3', name: 'Zendesk' } },
+    },
+    {
+      id: 'd3',
+      name: 'Post digest',
+      type: 'n8n-nodes-base.slack',
+      position: [440, 0],
+      parameters: { channel: '#support' },
+      credentials: { slackApi: slack },
+    },
+  ],
+  connections: {
+    'Every morning': { main: [[{ node: 'Open tickets', type: 'main', index: 0 }]] },
+    'Open tickets': { main: [[{ node: 'Post digest', type: 'main', index: 0 }]] },
+  },
+});
+
+const STAGING_SLACK = { id: '12', name: 'Slack (staging)' };
+
+describe('promoteWorkflow credentials', () => {
+  let staging: FakeN8n;
+  let production: FakeN8n;
+  let project: TestProject;
+  let productionId: string;
+
+  const credentials = (workflow: N8nWorkflow) =>
+    Object.fromEntries(workflow.nodes.map((n) => [n.name, n.credentials]));
+
+  const writeProductionEnvironment = (environment: unknown) => {
+    const path = getEnvironmentPath('production');
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(environment));
+  };
+
+  beforeEach(async () => {
+    staging = new FakeN8n();
+    production = new FakeN8n();
+    project = await createTestProject(staging);
+    productionId = await project.addInstance('production', production);
+    staging.add(digest(STAGING_SLACK));
+
+    // Another workflow on production already uses its Zendesk credential
+    production.add({
+      name: 'Ticket escalation',
+      nodes: [
+        {
+          name: 'Escalate',
+          type: 'n8n-nodes-base.zendesk',
+          position: [0, 0],
+          parameters: {},
+          credentials: { zendeskApi: { id: '40', name: 'Zendesk' } },
+        },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    project.cleanup();
+  });
+
+  it('uses the environment file of the target, then credentials known on the target', async () => {
+    writeProductionEnvironment({ credentials: { 'Slack (staging)': { id: '51', name: 'Slack' } } });
+
+    const result = await promoteWorkflow('Support digest', project.connectionId, productionId);
+
+    expect(result.action).toBe('create');
+    expect(result.credentials).toEqual([
+      { node: 'Open tickets', type: 'zendeskApi', from: 'Zendesk', to: { id: '40', name: 'Zendesk' } },
+      { node: 'Post digest', type: 'slackApi', from: 'Slack (staging)', to: { id: '51', name: 'Slack' } },
+    ]);
+    expect(credentials(production.get(result.targetId!))).toMatchObject({
+      'Open tickets': { zendeskApi: { id: '40', name: 'Zendesk' } },
+      'Post digest': { slackApi: { id: '51', name: 'Slack' } },
+    });
+  });
+
+  it('maps a credential given by its source ID to a bare target ID', async () => {
+    writeProductionEnvironment({ credentials: { '12': '51' } });
+
+    const result = await promoteWorkflow('Support digest', project.connectionId, productionId);
+
+    expect(result.credentials[1].to).toEqual({ id: '51', name: 'Slack (staging)' });
+  });
+
+  it('refuses to promote with a credential that has no mapping', async () => {
+    const dryRun = await promoteWorkflow('Support digest', project.connectionId, productionId, {
+      dryRun: true,
+    });
+    expect(dryRun.credentials.map((c) => c.to)).toEqual([{ id: '40', name: 'Zendesk' }, null]);
+
+    await expect(promoteWorkflow('Support digest', project.connectionId, productionId)).rejects.toThrow(
+      `No credential on production for: slackApi "Slack (staging)" (node "Post digest"). Add them to ${getEnvironmentPath('production')}`
+    );
+    expect([...production.workflows.values()].map((w) => w.name)).toEqual(['Ticket escalation']);
+  });
+
+  it('keeps the mapped credentials when the target is updated', async () => {
+    writeProductionEnvironment({ credentials: { 'Slack (staging)': '51' } });
+    const { targetId } = await promoteWorkflow('Support digest', project.connectionId, productionId);
+    staging.edit('wf1', (w) => (w.nodes[2].parameters = { channel: '#support-digest' }));
+
+    const result = await promoteWorkflow('Support digest', project.connectionId, productionId);
+
+    expect(result).toMatchObject({ action: 'update', targetId, matchedBy: 'link' });
+    expect(result.changes.map((c) => c.path)).toEqual(['node "Post digest".parameters.channel']);
+    expect(credentials(production.get(targetId!))['Post digest']).toEqual({
+      slackApi: { id: '51', name: 'Slack (staging)' },
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { logger } from '@flowsfarm/core';
+import { getClient, getConnection, type ConnectionInfo } from '../connection';
+import type { N8nClient } from '../client';
+import type { N8nNode, N8nWorkflow, UpdateWorkflowInput } from '../types';
+import type { FieldChange } from './changes';
+import { compareWorkflows } from './compare';
+import { replaceInstanceUrl } from './drift';
+import { getEnvironmentPath, loadEnvironment, type Environment } from './environment';
+import { getWorkflowLinks, linkWorkflows } from './links';
+import { extractVariables, renderVariables } from './variables';
+
+export interface PromoteOptions {
+  /** Only report what would change on the target */
+  dryRun?: boolean;
+}
+
+export interface CredentialMapping {
+  node: string;
+  type: string;
+  /** Credential name on the source connection */
+  from: string;
+  /** Credential on the target connection, null when no mapping was found */
+  to: { id: string; name?: string } | null;
+}
+
+export interface PromoteResult {
+  action: 'create' | 'update' | 'unchanged';
+  source: { id: string; name: string };
+  /** Remote ID on the target; for dry-run creations, not known yet */
+  targetId?: string;
+  matchedBy?: 'link' | 'name';
+  /** Changes the promotion makes to the target workflow */
+  changes: FieldChange[];
+  credentials: CredentialMapping[];
+  /** Tags set on the target, when they change */
+  tags?: string[];
+  /** Variables used by the source without a value for the target */
+  missingVariables: string[];
+}
+
+/**
+ * Copy a workflow from one connection to another. The target workflow is
+ * found through the link stored by an earlier promotion, or by name, and is
+ * created if it does not exist. Credential IDs and variable values are
+ * rewritten through the environment files, instance URLs through the
+ * connection URLs.
+ */
+export async function promoteWorkflow(
+  workflowRef: string,
+  fromConnectionId: string,
+  toConnectionId: string,
+  options: PromoteOptions = {}
+): Promise<PromoteResult> {
+  const from = requireConnection(fromConnectionId);
+  const to = requireConnection(toConnectionId);
+  const fromClient = getClient(from.id);
+  const toClient = getClient(to.id);
+
+  const [sourceWorkflows, targetWorkflows] = await Promise.all([
+    fromClient.listAllWorkflows(),
+    toClient.listAllWorkflows(),
+  ]);
+
+  const sourceWorkflow = findSourceWorkflow(sourceWorkflows, workflowRef);
+  const targetEnvironment = loadEnvironment(to.name);
+
+  // Values of the source's variables become those of the target
+  const { workflow: source, missing: missingVariables } = renderVariables(
+    extractVariables(sourceWorkflow, loadEnvironment(from.name).variables),
+    targetEnvironment.variables
+  );
+
+  // Same target as the previous promotion, otherwise the workflow with the same name
+  const links = getWorkflowLinks(from.id, to.id);
+  const linkedId = links.get(source.id);
+  const linked = linkedId ? targetWorkflows.find((w) => w.id === linkedId) : undefined;
+  const target = linked ?? targetWorkflows.find((w) => w.name === source.name);
+  const matchedBy = linked ? 'link' : target ? 'name' : undefined;
+
+  const credentials = mapCredentials(source, targetEnvironment, targetWorkflows);
+  const promoted = buildPromotedWorkflow(source, target, from, to, credentials, links);
+
+  const sourceTags = (source.tags ?? []).map((t) => t.name).sort();
+  const targetTags = (target?.tags ?? []).map((t) => t.name).sort();
+  const tagsChanged = sourceTags.join('\n') !== targetTags.join('\n');
+
+  // Both versions use the target's credentials and URLs, so any difference counts
+  const changes = target ? compareWorkflows({ ...target, ...promoted } as N8nWorkflow, target) : [];
+
+  const result: PromoteResult = {
+    action: !target ? 'create' : changes.length > 0 || tagsChanged ? 'update' : 'unchanged',
+    source: { id: source.id, name: source.name },
+    targetId: target?.id,
+    matchedBy,
+    changes,
+    credentials,
+    tags: tagsChanged ? sourceTags : undefined,
+    missingVariables,
+  };
+
+  if (options.dryRun) {
+    return result;
+  }
+
+  const unmapped = credentials.filter((c) => c.to === null);
+  if (unmapped.length > 0) {
+    throw new Error(
+      `No credential on ${to.name} for: ${unmapped
+        .map((c) => `${c.type} "${c.from}" (node "${c.node}")`)
+        .join(', ')}. Add them to ${getEnvironmentPath(to.name)}`
+    );
+  }
+
+  if (missingVariables.length > 0) {
+    throw new Error(
+      `No value on ${to.name} for variables: ${missingVariables
+        .map((name) => `ff.${name}`)
+        .join(', ')}. Add them to ${getEnvironmentPath(to.name)}`
+    );
+  }
+
+  let targetId: string;
+  if (result.action === 'create') {
+    targetId = (await toClient.createWorkflow(promoted)).id;
+    logger.info(`Created workflow ${source.name} on ${to.name} (${targetId})`);
+  } else {
+    targetId = target!.id;
+    if (changes.length > 0) {
+      await toClient.updateWorkflow(targetId, promoted);
+      logger.info(`Updated workflow ${source.name} on ${to.name} (${targetId})`);
+    }
+  }
+
+  if (tagsChanged) {
+    await setWorkflowTags(toClient, targetId, sourceTags);
+  }
+
+  linkWorkflows(from.id, source.id, to.id, targetId);
+
+  return { ...result, targetId };
+}
+
+function requireConnection(connectionId: string): ConnectionInfo {
+  const connection = getConnection(connectionId);
+
+  if (!connection) {
+    throw new Error(`Connection not found: ${connectionId}`);
+  }
+
+  return connection;
+}
+
+function findSourceWorkflow(workflows: N8nWorkflow[], workflowRef: string): N8nWorkflow {
+  const byId = workflows.find((w) => w.id === workflowRef);
+  if (byId) {
+    return byId;
+  }
+
+  const byName = workflows.filter((w) => w.name === workflowRef);
+  if (byName.length > 1) {
+    throw new Error(`Multiple workflows named "${workflowRef}", use the workflow ID`);
+  }
+  if (byName.length === 0) {
+    throw new Error(`Workflow not found: ${workflowRef}`);
+  }
+
+  return byName[0];
+}
+
+/**
+ * Find the target credential for each credential used by the source workflow:
+ * from the environment file (by name, then ID), otherwise a credential of the
+ * same type and name already used by workflows on the target.
+ */
+function mapCredentials(
+  source: N8nWorkflow,
+  environment: Environment,
+  targetWorkflows: N8nWorkflow[]
+): CredentialMapping[] {
+  const known = new Map<string, { id: string; name?: string }>();
+  for (const node of targetWorkflows.flatMap((w) => w.nodes ?? [])) {
+    for (const [type, credential] of Object.entries(node.credentials ?? {})) {
+      const { id, name } = credential as { id?: string; name?: string };
+      if (id && name) known.set(`${type}:${name}`, { id, name });
+    }
+  }
+
+  const mappings: CredentialMapping[] = [];
+
+  for (const node of source.nodes ?? []) {
+    for (const [type, credential] of Object.entries(node.credentials ?? {})) {
+      const { id, name } = credential as { id?: string; name?: string };
+      const configured =
+        (name !== undefined ? environment.credentials[name] : undefined) ??
+        (id !== undefined ? environment.credentials[id] : undefined);
+
+      let to: CredentialMapping['to'] = null;
+      if (typeof configured === 'string') {
+        to = { id: configured, name };
+      } else if (configured) {
+        to = { id: configured.id, name: configured.name ?? name };
+      } else if (name !== undefined) {
+        to = known.get(`${type}:${name}`) ?? null;
+      }
+
+      mappings.push({ node: node.name, type, from: name ?? id ?? '', to });
+    }
+  }
+
+  return mappings;
+}
+
+/**
+ * Build the workflow to write on the target: the source workflow with target
+ * credentials and URLs, keeping the target's webhook IDs and runtime data.
+ */
+function buildPromotedWorkflow(
+  source: N8nWorkflow,
+  target: N8nWorkflow | undefined,
+  from: ConnectionInfo,
+  to: ConnectionInfo,
+  credentials: CredentialMapping[],
+  links: Map<string, string>
+): UpdateWorkflowInput {
+  const targetNodes = new Map((target?.nodes ?? []).filter((n) => n.id).map((n) => [n.id, n]));
+
+  const nodes = (source.nodes ?? []).map((node) => {
+    const promoted: N8nNode & { webhookId?: string } = {
+      ...node,
+      parameters:
+        node.parameters &&
+        (replaceInstanceUrl(node.parameters, from.baseUrl, to.baseUrl) as Record<string, unknown>),
+    };
+
+    if (node.credentials) {
+      promoted.credentials = Object.fromEntries(
+        Object.keys(node.credentials).map((type) => {
+          const mapping = credentials.find((c) => c.node === node.name && c.type === type);
+          return [type, mapping?.to ?? node.credentials![type]];
+        })
+      );
+    }
+
+    // Webhook URLs on the target stay the same
+    const targetNode = node.id ? targetNodes.get(node.id) : undefined;
+    const targetWebhookId = (targetNode as { webhookId?: string } | undefined)?.webhookId;
+    if (targetWebhookId) {
+      promoted.webhookId = targetWebhookId;
+    }
+
+    return promoted;
+  });
+
+  // The error workflow is a workflow ID on each instance
+  const settings = { ...source.settings };
+  if (settings.errorWorkflow) {
+    const errorWorkflow = links.get(settings.errorWorkflow) ?? target?.settings?.errorWorkflow;
+    if (errorWorkflow) {
+      settings.errorWorkflow = errorWorkflow;
+    } else {
+      delete settings.errorWorkflow;
+    }
+  }
+
+  return {
+    name: source.name,
+    nodes,
+    connections: source.connections,
+    settings,
+  };
+}
+
+async function setWorkflowTags(client: N8nClient, workflowId: string, names: string[]): Promise<void> {
+  const existing = await client.listAllTags();
+  const tagIds: string[] = [];
+
+  for (const name of names) {
+    const tag = existing.find((t) => t.name === name) ?? (await client.createTag(name));
+    tagIds.push(tag.id);
+  }
+
+  await client.updateWorkflowTags(workflowId, tagIds);
+}
@@ -0,0 +1,127 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { formatWorkflowJson, getDb, schema } from '@flowsfarm/core';
+import { FakeN8n, createTestProject, type TestProject } from '../testing';
+import type { N8nWorkflow } from '../types';
+import { pullWorkflows, type PullOptions } from './pull';
+
+// Support tickets from a form are labelled and posted to a channel
+const ticketRouting = {
+  name: 'Ticket routing',
+  nodes: [
+    {
+      name: 'Ticket form',
+      type: 'n8n-nodes-base.formTrigger',
+      position: [0, 0] as [number, number],
+      parameters: { formTitle: 'Contact support' },
+    },
+    {
+      name: 'Label',
+      type: 'n8n-nodes-base.set',
+      position: [220, 0] as [number, number],
+      parameters: { values: { string: [{ name: 'queue', value: 'general' }] } },
+    },
+    {
+      name: 'Notify',
+      type: 'n8n-nodes-base.slack',
+      position: [440, 0] as [number, number],
+      parameters: { channel: '#support' },
+    },
+  ],
+  connections: {
+    'Ticket form': { main: [[{ node: 'Label', type: 'main', index: 0 }]] },
+    Label: { main: [[{ node: 'Notify', type: 'main', index: 0 }]] },
+  },
+};
+
+// Workflow files keep their nodes in canonical order, nodes are found by name
+const node = (workflow: N8nWorkflow, name: string) => workflow.nodes.find((n) => n.name === name)!;
+
+describe('pullWorkflows', () => {
+  let n8n: FakeN8n;
+  let project: TestProject;
+
+  const pull = (options: Omit<PullOptions, 'connectionId'> = {}) =>
+    pullWorkflows(project.client, { connectionId: project.connectionId, ...options });
+
+  const workflowPath = (id: string) =>
+    join(project.workflowsPath, project.connectionId, id, 'workflow.json');
+
+  const readLocal = (id: string) => JSON.parse(readFileSync(workflowPath(id), 'utf-8')) as N8nWorkflow;
+
+  const editLocal = (id: string, change: (workflow: N8nWorkflow) => void) => {
+    const workflow = readLocal(id);
+    change(workflow);
+    writeFileSync(workflowPath(id), formatWorkflowJson(workflow));
+  };
+
+  beforeEach(async () => {
+    n8n = new FakeN8n();
+    project = await createTestProject(n8n);
+  });
+
+  afterEach(() => {
+    project.cleanup();
+  });
+
+  describe('skipping workflows with local edits', () => {
+    let id: string;
+
+    beforeEach(async () => {
+      id = n8n.add(ticketRouting).id;
+      await pull();
+
+      // Edits on both sides that would merge cleanly
+      editLocal(id, (w) => {
+        node(w, 'Notify').parameters = { channel: '#support-eu' };
+      });
+      n8n.edit(id, (w) => {
+        node(w, 'Label').parameters = { values: { string: [{ name: 'queue', value: 'billing' }] } };
+      });
+    });
+
+    it('leaves the local file and status as they are', async () => {
+      const before = readFileSync(workflowPath(id), 'utf-8');
+      const [row] = getDb().select().from(schema.workflows).all();
+
+      const result = await pull({ skipLocalEdits: true });
+
+      expect(result).toMatchObject({ updated: 0, merged: 0, unchanged: 1, conflicts: [] });
+      expect(readFileSync(workflowPath(id), 'utf-8')).toBe(before);
+      expect(getDb().select().from(schema.workflows).all()).toEqual([row]);
+    });
+
+    it('still updates workflows without local edits', async () => {
+      const other = n8n.add({ ...ticketRouting, name: 'Ticket routing (EU)' });
+      await pull({ skipLocalEdits: true });
+      n8n.edit(other.id, (w) => {
+        node(w, 'Notify').parameters = { channel: '#support-eu' };
+      });
+
+      const result = await pull({ skipLocalEdits: true });
+
+      expect(result).toMatchObject({ updated: 1, unchanged: 1 });
+      expect(node(readLocal(other.id), 'Notify').parameters).toEqual({ channel: '#support-eu' });
+    });
+
+    it('plans no change for them in a dry run', async () => {
+      const result = await pull({ skipLocalEdits: true, dryRun: true });
+
+      expect(result.planned).toEqual([]);
+      expect(result.unchanged).toBe(1);
+    });
+
+    it('merges them without the option', async () => {
+      const result = await pull();
+
+      expect(result).toMatchObject({ merged: 1, conflicts: [] });
+      const merged = readLocal(id);
+      expect(node(merged, 'Label').parameters).toEqual({
+        values: { string: [{ name: 'queue', value: 'billing' }] },
+      });
+      expect(node(merged, 'Notify').parameters).toEqual({ channel: '#support-eu' });
+      expect(existsSync(join(project.workflowsPath, project.connectionId, id, '.conflict'))).toBe(false);
+    });
+  });
+});
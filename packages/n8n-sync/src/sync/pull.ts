@@ -1,38 +1,70 @@
-import { writeFileSync, mkdirSync, existsSync } from 'fs';
-import { join } from 'path';
-import { eq } from 'drizzle-orm';
+import { mkdirSync, existsSync, rmSync } from 'fs';
+import { join, relative } from 'path';
+import { and, eq } from 'drizzle-orm';
 import {
   getDb,
   getConfig,
-  hashWorkflow,
   generateId,
   schema,
   logger,
   type PullResult,
+  type PlannedFileChange,
   type SyncError,
 } from '@flowsfarm/core';
 import { N8nClient } from '../client';
 import type { N8nWorkflow } from '../types';
+import { mergeWorkflows } from './merge';
+import { RemoteSnapshot, isUnchangedSinceSync } from './remote';
+import {
+  readBaseSnapshot,
+  writeBaseSnapshot,
+  writeConflictFiles,
+  clearConflictFiles,
+  writeWorkflowMeta,
+  getWorkflowDir,
+  getConnectionDir,
+  getLayoutPath,
+  relocateWorkflowDir,
+  archiveWorkflowDir,
+  readLocalWorkflow,
+  writeLocalWorkflow,
+  writeLocalWorkflowActive,
+} from './files';
+import { markLocalDeletions } from './local';
+import { getMigratedContentHashes, hashSyncedWorkflow, migrateContentHashes } from './hashes';
+import { recordWorkflowVersion } from './history';
+import { commitPulledWorkflows, type PulledWorkflow } from './git';
 
 export interface PullOptions {
   connectionId: string;
   workflowIds?: string[];
   force?: boolean;
+  /** Archive or remove local copies of workflows deleted on the remote */
+  prune?: 'archive' | 'remove';
+  /** Only report which local files would change, without writing anything */
+  dryRun?: boolean;
+  /** Leave workflows with unpushed local edits as they are instead of merging remote changes into them */
+  skipLocalEdits?: boolean;
 }
 
 export async function pullWorkflows(
   client: N8nClient,
-  options: PullOptions
+  options: PullOptions,
+  remote: RemoteSnapshot = new RemoteSnapshot(client)
 ): Promise<PullResult> {
   const db = getDb();
-  const config = getConfig();
 
   const result: PullResult = {
     total: 0,
     created: 0,
     updated: 0,
     unchanged: 0,
+    merged: 0,
+    deletedRemote: 0,
+    pruned: 0,
+    conflicts: [],
     errors: [],
+    planned: [],
   };
 
   try {
@@ -43,25 +75,53 @@ export async function pullWorkflows(
     if (options.workflowIds && options.workflowIds.length > 0) {
       // Fetch specific workflows
       remoteWorkflows = await Promise.all(
-        options.workflowIds.map((id) => client.getWorkflow(id))
+        options.workflowIds.map((id) => remote.fetch(id))
       );
     } else {
       // Fetch all workflows
-      remoteWorkflows = await client.listAllWorkflows();
+      remoteWorkflows = await remote.list();
     }
 
     result.total = remoteWorkflows.length;
     logger.info(`Found ${remoteWorkflows.length} workflows`);
 
+    const connectionWorkflowsDir = getConnectionDir(options.connectionId);
+
+    if (options.dryRun) {
+      // Hashes made with older hash settings are compared as they would be
+      // migrated, without writing them
+      const migratedHashes = getMigratedContentHashes(options.connectionId);
+      for (const remoteWorkflow of remoteWorkflows) {
+        planWorkflow(
+          db,
+          remoteWorkflow,
+          options.connectionId,
+          options.force ?? false,
+          options.skipLocalEdits ?? false,
+          result,
+          migratedHashes
+        );
+      }
+      if (options.prune) {
+        planPrune(db, options.connectionId, remoteWorkflows, !options.workflowIds?.length, result);
+      }
+      return result;
+    }
+
+    // Stored hashes are compared with the remote and local files below
+    migrateContentHashes(options.connectionId);
+
+    // Workflow folders deleted locally must not be restored by the pull
+    markLocalDeletions(options.connectionId);
+
     // Ensure workflows directory exists
-    const connectionWorkflowsDir = join(
-      config.workflowsPath,
-      options.connectionId
-    );
     if (!existsSync(connectionWorkflowsDir)) {
       mkdirSync(connectionWorkflowsDir, { recursive: true });
     }
 
+    // Workflows written by the pull, for git.autoCommit
+    const pulled: PulledWorkflow[] = [];
+
     // Process each workflow
     for (const remoteWorkflow of remoteWorkflows) {
       try {
@@ -69,9 +129,10 @@ export async function pullWorkflows(
           db,
           remoteWorkflow,
           options.connectionId,
-          connectionWorkflowsDir,
           options.force ?? false,
-          result
+          options.skipLocalEdits ?? false,
+          result,
+          pulled
         );
       } catch (error) {
         const syncError: SyncError = {
@@ -84,6 +145,24 @@ export async function pullWorkflows(
       }
     }
 
+    // A full listing tells us which workflows no longer exist remotely
+    if (!options.workflowIds || options.workflowIds.length === 0) {
+      markDeletedRemote(db, options.connectionId, remoteWorkflows, result);
+    }
+
+    if (options.prune) {
+      pruneDeletedRemote(db, options.connectionId, options.prune, result, pulled);
+    }
+
+    if (getConfig().git?.autoCommit) {
+      try {
+        result.commit = commitPulledWorkflows(options.connectionId, pulled) ?? undefined;
+      } catch (error) {
+        // The pull itself succeeded, the changes are left uncommitted
+        logger.warn(`Could not commit pulled workflows: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
     // Record sync in history
     db.insert(schema.syncHistory).values({
       connectionId: options.connectionId,
@@ -93,6 +172,10 @@ export async function pullWorkflows(
         created: result.created,
         updated: result.updated,
         unchanged: result.unchanged,
+        merged: result.merged,
+        deletedRemote: result.deletedRemote,
+        pruned: result.pruned,
+        conflicts: result.conflicts.length,
         errors: result.errors.length,
       }),
       createdAt: new Date(),
@@ -115,13 +198,11 @@ async function processWorkflow(
   db: ReturnType<typeof getDb>,
   remoteWorkflow: N8nWorkflow,
   connectionId: string,
-  workflowsDir: string,
   force: boolean,
-  result: PullResult
+  skipLocalEdits: boolean,
+  result: PullResult,
+  pulled: PulledWorkflow[]
 ): Promise<void> {
-  const remoteHash = hashWorkflow(remoteWorkflow as unknown as Record<string, unknown>);
-  const workflowDir = join(workflowsDir, remoteWorkflow.id);
-
   // Check if workflow exists locally
   const existing = db
     .select()
@@ -129,40 +210,76 @@ async function processWorkflow(
     .where(eq(schema.workflows.remoteId, remoteWorkflow.id))
     .get();
 
+  const remoteHash = getRemoteHash(existing, remoteWorkflow, force);
+  let workflowId: string;
+  let workflowDir: string;
+  let previousDir: string | null = null;
+
   if (existing) {
-    // Check if content has changed
-    if (existing.contentHash === remoteHash && !force) {
+    workflowDir = getWorkflowDir(existing);
+
+    // Deleted locally and waiting for push, pull --force restores it
+    if (existing.syncStatus === 'pending_delete' && !force) {
       result.unchanged++;
-      logger.debug(`Workflow ${remoteWorkflow.name} unchanged`);
+      logger.debug(`Workflow ${remoteWorkflow.name} pending deletion, skipped`);
       return;
     }
 
-    // Check for conflicts (local changes vs remote changes)
+    // Left in place, not even moved, until the local edits are pushed
     if (
-      existing.syncStatus === 'local_modified' &&
-      existing.contentHash !== remoteHash &&
-      !force
+      skipLocalEdits &&
+      !force &&
+      remoteHasChanges(existing, remoteHash) &&
+      hasLocalEdits(existing, workflowDir)
     ) {
-      // Update status to conflict
-      db.update(schema.workflows)
-        .set({
-          syncStatus: 'conflict',
-          remoteUpdatedAt: new Date(remoteWorkflow.updatedAt),
-        })
-        .where(eq(schema.workflows.id, existing.id))
-        .run();
+      result.unchanged++;
+      logger.debug(`Workflow ${remoteWorkflow.name} has local edits, skipped`);
+      return;
+    }
 
-      // Save remote version separately for conflict resolution
-      const conflictDir = join(workflowDir, '.conflict');
-      if (!existsSync(conflictDir)) {
-        mkdirSync(conflictDir, { recursive: true });
+    // Renamed or retagged on the remote: move the folder to match
+    previousDir = workflowDir;
+    workflowDir = relocateWorkflowDir(existing, remoteWorkflow);
+    const moved = workflowDir !== previousDir;
+
+    // Check if content has changed (a workflow marked deleted may have been restored)
+    if (!remoteHasChanges(existing, remoteHash) && !force) {
+      // Backfill the merge base for workflows pulled before it was tracked,
+      // and keep the names of moved ones for the next comparison
+      if (existsSync(workflowDir) && (moved || !readBaseSnapshot(workflowDir))) {
+        writeBaseSnapshot(workflowDir, remoteWorkflow);
       }
-      writeFileSync(
-        join(conflictDir, 'remote.json'),
-        JSON.stringify(remoteWorkflow, null, 2)
-      );
+      // Activation does not count as a change, but one toggled on n8n is still pulled
+      if ((existing.active ?? false) !== remoteWorkflow.active) {
+        db.update(schema.workflows)
+          .set({ active: remoteWorkflow.active })
+          .where(eq(schema.workflows.id, existing.id))
+          .run();
+        writeLocalWorkflowActive(workflowDir, remoteWorkflow.active);
+      }
+      if (moved) {
+        pulled.push({
+          name: remoteWorkflow.name,
+          action: 'moved',
+          paths: [previousDir, workflowDir],
+          remoteUpdatedAt: remoteWorkflow.updatedAt,
+        });
+      }
+      result.unchanged++;
+      logger.debug(`Workflow ${remoteWorkflow.name} unchanged`);
+      return;
+    }
 
-      logger.warn(`Conflict detected for workflow ${remoteWorkflow.name}`);
+    // Both sides changed: try a three-way merge against the last-synced base
+    if (hasLocalEdits(existing, workflowDir) && !force) {
+      if (mergeWorkflow(db, existing, remoteWorkflow, remoteHash, workflowDir, result)) {
+        pulled.push({
+          name: remoteWorkflow.name,
+          action: 'merged',
+          paths: [previousDir, workflowDir],
+          remoteUpdatedAt: remoteWorkflow.updatedAt,
+        });
+      }
       return;
     }
 
@@ -179,16 +296,20 @@ async function processWorkflow(
       .where(eq(schema.workflows.id, existing.id))
       .run();
 
+    workflowId = existing.id;
     result.updated++;
     logger.info(`Updated workflow: ${remoteWorkflow.name}`);
   } else {
     // Create new workflow record
-    const workflowId = generateId();
+    workflowId = generateId();
+    const localPath = getLayoutPath(connectionId, remoteWorkflow);
+    workflowDir = join(getConfig().workflowsPath, localPath);
 
     db.insert(schema.workflows).values({
       id: workflowId,
       connectionId,
       remoteId: remoteWorkflow.id,
+      localPath,
       name: remoteWorkflow.name,
       active: remoteWorkflow.active,
       contentHash: remoteHash,
@@ -207,24 +328,358 @@ async function processWorkflow(
     mkdirSync(workflowDir, { recursive: true });
   }
 
-  writeFileSync(
-    join(workflowDir, 'workflow.json'),
-    JSON.stringify(remoteWorkflow, null, 2)
-  );
+  writeLocalWorkflow(connectionId, workflowDir, remoteWorkflow);
+  writeBaseSnapshot(workflowDir, remoteWorkflow);
+  clearConflictFiles(workflowDir);
 
-  // Save metadata
-  writeFileSync(
-    join(workflowDir, 'meta.json'),
-    JSON.stringify(
-      {
-        remoteId: remoteWorkflow.id,
-        name: remoteWorkflow.name,
-        active: remoteWorkflow.active,
-        pulledAt: new Date().toISOString(),
-        remoteUpdatedAt: remoteWorkflow.updatedAt,
-      },
-      null,
-      2
+  writeWorkflowMeta(workflowDir, remoteWorkflow, connectionId);
+  recordWorkflowVersion({ id: workflowId, connectionId }, remoteWorkflow, 'pull');
+
+  pulled.push({
+    name: remoteWorkflow.name,
+    action: existing ? 'updated' : 'created',
+    paths: previousDir ? [previousDir, workflowDir] : [workflowDir],
+    remoteUpdatedAt: remoteWorkflow.updatedAt,
+  });
+}
+
+/**
+ * Hash a remote workflow. A workflow not updated since the last sync keeps
+ * its stored hash, so unchanged workflows are skipped without hashing them.
+ */
+function getRemoteHash(
+  existing: typeof schema.workflows.$inferSelect | undefined,
+  remoteWorkflow: N8nWorkflow,
+  force: boolean
+): string {
+  if (
+    existing &&
+    existing.syncStatus !== 'deleted_remote' &&
+    !force &&
+    isUnchangedSinceSync(existing, remoteWorkflow)
+  ) {
+    return existing.contentHash;
+  }
+
+  return hashSyncedWorkflow(remoteWorkflow);
+}
+
+/**
+ * Whether the remote version differs from the last-synced one.
+ */
+function remoteHasChanges(
+  existing: typeof schema.workflows.$inferSelect,
+  remoteHash: string
+): boolean {
+  return existing.contentHash !== remoteHash || existing.syncStatus === 'deleted_remote';
+}
+
+/**
+ * Whether the local copy has edits that were not pushed yet, either tracked
+ * in the database or made directly in workflow.json.
+ */
+function hasLocalEdits(
+  existing: typeof schema.workflows.$inferSelect,
+  workflowDir: string
+): boolean {
+  if (existing.syncStatus === 'local_modified' || existing.syncStatus === 'conflict') {
+    return true;
+  }
+
+  const workflowPath = join(workflowDir, 'workflow.json');
+  if (!existsSync(workflowPath)) {
+    return false;
+  }
+
+  try {
+    const localWorkflow = readLocalWorkflow(existing.connectionId, workflowDir);
+    return hashSyncedWorkflow(localWorkflow) !== existing.contentHash;
+  } catch {
+    // An unreadable file is still a local edit that must not be overwritten
+    return true;
+  }
+}
+
+/**
+ * Record what pulling a workflow would do to its local file.
+ */
+function planWorkflow(
+  db: ReturnType<typeof getDb>,
+  remoteWorkflow: N8nWorkflow,
+  connectionId: string,
+  force: boolean,
+  skipLocalEdits: boolean,
+  result: PullResult,
+  migratedHashes: Map<string, string> | null
+): void {
+  const row = db
+    .select()
+    .from(schema.workflows)
+    .where(eq(schema.workflows.remoteId, remoteWorkflow.id))
+    .get();
+  const existing = row && {
+    ...row,
+    contentHash: migratedHashes?.get(row.id) ?? row.contentHash,
+  };
+
+  const workflowDir = existing
+    ? getWorkflowDir(existing)
+    : join(getConfig().workflowsPath, getLayoutPath(connectionId, remoteWorkflow));
+
+  const remoteHash = getRemoteHash(existing, remoteWorkflow, force);
+
+  const plan = (action: PlannedFileChange['action'], localChanges?: boolean) => {
+    result.planned.push({
+      workflowName: remoteWorkflow.name,
+      path: relative(process.cwd(), join(workflowDir, 'workflow.json')),
+      action,
+      ...(localChanges ? { localChanges } : {}),
+    });
+  };
+
+  if (!existing) {
+    plan('create');
+    return;
+  }
+
+  const deletedLocally =
+    existing.syncStatus === 'pending_delete' ||
+    (existing.syncStatus !== 'new_local' && !existsSync(join(workflowDir, 'workflow.json')));
+
+  if (deletedLocally && !force) {
+    result.unchanged++;
+    return;
+  }
+
+  if (!remoteHasChanges(existing, remoteHash) && !force) {
+    result.unchanged++;
+    return;
+  }
+
+  const localEdits = hasLocalEdits(existing, workflowDir);
+
+  if (localEdits && skipLocalEdits && !force) {
+    result.unchanged++;
+    return;
+  }
+
+  if (localEdits && !force) {
+    const base = readBaseSnapshot(workflowDir);
+    let conflicted = true;
+    if (base) {
+      try {
+        const localWorkflow = readLocalWorkflow(existing.connectionId, workflowDir);
+        conflicted = mergeWorkflows(base, localWorkflow, remoteWorkflow).conflicts.length > 0;
+      } catch {
+        // Unreadable local file, pull would fail on it
+      }
+    }
+    plan(conflicted ? 'conflict' : 'merge');
+    return;
+  }
+
+  plan(deletedLocally ? 'create' : 'overwrite', localEdits);
+}
+
+/**
+ * Record which local files pruning would remove.
+ */
+function planPrune(
+  db: ReturnType<typeof getDb>,
+  connectionId: string,
+  remoteWorkflows: N8nWorkflow[],
+  fullListing: boolean,
+  result: PullResult
+): void {
+  const remoteIds = new Set(remoteWorkflows.map((w) => w.id));
+
+  const localWorkflows = db
+    .select()
+    .from(schema.workflows)
+    .where(eq(schema.workflows.connectionId, connectionId))
+    .all();
+
+  for (const workflow of localWorkflows) {
+    const deleted =
+      workflow.syncStatus === 'deleted_remote' ||
+      (fullListing &&
+        !remoteIds.has(workflow.remoteId) &&
+        workflow.syncStatus !== 'new_local' &&
+        workflow.syncStatus !== 'pending_delete');
+
+    const workflowDir = getWorkflowDir(workflow);
+    if (deleted && existsSync(workflowDir)) {
+      result.planned.push({
+        workflowName: workflow.name,
+        path: relative(process.cwd(), workflowDir),
+        action: 'prune',
+      });
+    }
+  }
+}
+
+/**
+ * Mark tracked workflows missing from the remote listing as deleted remotely.
+ */
+function markDeletedRemote(
+  db: ReturnType<typeof getDb>,
+  connectionId: string,
+  remoteWorkflows: N8nWorkflow[],
+  result: PullResult
+): void {
+  const remoteIds = new Set(remoteWorkflows.map((w) => w.id));
+
+  const localWorkflows = db
+    .select()
+    .from(schema.workflows)
+    .where(eq(schema.workflows.connectionId, connectionId))
+    .all();
+
+  for (const workflow of localWorkflows) {
+    if (
+      remoteIds.has(workflow.remoteId) ||
+      workflow.syncStatus === 'new_local' ||
+      workflow.syncStatus === 'deleted_remote'
+    ) {
+      continue;
+    }
+
+    // Deleted on both sides, nothing left to track
+    if (workflow.syncStatus === 'pending_delete') {
+      db.delete(schema.workflows)
+        .where(eq(schema.workflows.id, workflow.id))
+        .run();
+      continue;
+    }
+
+    db.update(schema.workflows)
+      .set({ syncStatus: 'deleted_remote' })
+      .where(eq(schema.workflows.id, workflow.id))
+      .run();
+
+    result.deletedRemote++;
+    logger.warn(`Workflow deleted on remote: ${workflow.name}`);
+  }
+}
+
+/**
+ * Archive or remove local copies of workflows deleted on the remote and stop tracking them.
+ */
+function pruneDeletedRemote(
+  db: ReturnType<typeof getDb>,
+  connectionId: string,
+  mode: 'archive' | 'remove',
+  result: PullResult,
+  pulled: PulledWorkflow[]
+): void {
+  const deletedWorkflows = db
+    .select()
+    .from(schema.workflows)
+    .where(
+      and(
+        eq(schema.workflows.connectionId, connectionId),
+        eq(schema.workflows.syncStatus, 'deleted_remote')
+      )
     )
-  );
+    .all();
+
+  for (const workflow of deletedWorkflows) {
+    const workflowDir = getWorkflowDir(workflow);
+
+    if (mode === 'archive') {
+      const archivedTo = archiveWorkflowDir(workflow);
+      if (archivedTo) {
+        logger.info(`Archived workflow ${workflow.name} to ${archivedTo}`);
+      }
+    } else {
+      rmSync(workflowDir, { recursive: true, force: true });
+      logger.info(`Removed workflow: ${workflow.name}`);
+    }
+
+    db.delete(schema.workflows)
+      .where(eq(schema.workflows.id, workflow.id))
+      .run();
+
+    pulled.push({ name: workflow.name, action: 'pruned', paths: [workflowDir] });
+    result.pruned++;
+  }
+}
+
+/**
+ * Merge remote changes into a locally modified workflow.
+ * Clean merges are written to workflow.json; overlapping edits put the
+ * workflow in conflict state with markers in the .conflict folder.
+ * Returns whether the merge was clean.
+ */
+function mergeWorkflow(
+  db: ReturnType<typeof getDb>,
+  existing: typeof schema.workflows.$inferSelect,
+  remoteWorkflow: N8nWorkflow,
+  remoteHash: string,
+  workflowDir: string,
+  result: PullResult
+): boolean {
+  const workflowPath = join(workflowDir, 'workflow.json');
+  const base = readBaseSnapshot(workflowDir);
+
+  if (base && existsSync(workflowPath)) {
+    const localWorkflow = readLocalWorkflow(existing.connectionId, workflowDir);
+    const { merged, conflicts } = mergeWorkflows(base, localWorkflow, remoteWorkflow);
+
+    writeLocalWorkflow(existing.connectionId, workflowDir, merged);
+
+    if (conflicts.length === 0) {
+      const mergedHash = hashSyncedWorkflow(merged);
+
+      // The remote version becomes the new base; merged local edits remain to be pushed
+      db.update(schema.workflows)
+        .set({
+          name: merged.name,
+          active: merged.active,
+          contentHash: remoteHash,
+          remoteUpdatedAt: new Date(remoteWorkflow.updatedAt),
+          localUpdatedAt: new Date(),
+          syncStatus: mergedHash === remoteHash ? 'synced' : 'local_modified',
+        })
+        .where(eq(schema.workflows.id, existing.id))
+        .run();
+
+      writeBaseSnapshot(workflowDir, remoteWorkflow);
+      clearConflictFiles(workflowDir);
+      writeWorkflowMeta(workflowDir, remoteWorkflow, existing.connectionId);
+      recordWorkflowVersion(existing, merged, 'pull', { merged: true });
+
+      result.merged++;
+      logger.info(`Merged remote changes into workflow: ${remoteWorkflow.name}`);
+      return true;
+    }
+
+    writeConflictFiles(workflowDir, remoteWorkflow, conflicts);
+  } else {
+    // No base to merge against, keep remote version aside
+    writeConflictFiles(workflowDir, remoteWorkflow, []);
+  }
+
+  // remoteUpdatedAt stays with the last-synced version, which contentHash is
+  // the hash of, so the remote changes are not taken as synced
+  db.update(schema.workflows)
+    .set({ syncStatus: 'conflict' })
+    .where(eq(schema.workflows.id, existing.id))
+    .run();
+
+  const localHash = existsSync(workflowPath)
+    ? hashSyncedWorkflow(readLocalWorkflow(existing.connectionId, workflowDir))
+    : existing.contentHash;
+
+  result.conflicts.push({
+    workflowId: existing.id,
+    workflowName: existing.name,
+    localHash,
+    remoteHash,
+    localUpdatedAt: existing.localUpdatedAt ?? new Date(),
+    remoteUpdatedAt: new Date(remoteWorkflow.updatedAt),
+  });
+
+  logger.warn(`Conflict detected for workflow ${remoteWorkflow.name}`);
+  return false;
 }
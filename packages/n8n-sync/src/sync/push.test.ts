@@ -0,0 +1,331 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { eq, formatWorkflowJson, getDb, schema } from '@flowsfarm/core';
+import { FakeN8n, createTestProject, type TestProject } from '../testing';
+import { createDraftWorkflow, markWorkflowForDeletion } from './local';
+import { pullWorkflows } from './pull';
+import { pushWorkflows } from './push';
+
+// A scheduled cleanup job, as authored locally before it exists on n8n
+const cleanupJob = {
+  name: 'Nightly cleanup',
+  active: false,
+  nodes: [
+    {
+      name: 'Every night',
+      type: 'n8n-nodes-base.scheduleTrigger',
+      typeVersion: 1,
+      position: [0, 0],
+      parameters: { rule: { interval: [{ field: 'days' }] } },
+    },
+    {
+      name: 'Purge sessions',
+      type: 'n8n-nodes-base.postgres',
+      typeVersion: 2,
+      position: [220, 0],
+      parameters: { operation: 'executeQuery', query: 'DELETE FROM sessions WHERE expired' },
+    },
+  ],
+  connections: {
+    'Every night': { main: [[{ node: 'Purge sessions', type: 'main', index: 0 }]] },
+  },
+  settings: {},
+};
+
+describe('pushWorkflows', () => {
+  let n8n: FakeN8n;
+  let project: TestProject;
+
+  const rows = () =>
+    getDb()
+      .select()
+      .from(schema.workflows)
+      .where(eq(schema.workflows.connectionId, project.connectionId))
+      .all();
+
+  const push = (options: { delete?: boolean } = {}) =>
+    pushWorkflows(project.client, { connectionId: project.connectionId, ...options });
+
+  beforeEach(async () => {
+    n8n = new FakeN8n();
+    project = await createTestProject(n8n);
+  });
+
+  afterEach(() => {
+    project.cleanup();
+  });
+
+  describe('workflows authored locally', () => {
+    it('creates a workflow.json dropped in the connection folder and moves it under its new ID', async () => {
+      const draftDir = join(project.workflowsPath, project.connectionId, 'cleanup');
+      mkdirSync(draftDir, { recursive: true });
+      writeFileSync(join(draftDir, 'workflow.json'), formatWorkflowJson(cleanupJob));
+
+      const result = await push();
+
+      expect(result).toMatchObject({ total: 1, created: 1, updated: 0, errors: [] });
+      const [created] = n8n.workflows.values();
+      expect(created).toMatchObject({ name: 'Nightly cleanup', active: false });
+      expect(created.nodes.map((n) => n.name)).toEqual(['Every night', 'Purge sessions']);
+
+      const workflowDir = join(project.workflowsPath, project.connectionId, created.id);
+      expect(existsSync(draftDir)).toBe(false);
+      expect(JSON.parse(readFileSync(join(workflowDir, 'workflow.json'), 'utf-8'))).toMatchObject({
+        id: created.id,
+        name: 'Nightly cleanup',
+      });
+      expect(existsSync(join(workflowDir, '.base.json'))).toBe(true);
+      expect(rows()).toEqual([
+        expect.objectContaining({
+          remoteId: created.id,
+          localPath: join(project.connectionId, created.id),
+          syncStatus: 'synced',
+        }),
+      ]);
+    });
+
+    it('creates a draft inactive and then activates it as its file says', async () => {
+      createDraftWorkflow(project.connectionId, { ...cleanupJob, active: true });
+
+      const result = await push();
+
+      expect(result).toMatchObject({ created: 1, activated: 1, errors: [] });
+      const [created] = n8n.workflows.values();
+      expect(created.active).toBe(true);
+      expect(n8n.requests.filter((r) => r.startsWith('POST'))).toEqual([
+        'POST /api/v1/workflows',
+        `POST /api/v1/workflows/${created.id}/activate`,
+      ]);
+      expect(rows()[0]).toMatchObject({ remoteId: created.id, active: true });
+    });
+
+    it('is pushed as an update once it was created', async () => {
+      const draft = createDraftWorkflow(project.connectionId, cleanupJob);
+      await push();
+
+      const [{ id }] = n8n.workflows.values();
+      const workflowPath = join(project.workflowsPath, project.connectionId, id, 'workflow.json');
+      const file = JSON.parse(readFileSync(workflowPath, 'utf-8'));
+      file.nodes[1].parameters.query = 'DELETE FROM sessions WHERE expired_at < now()';
+      writeFileSync(workflowPath, formatWorkflowJson(file));
+
+      const result = await push();
+
+      expect(result).toMatchObject({ created: 0, updated: 1, errors: [] });
+      expect(n8n.workflows.size).toBe(1);
+      expect(n8n.get(id).nodes[1].parameters?.query).toBe(
+        'DELETE FROM sessions WHERE expired_at < now()'
+      );
+      expect(rows()).toEqual([expect.objectContaining({ id: draft.id, remoteId: id })]);
+    });
+  });
+
+  describe('checking the remote version before an update', () => {
+    let id: string;
+
+    beforeEach(async () => {
+      id = n8n.add({
+        name: 'Invoice reminders',
+        nodes: [
+          {
+            name: 'Send reminder',
+            type: 'n8n-nodes-base.emailSend',
+            position: [0, 0],
+            parameters: { subject: 'Your invoice is due' },
+          },
+        ],
+      }).id;
+      await pullWorkflows(project.client, { connectionId: project.connectionId });
+
+      const workflowPath = join(project.workflowsPath, project.connectionId, id, 'workflow.json');
+      const file = JSON.parse(readFileSync(workflowPath, 'utf-8'));
+      file.nodes[0].parameters.subject = 'Reminder: your invoice is due';
+      writeFileSync(workflowPath, formatWorkflowJson(file));
+    });
+
+    const failGet = (status: number) =>
+      vi.stubGlobal('fetch', (input: string, init?: RequestInit) =>
+        (init?.method ?? 'GET') === 'GET' && input.endsWith(`/workflows/${id}`)
+          ? new Response('', { status })
+          : n8n.fetch(input, init)
+      );
+
+    it('reports a failed request as an error without updating the workflow', async () => {
+      failGet(403);
+
+      const result = await push();
+
+      expect(result).toMatchObject({ updated: 0, conflicts: [] });
+      expect(result.errors).toEqual([expect.objectContaining({ code: 'PUSH_ERROR' })]);
+      expect(n8n.requests.filter((r) => r.startsWith('PUT'))).toEqual([]);
+      expect(rows()[0].syncStatus).toBe('synced');
+    });
+
+    it('marks a workflow deleted on n8n instead of updating it', async () => {
+      failGet(404);
+
+      const result = await push();
+
+      expect(result.updated).toBe(0);
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          message: 'Invoice reminders was deleted on n8n, push with --recreate to create it again',
+        }),
+      ]);
+      expect(n8n.requests.filter((r) => r.startsWith('PUT'))).toEqual([]);
+      expect(rows()[0].syncStatus).toBe('deleted_remote');
+    });
+  });
+
+  describe('activation', () => {
+    let id: string;
+    let workflowPath: string;
+
+    const readFile = () => JSON.parse(readFileSync(workflowPath, 'utf-8'));
+
+    // Edit the purge query, leaving the activation in the file as it is
+    const editQuery = () => {
+      const file = readFile();
+      file.nodes[1].parameters.query = 'DELETE FROM sessions WHERE expired AND NOT pinned';
+      writeFileSync(workflowPath, formatWorkflowJson(file));
+    };
+
+    beforeEach(async () => {
+      id = n8n.add(cleanupJob).id;
+      await pullWorkflows(project.client, { connectionId: project.connectionId });
+      workflowPath = join(project.workflowsPath, project.connectionId, id, 'workflow.json');
+    });
+
+    it('activated on n8n, pull, then a content push keeps it active', async () => {
+      n8n.edit(id, (w) => (w.active = true));
+
+      const pulled = await pullWorkflows(project.client, { connectionId: project.connectionId });
+
+      expect(pulled.unchanged).toBe(1);
+      expect(readFile().active).toBe(true);
+      expect(rows()[0].active).toBe(true);
+
+      editQuery();
+      const result = await push();
+
+      expect(result).toMatchObject({ updated: 1, activated: 0, deactivated: 0, errors: [] });
+      expect(n8n.get(id).active).toBe(true);
+    });
+
+    it('activated on n8n and not pulled yet, a content push keeps it active', async () => {
+      n8n.edit(id, (w) => (w.active = true));
+
+      editQuery();
+      const result = await push();
+
+      expect(result).toMatchObject({ updated: 1, deactivated: 0, errors: [] });
+      expect(n8n.get(id).active).toBe(true);
+      expect(readFile().active).toBe(false);
+    });
+
+    it('activates the workflow on n8n when the file was changed to active', async () => {
+      writeFileSync(workflowPath, formatWorkflowJson({ ...readFile(), active: true }));
+
+      const result = await push();
+
+      expect(result).toMatchObject({ updated: 0, activated: 1, errors: [] });
+      expect(n8n.get(id).active).toBe(true);
+      expect(rows()[0].active).toBe(true);
+    });
+  });
+
+  describe('workflows deleted locally', () => {
+    // An old import job that is no longer used, pulled from n8n
+    const pullLegacyImport = async () => {
+      const workflow = n8n.add({
+        name: 'Legacy CSV import',
+        nodes: [
+          {
+            name: 'Read file',
+            type: 'n8n-nodes-base.readBinaryFile',
+            position: [0, 0],
+            parameters: { filePath: '/data/import.csv' },
+          },
+        ],
+      });
+      await pullWorkflows(project.client, { connectionId: project.connectionId });
+      return { workflow, row: rows()[0] };
+    };
+
+    const history = () =>
+      getDb()
+        .select()
+        .from(schema.syncHistory)
+        .where(eq(schema.syncHistory.action, 'delete'))
+        .all();
+
+    it('marks a folder deleted by hand for deletion without deleting it on n8n', async () => {
+      const { workflow } = await pullLegacyImport();
+      rmSync(join(project.workflowsPath, project.connectionId, workflow.id), { recursive: true });
+
+      const result = await push();
+
+      expect(result).toMatchObject({ total: 0, deleted: 0, errors: [] });
+      expect(n8n.workflows.has(workflow.id)).toBe(true);
+      expect(rows()).toEqual([expect.objectContaining({ syncStatus: 'pending_delete' })]);
+    });
+
+    it('deletes workflows pending deletion on n8n and stops tracking them', async () => {
+      const { workflow, row } = await pullLegacyImport();
+      rmSync(join(project.workflowsPath, project.connectionId, workflow.id), { recursive: true });
+      await push();
+
+      const result = await push({ delete: true });
+
+      expect(result).toMatchObject({ total: 1, deleted: 1, errors: [] });
+      expect(n8n.requests).toContain(`DELETE /api/v1/workflows/${workflow.id}`);
+      expect(n8n.workflows.size).toBe(0);
+      expect(rows()).toEqual([]);
+      expect(history()).toEqual([
+        expect.objectContaining({
+          workflowId: row.id,
+          details: JSON.stringify({ remoteId: workflow.id, name: 'Legacy CSV import' }),
+        }),
+      ]);
+    });
+
+    it('stops tracking a workflow that was deleted on n8n as well', async () => {
+      const { workflow, row } = await pullLegacyImport();
+      expect(markWorkflowForDeletion(row)).toBe(true);
+      n8n.workflows.delete(workflow.id);
+
+      const result = await push({ delete: true });
+
+      expect(result).toMatchObject({ deleted: 1, errors: [] });
+      expect(existsSync(join(project.workflowsPath, project.connectionId, workflow.id))).toBe(false);
+      expect(rows()).toEqual([]);
+    });
+
+    it('reports a failed deletion and keeps the workflow pending', async () => {
+      const { workflow, row } = await pullLegacyImport();
+      markWorkflowForDeletion(row);
+      vi.stubGlobal('fetch', (input: string, init?: RequestInit) =>
+        init?.method === 'DELETE' ? new Response('Forbidden', { status: 403 }) : n8n.fetch(input, init)
+      );
+
+      const result = await push({ delete: true });
+
+      expect(result).toMatchObject({ deleted: 0 });
+      expect(result.errors).toEqual([expect.objectContaining({ workflowId: row.id, code: 'DELETE_ERROR' })]);
+      expect(n8n.workflows.has(workflow.id)).toBe(true);
+      expect(rows()).toEqual([expect.objectContaining({ syncStatus: 'pending_delete' })]);
+    });
+
+    it('untracks a draft deleted before it was ever pushed', async () => {
+      const draft = createDraftWorkflow(project.connectionId, cleanupJob);
+      rmSync(join(project.workflowsPath, draft.localPath!), { recursive: true });
+
+      const result = await push({ delete: true });
+
+      expect(result).toMatchObject({ total: 0, created: 0, deleted: 0 });
+      expect(n8n.requests.filter((r) => !r.startsWith('GET'))).toEqual([]);
+      expect(rows()).toEqual([]);
+    });
+  });
+});
@@ -1,68 +1,97 @@
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { existsSync, rmSync } from 'fs';
+import { join, relative } from 'path';
 import { eq } from 'drizzle-orm';
 import {
   getDb,
-  getConfig,
-  hashWorkflow,
   schema,
   logger,
   type PushResult,
   type ConflictInfo,
   type SyncError,
 } from '@flowsfarm/core';
-import { N8nClient } from '../client';
+import { N8nClient, N8nApiError } from '../client';
 import type { N8nWorkflow, UpdateWorkflowInput } from '../types';
+import {
+  writeBaseSnapshot,
+  clearConflictFiles,
+  writeWorkflowMeta,
+  readLocalWorkflow,
+  writeLocalWorkflow,
+  getWorkflowDir,
+  getLayoutPath,
+  moveWorkflowDir,
+  relocateWorkflowDir,
+} from './files';
+import { registerNewLocalWorkflows, getPendingDeletions } from './local';
+import { hashSyncedWorkflow, migrateContentHashes } from './hashes';
+import { RemoteSnapshot } from './remote';
+import { ActivationError, activateRemoteWorkflow, recordActivation } from './activation';
+import { recordWorkflowVersion } from './history';
+import { lintWorkflowFile } from './lint';
+import { validateWorkflowFile, WorkflowValidationError } from './validate';
 
 export interface PushOptions {
   connectionId: string;
   workflowIds?: string[];
   force?: boolean;
+  /** Recreate workflows that were deleted on the remote */
+  recreate?: boolean;
+  /** Delete workflows on the remote that were deleted locally */
+  delete?: boolean;
+  /** Refuse to push workflows with lint errors */
+  lint?: boolean;
 }
 
 /**
- * Check if a local workflow file has changed compared to stored hash.
+ * Check if a local workflow file has changed compared to stored hash, or
+ * sets a different activation than the workflow has on the remote.
  */
-function hasLocalChanges(
-  workflow: typeof schema.workflows.$inferSelect,
-  workflowsDir: string
-): boolean {
-  const workflowPath = join(workflowsDir, workflow.remoteId, 'workflow.json');
+function hasLocalChanges(workflow: typeof schema.workflows.$inferSelect): boolean {
+  const workflowDir = getWorkflowDir(workflow);
+  const workflowPath = join(workflowDir, 'workflow.json');
 
   if (!existsSync(workflowPath)) {
     return false;
   }
 
   try {
-    const content = readFileSync(workflowPath, 'utf-8');
-    const data = JSON.parse(content) as Record<string, unknown>;
-    const currentHash = hashWorkflow(data);
-    return currentHash !== workflow.contentHash;
+    const data = readLocalWorkflow(workflow.connectionId, workflowDir);
+    const currentHash = hashSyncedWorkflow(data);
+    return (
+      currentHash !== workflow.contentHash ||
+      (data.active !== undefined && data.active !== (workflow.active ?? false))
+    );
   } catch {
-    return false;
+    // An unreadable file is an edit too, validation reports what is wrong with it
+    return true;
   }
 }
 
 export async function pushWorkflows(
   client: N8nClient,
-  options: PushOptions
+  options: PushOptions,
+  remote: RemoteSnapshot = new RemoteSnapshot(client)
 ): Promise<PushResult> {
   const db = getDb();
-  const config = getConfig();
 
   const result: PushResult = {
     total: 0,
     created: 0,
     updated: 0,
+    deleted: 0,
+    activated: 0,
+    deactivated: 0,
     conflicts: [],
     errors: [],
   };
 
   try {
-    const connectionWorkflowsDir = join(
-      config.workflowsPath,
-      options.connectionId
-    );
+    migrateContentHashes(options.connectionId);
+
+    // Track workflow folders added or deleted locally
+    registerNewLocalWorkflows(options.connectionId);
+    const pendingDeletions = getPendingDeletions(options.connectionId);
+    let workflowsToDelete = options.delete ? pendingDeletions : [];
 
     // Get all workflows for this connection
     let allWorkflows = db
@@ -77,30 +106,50 @@ export async function pushWorkflows(
         options.workflowIds!.includes(w.id) ||
         options.workflowIds!.includes(w.remoteId)
       );
+      workflowsToDelete = workflowsToDelete.filter((w) =>
+        options.workflowIds!.includes(w.id) ||
+        options.workflowIds!.includes(w.remoteId)
+      );
     }
 
+    // Workflows deleted on the remote are only pushed when recreating them,
+    // workflows deleted locally are handled separately
+    allWorkflows = allWorkflows.filter(
+      (w) =>
+        (w.syncStatus !== 'deleted_remote' || options.recreate) &&
+        w.syncStatus !== 'pending_delete'
+    );
+
     // Find workflows that need to be pushed:
-    // 1. syncStatus is 'local_modified' OR
+    // 1. syncStatus is 'local_modified', 'new_local' or 'deleted_remote' OR
     // 2. Local file hash differs from stored hash (detects direct file edits)
     const workflowsToSync = options.force
       ? allWorkflows
       : allWorkflows.filter((w) =>
           w.syncStatus === 'local_modified' ||
           w.syncStatus === 'new_local' ||
-          hasLocalChanges(w, connectionWorkflowsDir)
+          w.syncStatus === 'deleted_remote' ||
+          hasLocalChanges(w)
         );
 
-    result.total = workflowsToSync.length;
-    logger.info(`Found ${workflowsToSync.length} workflows to push`);
+    result.total = workflowsToSync.length + workflowsToDelete.length;
+    logger.info(`Found ${result.total} workflows to push`);
 
-    // Process each workflow
-    for (const localWorkflow of workflowsToSync) {
+    // Process workflows concurrently, within the client's request limits
+    await Promise.all(workflowsToSync.map(async (localWorkflow) => {
       try {
+        // Invalid files fail before any request is sent for them
+        checkWorkflowFile(localWorkflow);
+
+        if (options.lint) {
+          checkLintErrors(localWorkflow);
+        }
+
         await processWorkflowPush(
           db,
           client,
+          remote,
           localWorkflow,
-          connectionWorkflowsDir,
           options.force ?? false,
           result
         );
@@ -108,7 +157,7 @@ export async function pushWorkflows(
         const syncError: SyncError = {
           workflowId: localWorkflow.id,
           message: error instanceof Error ? error.message : 'Unknown error',
-          code: 'PUSH_ERROR',
+          code: error instanceof WorkflowValidationError ? 'VALIDATION_ERROR' : 'PUSH_ERROR',
         };
         result.errors.push(syncError);
         logger.error(
@@ -116,7 +165,20 @@ export async function pushWorkflows(
           error
         );
       }
-    }
+    }));
+
+    await Promise.all(workflowsToDelete.map(async (deletedWorkflow) => {
+      try {
+        await deleteRemoteWorkflow(db, client, remote, deletedWorkflow, result);
+      } catch (error) {
+        result.errors.push({
+          workflowId: deletedWorkflow.id,
+          message: error instanceof Error ? error.message : 'Unknown error',
+          code: 'DELETE_ERROR',
+        });
+        logger.error(`Error deleting workflow ${deletedWorkflow.name}:`, error);
+      }
+    }));
 
     // Record sync in history
     db.insert(schema.syncHistory).values({
@@ -126,6 +188,9 @@ export async function pushWorkflows(
         total: result.total,
         created: result.created,
         updated: result.updated,
+        deleted: result.deleted,
+        activated: result.activated,
+        deactivated: result.deactivated,
         conflicts: result.conflicts.length,
         errors: result.errors.length,
       }),
@@ -139,75 +204,113 @@ export async function pushWorkflows(
   }
 }
 
+/**
+ * Validate a workflow file against the workflow schema.
+ */
+function checkWorkflowFile(workflow: typeof schema.workflows.$inferSelect): void {
+  const workflowPath = join(getWorkflowDir(workflow), 'workflow.json');
+  if (!existsSync(workflowPath)) {
+    return;
+  }
+
+  const issues = validateWorkflowFile(workflowPath);
+  if (issues.length > 0) {
+    throw new WorkflowValidationError(relative(process.cwd(), workflowPath), issues);
+  }
+}
+
+/**
+ * Refuse to push a workflow whose file has lint errors.
+ */
+function checkLintErrors(workflow: typeof schema.workflows.$inferSelect): void {
+  const workflowPath = join(getWorkflowDir(workflow), 'workflow.json');
+  if (!existsSync(workflowPath)) {
+    return;
+  }
+
+  const errors = lintWorkflowFile(workflowPath).filter((issue) => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(
+      `Lint errors in ${workflow.name}: ${errors.map((e) => `${e.message} [${e.rule}]`).join('; ')}`
+    );
+  }
+}
+
 async function processWorkflowPush(
   db: ReturnType<typeof getDb>,
   client: N8nClient,
+  remote: RemoteSnapshot,
   localWorkflow: typeof schema.workflows.$inferSelect,
-  workflowsDir: string,
   force: boolean,
   result: PushResult
 ): Promise<void> {
-  const workflowDir = join(workflowsDir, localWorkflow.remoteId);
+  const workflowDir = getWorkflowDir(localWorkflow);
   const workflowPath = join(workflowDir, 'workflow.json');
 
   if (!existsSync(workflowPath)) {
     throw new Error(`Workflow file not found: ${workflowPath}`);
   }
 
-  // Read local workflow content
-  const localContent = readFileSync(workflowPath, 'utf-8');
-  const localWorkflowData = JSON.parse(localContent) as N8nWorkflow;
+  // Read local workflow content, as it will be pushed
+  const localWorkflowData = readLocalWorkflow(localWorkflow.connectionId, workflowDir, {
+    strict: true,
+  });
+
+  if (localWorkflow.syncStatus === 'new_local' || localWorkflow.syncStatus === 'deleted_remote') {
+    await createRemoteWorkflow(db, client, remote, localWorkflow, localWorkflowData, result);
+    return;
+  }
 
   // Check remote for conflicts (unless force)
   if (!force) {
-    try {
-      const remoteWorkflow = await client.getWorkflow(localWorkflow.remoteId);
-      const remoteHash = hashWorkflow(
-        remoteWorkflow as unknown as Record<string, unknown>
-      );
+    const remoteWorkflow = await fetchRemoteWorkflow(db, remote, localWorkflow);
+    const remoteHash = hashSyncedWorkflow(remoteWorkflow);
 
-      // Read local file hash for comparison
-      const localFileContent = readFileSync(workflowPath, 'utf-8');
-      const localFileData = JSON.parse(localFileContent) as Record<string, unknown>;
-      const localFileHash = hashWorkflow(localFileData);
-
-      // Conflict exists if:
-      // 1. Remote hash differs from what we stored (remote was modified)
-      // 2. AND local file hash differs from stored (local was modified)
-      // If only local changed, no conflict - just push
-      // If only remote changed, would be caught by pull
-      const remoteChanged = remoteHash !== localWorkflow.contentHash;
-      const localChanged = localFileHash !== localWorkflow.contentHash;
-
-      if (remoteChanged && localChanged) {
-        const conflict: ConflictInfo = {
-          workflowId: localWorkflow.id,
-          workflowName: localWorkflow.name,
-          localHash: localFileHash,
-          remoteHash,
-          localUpdatedAt: localWorkflow.localUpdatedAt ?? new Date(),
-          remoteUpdatedAt: new Date(remoteWorkflow.updatedAt),
-        };
-        result.conflicts.push(conflict);
+    const localFileHash = hashSyncedWorkflow(localWorkflowData);
 
-        // Update status to conflict
-        db.update(schema.workflows)
-          .set({ syncStatus: 'conflict' })
-          .where(eq(schema.workflows.id, localWorkflow.id))
-          .run();
+    // Conflict exists if:
+    // 1. Remote hash differs from what we stored (remote was modified)
+    // 2. AND local file hash differs from stored (local was modified)
+    // If only local changed, no conflict - just push
+    // If only remote changed, would be caught by pull
+    const remoteChanged = remoteHash !== localWorkflow.contentHash;
+    const localChanged = localFileHash !== localWorkflow.contentHash;
 
-        logger.warn(`Conflict detected for workflow ${localWorkflow.name}`);
-        return;
-      }
-    } catch (error) {
-      // If workflow doesn't exist remotely, we'll create it
-      logger.debug(
-        `Remote workflow not found, will create: ${localWorkflow.name}`
-      );
+    if (remoteChanged && localChanged) {
+      const conflict: ConflictInfo = {
+        workflowId: localWorkflow.id,
+        workflowName: localWorkflow.name,
+        localHash: localFileHash,
+        remoteHash,
+        localUpdatedAt: localWorkflow.localUpdatedAt ?? new Date(),
+        remoteUpdatedAt: new Date(remoteWorkflow.updatedAt),
+      };
+      result.conflicts.push(conflict);
+
+      // Update status to conflict
+      db.update(schema.workflows)
+        .set({ syncStatus: 'conflict' })
+        .where(eq(schema.workflows.id, localWorkflow.id))
+        .run();
+
+      logger.warn(`Conflict detected for workflow ${localWorkflow.name}`);
+      return;
     }
   }
 
-  // Prepare update payload (remove read-only fields)
+  // Only the activation was changed locally, the content is left as it is on the remote
+  const contentChanged =
+    force ||
+    localWorkflow.syncStatus !== 'synced' ||
+    hashSyncedWorkflow(localWorkflowData) !== localWorkflow.contentHash;
+
+  if (!contentChanged) {
+    const remoteWorkflow = await remote.fetch(localWorkflow.remoteId);
+    await reconcileActivation(client, remote, localWorkflow, localWorkflowData, remoteWorkflow, result);
+    return;
+  }
+
+  // Prepare update payload (remove read-only fields; activation is set separately)
   const updatePayload: UpdateWorkflowInput = {
     name: localWorkflowData.name,
     nodes: localWorkflowData.nodes,
@@ -223,12 +326,11 @@ async function processWorkflowPush(
   );
 
   // Update local record
-  const newHash = hashWorkflow(
-    updatedWorkflow as unknown as Record<string, unknown>
-  );
+  const newHash = hashSyncedWorkflow(updatedWorkflow);
 
   db.update(schema.workflows)
     .set({
+      name: updatedWorkflow.name,
       contentHash: newHash,
       remoteUpdatedAt: new Date(updatedWorkflow.updatedAt),
       syncStatus: 'synced',
@@ -236,6 +338,199 @@ async function processWorkflowPush(
     .where(eq(schema.workflows.id, localWorkflow.id))
     .run();
 
+  // The pushed version is the new merge base, in the folder of its new name if renamed
+  remote.set(updatedWorkflow);
+  const updatedDir = relocateWorkflowDir(localWorkflow, updatedWorkflow);
+  writeBaseSnapshot(updatedDir, updatedWorkflow);
+  clearConflictFiles(updatedDir);
+  recordWorkflowVersion(localWorkflow, updatedWorkflow, 'push');
+
   result.updated++;
   logger.info(`Pushed workflow: ${localWorkflow.name}`);
+
+  await reconcileActivation(
+    client,
+    remote,
+    { ...localWorkflow, contentHash: newHash },
+    localWorkflowData,
+    updatedWorkflow,
+    result
+  );
+}
+
+/**
+ * Fetch the remote version of a workflow to push. A workflow deleted on the
+ * remote is marked as such and only pushed again when recreating it; other
+ * errors fail the push of this workflow.
+ */
+async function fetchRemoteWorkflow(
+  db: ReturnType<typeof getDb>,
+  remote: RemoteSnapshot,
+  localWorkflow: typeof schema.workflows.$inferSelect
+): Promise<N8nWorkflow> {
+  try {
+    return await remote.fetch(localWorkflow.remoteId);
+  } catch (error) {
+    if (!(error instanceof N8nApiError && error.statusCode === 404)) {
+      throw error;
+    }
+
+    db.update(schema.workflows)
+      .set({ syncStatus: 'deleted_remote' })
+      .where(eq(schema.workflows.id, localWorkflow.id))
+      .run();
+
+    throw new Error(
+      `${localWorkflow.name} was deleted on n8n, push with --recreate to create it again`
+    );
+  }
+}
+
+/**
+ * Activate or deactivate a pushed workflow on the remote when its local file
+ * was changed to say so. An activation toggled on n8n since the last pull is
+ * left as it is. Activation errors are reported for the workflow without
+ * failing the push.
+ */
+async function reconcileActivation(
+  client: N8nClient,
+  remote: RemoteSnapshot,
+  localWorkflow: typeof schema.workflows.$inferSelect,
+  localWorkflowData: N8nWorkflow,
+  remoteWorkflow: N8nWorkflow,
+  result: PushResult
+): Promise<void> {
+  const active = localWorkflowData.active;
+  if (active === undefined || active === (localWorkflow.active ?? false)) {
+    return;
+  }
+
+  if (active === remoteWorkflow.active) {
+    recordActivation(localWorkflow, remoteWorkflow, remoteWorkflow);
+    return;
+  }
+
+  try {
+    const activated = await activateRemoteWorkflow(client, remoteWorkflow, active);
+    remote.set(activated);
+    recordActivation(localWorkflow, remoteWorkflow, activated);
+    if (active) {
+      result.activated++;
+    } else {
+      result.deactivated++;
+    }
+  } catch (error) {
+    if (!(error instanceof ActivationError)) {
+      throw error;
+    }
+    result.errors.push({
+      workflowId: localWorkflow.id,
+      message: error.message,
+      code: 'ACTIVATION_ERROR',
+    });
+    logger.warn(error.message);
+  }
+}
+
+/**
+ * Create a workflow on the remote (authored locally, or deleted remotely)
+ * and move it under its new remote ID.
+ */
+async function createRemoteWorkflow(
+  db: ReturnType<typeof getDb>,
+  client: N8nClient,
+  remote: RemoteSnapshot,
+  localWorkflow: typeof schema.workflows.$inferSelect,
+  localWorkflowData: N8nWorkflow,
+  result: PushResult
+): Promise<void> {
+  const createdWorkflow = await client.createWorkflow({
+    name: localWorkflowData.name,
+    nodes: localWorkflowData.nodes ?? [],
+    connections: localWorkflowData.connections ?? {},
+    settings: localWorkflowData.settings,
+    staticData: localWorkflowData.staticData,
+  });
+  remote.set(createdWorkflow);
+
+  // Move the local folder to where the layout puts the ID assigned by n8n
+  const workflowDir = moveWorkflowDir(
+    localWorkflow,
+    getLayoutPath(localWorkflow.connectionId, createdWorkflow, localWorkflow.id)
+  );
+
+  // n8n creates workflows inactive, the local activation is set afterwards
+  writeLocalWorkflow(localWorkflow.connectionId, workflowDir, {
+    ...createdWorkflow,
+    active: localWorkflowData.active ?? createdWorkflow.active,
+  });
+  writeWorkflowMeta(workflowDir, createdWorkflow, localWorkflow.connectionId);
+  writeBaseSnapshot(workflowDir, createdWorkflow);
+
+  db.update(schema.workflows)
+    .set({
+      remoteId: createdWorkflow.id,
+      name: createdWorkflow.name,
+      active: createdWorkflow.active,
+      contentHash: hashSyncedWorkflow(createdWorkflow),
+      remoteUpdatedAt: new Date(createdWorkflow.updatedAt),
+      localUpdatedAt: new Date(),
+      syncStatus: 'synced',
+    })
+    .where(eq(schema.workflows.id, localWorkflow.id))
+    .run();
+  recordWorkflowVersion(localWorkflow, createdWorkflow, 'push', { created: true });
+
+  result.created++;
+  logger.info(`Created workflow: ${localWorkflow.name} (${createdWorkflow.id})`);
+
+  const createdRecord = db
+    .select()
+    .from(schema.workflows)
+    .where(eq(schema.workflows.id, localWorkflow.id))
+    .get();
+  if (createdRecord) {
+    await reconcileActivation(client, remote, createdRecord, localWorkflowData, createdWorkflow, result);
+  }
+}
+
+/**
+ * Delete a workflow on the remote after it was deleted locally and stop tracking it.
+ */
+async function deleteRemoteWorkflow(
+  db: ReturnType<typeof getDb>,
+  client: N8nClient,
+  remote: RemoteSnapshot,
+  localWorkflow: typeof schema.workflows.$inferSelect,
+  result: PushResult
+): Promise<void> {
+  try {
+    await client.deleteWorkflow(localWorkflow.remoteId);
+  } catch (error) {
+    // Already gone on the remote, nothing left to delete
+    if (!(error instanceof N8nApiError && error.statusCode === 404)) {
+      throw error;
+    }
+  }
+  remote.delete(localWorkflow.remoteId);
+
+  rmSync(getWorkflowDir(localWorkflow), { recursive: true, force: true });
+
+  db.delete(schema.workflows)
+    .where(eq(schema.workflows.id, localWorkflow.id))
+    .run();
+
+  db.insert(schema.syncHistory).values({
+    connectionId: localWorkflow.connectionId,
+    workflowId: localWorkflow.id,
+    action: 'delete',
+    details: JSON.stringify({
+      remoteId: localWorkflow.remoteId,
+      name: localWorkflow.name,
+    }),
+    createdAt: new Date(),
+  }).run();
+
+  result.deleted++;
+  logger.info(`Deleted workflow: ${localWorkflow.name}`);
 }
@@ -0,0 +1,115 @@
+import type { Workflow } from '@flowsfarm/core';
+import type { N8nClient } from '../client';
+import type { N8nWorkflow } from '../types';
+import { hashSyncedWorkflow } from './hashes';
+
+/**
+ * Remote workflows listed once and shared by diff, pull and push, so a
+ * command downloads the instance at most once. The n8n API has no filter
+ * for workflows updated since a date, so the listing always holds every
+ * workflow; isUnchangedSinceSync() lets callers skip the unchanged ones.
+ */
+export class RemoteSnapshot {
+  private client: N8nClient;
+  private workflows: Promise<Map<string, N8nWorkflow>> | null = null;
+
+  constructor(client: N8nClient) {
+    this.client = client;
+  }
+
+  /**
+   * Whether the listing was fetched (or is being fetched).
+   */
+  get loaded(): boolean {
+    return this.workflows !== null;
+  }
+
+  /**
+   * All remote workflows, fetched on first use.
+   */
+  async list(): Promise<N8nWorkflow[]> {
+    return [...(await this.load()).values()];
+  }
+
+  /**
+   * A remote workflow from the listing, or null if it does not exist.
+   */
+  async get(remoteId: string): Promise<N8nWorkflow | null> {
+    return (await this.load()).get(remoteId) ?? null;
+  }
+
+  /**
+   * A remote workflow from the listing if it was fetched already,
+   * otherwise fetch only this workflow.
+   */
+  async fetch(remoteId: string): Promise<N8nWorkflow> {
+    if (this.workflows) {
+      const workflow = (await this.workflows).get(remoteId);
+      if (workflow) {
+        return workflow;
+      }
+    }
+
+    return this.client.getWorkflow(remoteId);
+  }
+
+  /**
+   * Record a workflow written to the remote.
+   */
+  set(workflow: N8nWorkflow): void {
+    this.workflows = this.workflows?.then((map) => map.set(workflow.id, workflow)) ?? null;
+  }
+
+  /**
+   * Record a workflow deleted on the remote.
+   */
+  delete(remoteId: string): void {
+    this.workflows =
+      this.workflows?.then((map) => {
+        map.delete(remoteId);
+        return map;
+      }) ?? null;
+  }
+
+  /**
+   * Drop the listing so the next use fetches it again.
+   */
+  invalidate(): void {
+    this.workflows = null;
+  }
+
+  private load(): Promise<Map<string, N8nWorkflow>> {
+    this.workflows ??= this.client
+      .listAllWorkflows()
+      .then((workflows) => new Map(workflows.map((w) => [w.id, w])))
+      .catch((error) => {
+        this.workflows = null;
+        throw error;
+      });
+
+    return this.workflows;
+  }
+}
+
+/**
+ * Whether a remote workflow still has the updatedAt it had when last synced.
+ * Timestamps are stored with second precision.
+ */
+export function isUnchangedSinceSync(workflow: Workflow, remoteWorkflow: N8nWorkflow): boolean {
+  return (
+    workflow.remoteUpdatedAt !== null &&
+    Math.floor(Date.parse(remoteWorkflow.updatedAt) / 1000) ===
+      Math.floor(workflow.remoteUpdatedAt.getTime() / 1000)
+  );
+}
+
+/**
+ * Whether a remote workflow changed since it was last synced.
+ * It is only hashed when its updatedAt moved.
+ */
+export function hasRemoteChanges(workflow: Workflow, remoteWorkflow: N8nWorkflow): boolean {
+  return (
+    !isUnchangedSinceSync(workflow, remoteWorkflow) &&
+    hashSyncedWorkflow(remoteWorkflow) !== workflow.contentHash
+  );
+}
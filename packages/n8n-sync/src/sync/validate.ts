@@ -0,0 +1,228 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import { and, eq, ne } from 'drizzle-orm';
+import { getDb, schema } from '@flowsfarm/core';
+import { N8nWorkflowSchema } from '../types';
+import { getWorkflowDir } from './files';
+import { isNodeFileRef, resolveNodeFile } from './node-files';
+import {
+  JsonSyntaxError,
+  locateJsonPointer,
+  mapJsonPointers,
+  toJsonPointer,
+  type JsonPosition,
+} from './json-source';
+
+export interface ValidationIssue {
+  /** JSON pointer of the invalid value, '' for the whole document */
+  pointer: string;
+  /** Position of the invalid value, or of its closest parent when it is missing */
+  line: number;
+  column: number;
+  message: string;
+  /** zod issue code, 'syntax' for invalid JSON, 'unknown_node' for broken connections */
+  code: string;
+}
+
+export interface ValidationResult {
+  workflowId: string;
+  workflowName: string;
+  filePath: string;
+  issues: ValidationIssue[];
+}
+
+export class WorkflowValidationError extends Error {
+  constructor(
+    public filePath: string,
+    public issues: ValidationIssue[]
+  ) {
+    super(
+      'Invalid workflow file:\n' +
+        issues.map((issue) => `      ${formatValidationIssue(filePath, issue)}`).join('\n')
+    );
+    this.name = 'WorkflowValidationError';
+  }
+}
+
+// Local files of workflows not created on n8n yet have no ID or timestamps
+const LocalWorkflowSchema = N8nWorkflowSchema.partial({
+  id: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+/**
+ * Validate the text of a workflow file: JSON syntax, the workflow schema and
+ * that connections only refer to existing nodes. With the workflow folder,
+ * also that the node files it refers to exist.
+ */
+export function validateWorkflowText(text: string, workflowDir?: string): ValidationIssue[] {
+  let pointers: Map<string, JsonPosition>;
+  try {
+    pointers = mapJsonPointers(text);
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) {
+      return [{ pointer: '', ...error.position, message: error.message, code: 'syntax' }];
+    }
+    throw error;
+  }
+
+  // Missing values are reported at their closest existing parent
+  const locate = (pointer: string): JsonPosition => locateJsonPointer(pointers, pointer);
+
+  const data: unknown = JSON.parse(text);
+  const parsed = LocalWorkflowSchema.safeParse(data);
+
+  const schemaIssues = parsed.success
+    ? []
+    : parsed.error.issues.map((issue) => {
+        const pointer = toJsonPointer(issue.path);
+        return { pointer, ...locate(pointer), message: issue.message, code: issue.code };
+      });
+
+  const connectionIssues = checkConnections(data).map(({ path, message }) => {
+    const pointer = toJsonPointer(path);
+    return { pointer, ...locate(pointer), message, code: 'unknown_node' };
+  });
+
+  const fileIssues = workflowDir
+    ? checkNodeFiles(data, workflowDir).map(({ path, message }) => {
+        const pointer = toJsonPointer(path);
+        return { pointer, ...locate(pointer), message, code: 'missing_file' };
+      })
+    : [];
+
+  return [...schemaIssues, ...connectionIssues, ...fileIssues];
+}
+
+/**
+ * Validate a workflow file, see validateWorkflowText.
+ */
+export function validateWorkflowFile(workflowPath: string): ValidationIssue[] {
+  return validateWorkflowText(readFileSync(workflowPath, 'utf-8'), dirname(workflowPath));
+}
+
+/**
+ * Validate the local workflow files of a connection, optionally a single
+ * workflow by name, ID or remote ID.
+ */
+export function validateLocalWorkflows(connectionId: string, workflowRef?: string): ValidationResult[] {
+  const workflows = getDb()
+    .select()
+    .from(schema.workflows)
+    .where(
+      and(
+        eq(schema.workflows.connectionId, connectionId),
+        ne(schema.workflows.syncStatus, 'pending_delete')
+      )
+    )
+    .all()
+    .filter(
+      (w) =>
+        !workflowRef || w.id === workflowRef || w.remoteId === workflowRef || w.name === workflowRef
+    );
+
+  const results: ValidationResult[] = [];
+
+  for (const workflow of workflows) {
+    const workflowPath = join(getWorkflowDir(workflow), 'workflow.json');
+    if (!existsSync(workflowPath)) {
+      continue;
+    }
+
+    results.push({
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      filePath: relative(process.cwd(), workflowPath),
+      issues: validateWorkflowFile(workflowPath),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Format an issue as `file:line:column pointer message`.
+ */
+export function formatValidationIssue(filePath: string, issue: ValidationIssue): string {
+  return `${filePath}:${issue.line}:${issue.column} ${issue.pointer || '/'} ${issue.message}`;
+}
+
+/**
+ * Check that connections only refer to existing nodes. Runs on the raw file
+ * content, so broken references are reported along with schema issues.
+ */
+function checkConnections(data: unknown): Array<{ path: PropertyKey[]; message: string }> {
+  const { nodes, connections } = (isObject(data) ? data : {}) as Record<string, unknown>;
+  if (!Array.isArray(nodes) || !isObject(connections)) {
+    return [];
+  }
+
+  const names = new Set(nodes.filter(isObject).map((n) => n.name));
+  const issues: Array<{ path: PropertyKey[]; message: string }> = [];
+
+  for (const [source, outputs] of Object.entries(connections)) {
+    if (!names.has(source)) {
+      issues.push({ path: ['connections', source], message: `Connection from unknown node "${source}"` });
+    }
+
+    for (const [type, slots] of Object.entries(isObject(outputs) ? outputs : {})) {
+      if (!Array.isArray(slots)) continue;
+
+      slots.forEach((targets, slot) => {
+        if (!Array.isArray(targets)) return;
+
+        targets.forEach((target, index) => {
+          if (isObject(target) && typeof target.node === 'string' && !names.has(target.node)) {
+            issues.push({
+              path: ['connections', source, type, slot, index, 'node'],
+              message: `Connection to unknown node "${target.node}"`,
+            });
+          }
+        });
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check that the node files of the expanded layout exist in the workflow folder.
+ */
+function checkNodeFiles(data: unknown, workflowDir: string): Array<{ path: PropertyKey[]; message: string }> {
+  const { nodes } = (isObject(data) ? data : {}) as Record<string, unknown>;
+  if (!Array.isArray(nodes)) {
+    return [];
+  }
+
+  const issues: Array<{ path: PropertyKey[]; message: string }> = [];
+
+  nodes.forEach((node, index) => {
+    if (!isObject(node) || !isObject(node.parameters)) return;
+
+    for (const [key, value] of Object.entries(node.parameters)) {
+      if (!isNodeFileRef(value)) continue;
+
+      let message: string | null = null;
+      try {
+        if (!existsSync(resolveNodeFile(workflowDir, value.$file))) {
+          message = `File not found: ${value.$file}`;
+        }
+      } catch (error) {
+        message = error instanceof Error ? error.message : String(error);
+      }
+
+      if (message) {
+        issues.push({ path: ['nodes', index, 'parameters', key, '$file'], message });
+      }
+    }
+  });
+
+  return issues;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
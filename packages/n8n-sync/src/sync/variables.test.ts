@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { N8nWorkflow } from '../types';
+import { extractVariables, renderVariables } from './variables';
+
+// Orders are loaded from the shop database and announced in the team channel
+const orderSync: N8nWorkflow = {
+  id: 'orders',
+  name: 'Order sync',
+  active: false,
+  nodes: [
+    {
+      name: 'Load orders',
+      type: 'n8n-nodes-base.postgres',
+      position: [0, 0],
+      parameters: { operation: 'executeQuery', query: "SELECT * FROM orders WHERE env = 'prod'" },
+    },
+    {
+      name: 'Tag orders',
+      type: 'n8n-nodes-base.code',
+      position: [220, 0],
+      parameters: { jsCode: "return items.map((i) => ({ json: { ...i.json, env: 'prod', retries: 1 } }));" },
+    },
+    {
+      name: 'Announce',
+      type: 'n8n-nodes-base.slack',
+      position: [440, 0],
+      parameters: {
+        channel: 'C0PROD',
+        text: 'New prod orders synced',
+        otherOptions: { mrkdwn: true, unfurl: 'prod' },
+      },
+    },
+  ],
+  connections: {},
+  createdAt: '2024-06-03T07:00:00.000Z',
+  updatedAt: '2024-06-03T07:00:00.000Z',
+};
+
+const production = { ENV: 'prod', CHANNEL: 'C0PROD', RETRIES: '1' };
+
+const parameters = (workflow: N8nWorkflow) =>
+  Object.fromEntries(workflow.nodes.map((n) => [n.name, n.parameters]));
+
+describe('extractVariables', () => {
+  it('replaces parameters whose whole value is a variable value', () => {
+    expect(parameters(extractVariables(orderSync, production)).Announce).toEqual({
+      channel: '{{ff.CHANNEL}}',
+      text: 'New prod orders synced',
+      otherOptions: { mrkdwn: true, unfurl: '{{ff.ENV}}' },
+    });
+  });
+
+  it('leaves code and SQL queries alone', () => {
+    const extracted = parameters(extractVariables(orderSync, production));
+
+    expect(extracted['Load orders']).toEqual(orderSync.nodes[0].parameters);
+    expect(extracted['Tag orders']).toEqual(orderSync.nodes[1].parameters);
+  });
+
+  it('restores the placeholders that renderVariables filled in', () => {
+    const extracted = extractVariables(orderSync, production);
+
+    expect(renderVariables(extracted, production)).toEqual({ workflow: orderSync, missing: [] });
+  });
+});
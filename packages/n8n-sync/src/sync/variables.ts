@@ -0,0 +1,114 @@
+import { getConnection } from '../connection';
+import type { N8nNode, N8nWorkflow } from '../types';
+import { loadEnvironment } from './environment';
+import { isCodeParameter } from './node-files';
+
+// {{ff.NAME}} placeholder in a node parameter
+const PLACEHOLDER = /\{\{\s*ff\.([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export interface RenderResult {
+  workflow: N8nWorkflow;
+  /** Placeholders without a value for the connection */
+  missing: string[];
+}
+
+/**
+ * Get the variables of a connection from its environment file.
+ */
+export function getConnectionVariables(connectionId: string): Record<string, string> {
+  const connection = getConnection(connectionId);
+  return connection ? loadEnvironment(connection.name).variables : {};
+}
+
+/**
+ * Replace {{ff.NAME}} placeholders in node parameters with their values.
+ * Placeholders without a value are left as they are and reported.
+ */
+export function renderVariables(
+  workflow: N8nWorkflow,
+  variables: Record<string, string>
+): RenderResult {
+  const missing = new Set<string>();
+
+  const rendered = mapParameterStrings(workflow, (text) =>
+    text.replace(PLACEHOLDER, (placeholder, name: string) => {
+      if (!(name in variables)) {
+        missing.add(name);
+        return placeholder;
+      }
+      return variables[name];
+    })
+  );
+
+  return { workflow: rendered, missing: [...missing] };
+}
+
+/**
+ * Replace variable values in node parameters with their placeholders, the
+ * reverse of renderVariables. Only parameters whose whole value is a variable
+ * value are replaced; code and SQL queries are never touched.
+ */
+export function extractVariables(
+  workflow: N8nWorkflow,
+  variables: Record<string, string>
+): N8nWorkflow {
+  const placeholders = new Map(
+    Object.entries(variables)
+      .filter(([, value]) => value.length > 0)
+      .map(([name, value]) => [value, `{{ff.${name}}}`])
+  );
+
+  if (placeholders.size === 0) {
+    return workflow;
+  }
+
+  return mapParameterStrings(workflow, (text) => placeholders.get(text) ?? text, isCodeParameter);
+}
+
+/**
+ * List the placeholders used in a workflow's node parameters.
+ */
+export function findPlaceholders(workflow: N8nWorkflow): string[] {
+  const names = new Set<string>();
+
+  mapParameterStrings(workflow, (text) => {
+    for (const match of text.matchAll(PLACEHOLDER)) {
+      names.add(match[1]);
+    }
+    return text;
+  });
+
+  return [...names];
+}
+
+function mapParameterStrings(
+  workflow: N8nWorkflow,
+  fn: (text: string) => string,
+  skip: (node: N8nNode, key: string) => boolean = () => false
+): N8nWorkflow {
+  const mapValue = (value: unknown): unknown => {
+    if (typeof value === 'string') return fn(value);
+    if (Array.isArray(value)) return value.map(mapValue);
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapValue(v)]));
+    }
+    return value;
+  };
+
+  return {
+    ...workflow,
+    nodes: (workflow.nodes ?? []).map((node) =>
+      node.parameters
+        ? {
+            ...node,
+            parameters: Object.fromEntries(
+              Object.entries(node.parameters).map(([key, value]) => [
+                key,
+                skip(node, key) ? value : mapValue(value),
+              ])
+            ),
+          }
+        : node
+    ),
+  };
+}
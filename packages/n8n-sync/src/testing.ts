@@ -0,0 +1,181 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { vi } from 'vitest';
+import {
+  closeDb,
+  getConfig,
+  initConfig,
+  runMigrations,
+  setLogLevel,
+  setProjectRoot,
+} from '@flowsfarm/core';
+import type { N8nClient } from './client';
+import { addConnection, getClient } from './connection';
+import type { N8nWorkflow } from './types';
+
+/**
+ * Helpers for tests that sync against n8n: an in-memory n8n instance
+ * answering the public API through a stubbed fetch, and a temporary project
+ * connected to it. Not part of the package's exports.
+ */
+
+const HOST = 'n8n.test';
+
+type WorkflowInput = Partial<N8nWorkflow> & Pick<N8nWorkflow, 'name'>;
+
+export class FakeN8n {
+  readonly workflows = new Map<string, N8nWorkflow>();
+  /** Requests received, as "METHOD /path" */
+  readonly requests: string[] = [];
+
+  private lastId = 0;
+  private clock = Date.parse('2024-05-01T08:00:00.000Z');
+
+  /**
+   * Add a workflow as if it was created in the n8n editor.
+   */
+  add(workflow: WorkflowInput): N8nWorkflow {
+    const now = this.tick();
+    const created: N8nWorkflow = {
+      id: `wf${++this.lastId}`,
+      active: false,
+      nodes: [],
+      connections: {},
+      settings: {},
+      createdAt: now,
+      ...workflow,
+      updatedAt: now,
+    };
+    this.workflows.set(created.id, created);
+    return created;
+  }
+
+  /**
+   * Change a workflow as if it was edited in the n8n editor.
+   */
+  edit(id: string, change: (workflow: N8nWorkflow) => void): N8nWorkflow {
+    const workflow = structuredClone(this.get(id));
+    change(workflow);
+    workflow.updatedAt = this.tick();
+    this.workflows.set(id, workflow);
+    return workflow;
+  }
+
+  get(id: string): N8nWorkflow {
+    const workflow = this.workflows.get(id);
+    if (!workflow) {
+      throw new Error(`No workflow ${id} on the fake n8n`);
+    }
+    return workflow;
+  }
+
+  fetch = async (input: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(String(input));
+    const method = init.method ?? 'GET';
+    const body = typeof init.body === 'string' ? JSON.parse(init.body) : undefined;
+    this.requests.push(`${method} ${url.pathname}`);
+
+    const [, id, action] = url.pathname.match(/^\/api\/v1\/workflows(?:\/([^/]+))?(?:\/(\w+))?$/) ?? [];
+
+    if (url.pathname === '/api/v1/tags') {
+      return json({ data: [] });
+    }
+    if (!url.pathname.startsWith('/api/v1/workflows')) {
+      return notFound();
+    }
+
+    if (!id) {
+      if (method === 'POST') {
+        // n8n creates workflows inactive
+        return json(this.add({ ...body, active: false }));
+      }
+      return json({ data: [...this.workflows.values()], nextCursor: null });
+    }
+
+    if (!this.workflows.has(id)) {
+      return notFound();
+    }
+
+    switch (`${method} ${action ?? ''}`) {
+      case 'GET ':
+        return json(this.get(id));
+      case 'PUT ':
+        return json(this.edit(id, (w) => Object.assign(w, body)));
+      case 'DELETE ': {
+        const deleted = this.get(id);
+        this.workflows.delete(id);
+        return json(deleted);
+      }
+      case 'POST activate':
+      case 'POST deactivate':
+        return json(this.edit(id, (w) => (w.active = action === 'activate')));
+      case 'PUT tags':
+        return json([]);
+      default:
+        return notFound();
+    }
+  };
+
+  private tick(): string {
+    this.clock += 60_000;
+    return new Date(this.clock).toISOString();
+  }
+}
+
+export interface TestProject {
+  connectionId: string;
+  client: N8nClient;
+  workflowsPath: string;
+  /** Connect another fake n8n instance under a name, returning the connection ID */
+  addInstance(name: string, n8n: FakeN8n): Promise<string>;
+  cleanup(): void;
+}
+
+/**
+ * Create a project in a temporary folder with an empty database and a
+ * connection named "dev" to the fake n8n instance.
+ */
+export async function createTestProject(n8n: FakeN8n): Promise<TestProject> {
+  const root = mkdtempSync(join(tmpdir(), 'flowsfarm-test-'));
+  initConfig(root);
+  closeDb();
+  runMigrations();
+  setLogLevel('error');
+
+  // Requests go to the instance with the host of the URL
+  const instances = new Map([[HOST, n8n]]);
+  vi.stubGlobal('fetch', (input: string | URL | Request, init?: RequestInit) =>
+    (instances.get(new URL(String(input)).host) ?? n8n).fetch(input, init)
+  );
+
+  const connection = await addConnection({ name: 'dev', baseUrl: `http://${HOST}`, apiKey: 'test-key' });
+
+  return {
+    connectionId: connection.id,
+    client: getClient(connection.id),
+    workflowsPath: getConfig().workflowsPath,
+    async addInstance(name, other) {
+      instances.set(`${name}.${HOST}`, other);
+      const added = await addConnection({ name, baseUrl: `http://${name}.${HOST}`, apiKey: 'test-key' });
+      return added.id;
+    },
+    cleanup() {
+      vi.unstubAllGlobals();
+      closeDb();
+      setProjectRoot(process.cwd());
+      rmSync(root, { recursive: true, force: true });
+    },
+  };
+}
+
+function json(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function notFound(): Response {
+  return new Response(JSON.stringify({ message: 'Not Found' }), { status: 404 });
+}
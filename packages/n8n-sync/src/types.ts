@@ -50,6 +50,7 @@ export const N8nWorkflowSchema = z.object({
   tags: z.array(z.object({ id: z.string(), name: z.string() })).optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
+  versionId: z.string().optional(),
 });
 
 export type N8nWorkflow = z.infer<typeof N8nWorkflowSchema>;
@@ -62,11 +63,27 @@ export const WorkflowListResponseSchema = z.object({
 
 export type WorkflowListResponse = z.infer<typeof WorkflowListResponseSchema>;
 
+// n8n Tag schema
+export const N8nTagSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export type N8nTag = z.infer<typeof N8nTagSchema>;
+
+export const TagListResponseSchema = z.object({
+  data: z.array(N8nTagSchema),
+  nextCursor: z.string().nullable().optional(),
+});
+
+export const WorkflowTagsResponseSchema = z.array(N8nTagSchema);
+
 // Input schemas for create/update
 export const CreateWorkflowInputSchema = N8nWorkflowSchema.omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  versionId: true,
 }).partial({
   active: true,
   settings: true,
@@ -84,6 +101,14 @@ export interface N8nClientConfig {
   baseUrl: string;
   apiKey: string;
   timeout?: number;
+  /** Maximum number of requests in flight */
+  concurrency?: number;
+  /** Retries for rate-limited, failed or timed out requests */
+  maxRetries?: number;
+  /** Base delay in ms for exponential backoff between retries */
+  retryDelay?: number;
+  /** Maximum number of requests started per minute */
+  requestsPerMinute?: number;
 }
 
 // List options
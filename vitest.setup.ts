@@ -0,0 +1,4 @@
+import { vi } from 'vitest';
+
+// bun:sqlite is only available on Bun, tests use an in-memory SQLite database
+vi.mock('@flowsfarm/core/storage/db', () => import('@flowsfarm/core/storage/memory-db'));